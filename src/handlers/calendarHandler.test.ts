@@ -0,0 +1,172 @@
+// src/handlers/calendarHandler.test.ts
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CalendarHandler } from './calendarHandler';
+import { IntelligentPlanner } from '../services/intelligentPlanner';
+import { StubProvider } from '../services/llm/stubProvider';
+import { GoogleCalendarService } from '../utils/mcpClient';
+import { BotReply, RichReply } from '../types';
+
+// --- 計畫確認的對話流程 ---
+// 用 StubProvider 代替模型、記憶體中的 SQLite 代替儲存層，
+// 並攔截 Google Calendar 的寫入，從使用者傳送訊息一路走到行程建立。
+
+const LINE_USER_ID = 'U-test-user';
+
+const PLAN_INTENT = JSON.stringify({
+  action: 'plan_complex_task',
+  plan: [
+    { summary: '複習線性代數', startTime: '2030-01-07T19:00:00.000+08:00', duration_hours: 2 },
+    { summary: '寫作業', startTime: '2030-01-08T19:00:00.000+08:00', duration_hours: 1 },
+  ],
+});
+
+function firstMessage(reply: BotReply): RichReply {
+  const message = Array.isArray(reply) ? reply[0] : reply;
+  return typeof message === 'string' ? { text: message } : message;
+}
+
+describe('計畫確認流程', () => {
+  let handler: CalendarHandler;
+  let stub: StubProvider;
+  let createdSummaries: string[];
+
+  beforeEach(async () => {
+    process.env.STORAGE_BACKEND = 'sqlite';
+    process.env.SQLITE_DB_PATH = ':memory:';
+    handler = new CalendarHandler();
+
+    stub = new StubProvider();
+    IntelligentPlanner.setProvider(stub);
+
+    createdSummaries = [];
+    mock.method(GoogleCalendarService.prototype, 'createEvent', async (event: any) => {
+      createdSummaries.push(event.summary);
+      return { id: `event-${createdSummaries.length}`, ...event };
+    });
+
+    const { rowNumber } = await handler.storageService.findOrCreateUser(LINE_USER_ID);
+    await handler.storageService.setUserGoogleToken(rowNumber, 'test-refresh-token');
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  // 每次都重新讀取使用者，和 LineHandler 處理每則訊息時一樣
+  async function send(message: string): Promise<BotReply> {
+    return handler.handleMessage(await handler.storageService.findOrCreateUser(LINE_USER_ID), message);
+  }
+
+  async function press(data: string): Promise<BotReply> {
+    return handler.handlePostback(await handler.storageService.findOrCreateUser(LINE_USER_ID), data);
+  }
+
+  async function currentStatus(): Promise<string | null> {
+    const { user } = await handler.storageService.findOrCreateUser(LINE_USER_ID);
+    return user.state_json ? JSON.parse(user.state_json).status : null;
+  }
+
+  test('回覆「好」之後建立計畫中的所有行程並清除狀態', async () => {
+    stub.script('understand', PLAN_INTENT);
+
+    const proposal = firstMessage(await send('幫我安排下週的讀書計畫'));
+    assert.match(proposal.text, /複習線性代數/);
+    assert.equal(await currentStatus(), 'waiting_confirmation');
+    assert.equal(createdSummaries.length, 0);
+
+    const result = firstMessage(await send('好'));
+    assert.match(result.text, /2 個任務行程/);
+    assert.deepEqual(createdSummaries, ['複習線性代數', '寫作業']);
+    assert.equal(await currentStatus(), null);
+  });
+
+  test('按下確認按鈕後建立行程，同一個按鈕不能再按一次', async () => {
+    stub.script('understand', PLAN_INTENT);
+
+    const proposal = firstMessage(await send('幫我安排下週的讀書計畫'));
+    const confirmButton = proposal.quickReplies?.find(button => button.displayText === '好');
+    assert.ok(confirmButton);
+
+    await press(confirmButton.data);
+    assert.equal(createdSummaries.length, 2);
+
+    const stale = firstMessage(await press(confirmButton.data));
+    assert.match(stale.text, /失效/);
+    assert.equal(createdSummaries.length, 2);
+  });
+
+  test('提出修改意見時換成調整後的計畫，舊計畫的按鈕隨之失效', async () => {
+    stub.script('understand', PLAN_INTENT);
+    stub.script('modify_plan', JSON.stringify({
+      action: 'plan_complex_task',
+      plan: [{ summary: '複習線性代數 (延長)', startTime: '2030-01-07T19:00:00.000+08:00', duration_hours: 3 }],
+    }));
+
+    // 按鈕以狀態的建立時間識別，讓兩份計畫的建立時間錯開
+    mock.timers.enable({ apis: ['Date'], now: new Date('2029-12-30T12:00:00Z') });
+    const proposal = firstMessage(await send('幫我安排下週的讀書計畫'));
+    const oldConfirm = proposal.quickReplies!.find(button => button.displayText === '好')!;
+
+    mock.timers.tick(1000);
+    const revised = firstMessage(await send('第一項改成三小時，作業先拿掉'));
+    assert.match(revised.text, /延長/);
+    assert.equal(await currentStatus(), 'waiting_confirmation');
+
+    assert.match(firstMessage(await press(oldConfirm.data)).text, /失效/);
+    await send('好');
+    assert.deepEqual(createdSummaries, ['複習線性代數 (延長)']);
+  });
+
+  test('回覆「取消」時不建立任何行程', async () => {
+    stub.script('understand', PLAN_INTENT);
+
+    await send('幫我安排下週的讀書計畫');
+    const result = firstMessage(await send('取消'));
+    assert.match(result.text, /取消/);
+    assert.equal(await currentStatus(), null);
+    assert.equal(createdSummaries.length, 0);
+  });
+});
+
+describe('Google 授權失效', () => {
+  let handler: CalendarHandler;
+  let stub: StubProvider;
+
+  beforeEach(async () => {
+    process.env.STORAGE_BACKEND = 'sqlite';
+    process.env.SQLITE_DB_PATH = ':memory:';
+    process.env.OAUTH_STATE_SECRET = 'test-state-secret';
+    process.env.PUBLIC_BASE_URL = 'https://bot.example.com';
+    handler = new CalendarHandler();
+
+    stub = new StubProvider();
+    IntelligentPlanner.setProvider(stub);
+
+    // 使用者在 Google 帳號中撤銷授權後，API 會回傳 invalid_grant
+    mock.method(GoogleCalendarService.prototype as any, 'listAllEvents', async () => {
+      throw Object.assign(new Error('invalid_grant'), { response: { data: { error: 'invalid_grant' } } });
+    });
+
+    const { rowNumber } = await handler.storageService.findOrCreateUser(LINE_USER_ID);
+    await handler.storageService.setUserGoogleToken(rowNumber, 'revoked-refresh-token');
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('查詢行程時發現授權失效，清除 token 並請使用者重新連結', async () => {
+    stub.script('understand', JSON.stringify({ action: 'list_events', params: { timeRange: 'today' }, confidence: 0.9 }));
+
+    const context = await handler.storageService.findOrCreateUser(LINE_USER_ID);
+    const reply = firstMessage(await handler.handleMessage(context, '今天有什麼行程'));
+    assert.match(reply.text, /授權已失效/);
+    assert.match(reply.text, /https:\/\/bot\.example\.com\/auth\/google\/start/);
+
+    const { user } = await handler.storageService.findOrCreateUser(LINE_USER_ID);
+    assert.equal(user.google_refresh_token, null);
+  });
+});
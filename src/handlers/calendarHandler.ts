@@ -1,29 +1,108 @@
 // src/handlers/calendarHandler.ts
 
 import { GoogleCalendarService } from '../utils/mcpClient';
-import { GoogleSheetService, User } from '../services/googleSheetService';
+import { KnowledgeNote, LearningObjective, NoteSourceType, StorageService, User, UserContext, createStorageService, getUserTimeZone, parseUserSettings } from '../services/storageService';
+import { GoogleAuthService } from '../services/googleAuthService';
 import { IntelligentPlanner } from '../services/intelligentPlanner';
-import { formatEventsForLine } from '../utils/responseFormatter';
+import { ImageInput } from '../services/llm/llmProvider';
+import { ChoiceResult, ImageIntent, IntentOf, KnowledgeIntent, UserIntent } from '../services/llm/intentSchemas';
+import { ObjectiveSummary, formatDateTime, formatEventDate, formatEventDetails, formatEventsForLine, formatTimeRange, formatObjectiveStatus, formatObjectivesForLine, formatPlanForLine } from '../utils/responseFormatter';
+import { addDaysToDateString, formatDateString, getWeekdayOfDateString, isValidTimeZone, toZonedDateString, zonedTimeToDate } from '../utils/dateUtils';
+import { buildAgendaFlex, buildPlanFlex, toReply, withQuickReplies } from '../utils/flexRenderer';
 import { LineHandler } from './lineHandler';
+import { JobQueue } from '../services/jobQueue';
+import { Job, JobStore } from '../services/jobStore';
+import { FALLBACK_LEAD_MINUTES, ReminderScheduler, getReminderSchedulerOptions, resolveLeadMinutes } from '../services/reminderScheduler';
+import { ReminderStore } from '../services/reminderStore';
+import { applyReschedule } from '../services/rescheduler';
+import { matchObjective, parseObjectiveChoice } from '../services/objectiveMatcher';
+import { formatCardAnswer, formatCardQuestion, gradeFlashcard, parseFlashcardGrade, startFlashcardReview } from '../services/flashcardReview';
+import { filterNotes, formatNoteList, formatNotePreview } from '../services/noteLibrary';
+import { DocumentPage, dedupePlanEvents, getDocumentBatchOptions, getDocumentPages, isFileTooLarge, isPdfFile } from '../services/documentIngestion';
+import { KnowledgeSource, detectKnowledgeSource, fetchPageText, getKnowledgeTextMaxLength } from '../services/knowledgeCapture';
+import { buildRRule, collapseRecurringInstances, describeRecurrence, getOccurrenceHorizon, shiftChangesToSeries } from '../services/recurrence';
+import { SharedLocation, buildEventDetailFields, formatSharedLocation, getEventDetails } from '../services/eventDetails';
+import { EventConflict, SUGGESTION_HORIZON_DAYS, findConflicts, isLowConfidence } from '../services/eventConflicts';
+import { AGENDA_LIST_LIMIT, countDaysInRange, filterEvents, getAgendaMaxRangeDays, getDateRangeBounds, hasAgendaFilter } from '../services/agendaQuery';
+import {
+  formatQuizFeedback,
+  formatQuizQuestion,
+  formatQuizSummary,
+  formatSkippedQuestion,
+  gradeQuizAnswer,
+  isQuizSkip,
+  recordQuizAttempt,
+  startQuiz
+} from '../services/quizSession';
+import { BotReply, EventChanges, EventDetails, PendingEvent, PlanEvent, QuickReplyButton, RecurrenceScope, RescheduleItem } from '../types';
+import {
+  ConfirmationChoice,
+  ConversationState,
+  ConversationStatus,
+  DeleteConfirmationState,
+  EventConfirmationState,
+  FlashcardReviewState,
+  KnowledgeActionState,
+  ObjectiveChoiceState,
+  ObjectiveDeleteConfirmationState,
+  PlanConfirmationState,
+  PlanCorrectionState,
+  QuizSessionState,
+  RecurrenceScopeState,
+  RescheduleConfirmationState,
+  StateOf,
+  UpdateConfirmationState,
+  buildChoiceButtons,
+  createState,
+  decodePostback,
+  encodePostback,
+  getExpiredNotice,
+  isCancelCommand,
+  isStateExpired,
+  parseState
+} from '../services/conversationState';
 
-interface PlanEvent {
-  summary: string;
-  date?: string; 
-  startTime?: string;
-  duration_hours?: number;
-  objectiveId?: number;  
+// 狀態處理函式共用的上下文
+interface StateContext {
+  calendar: GoogleCalendarService;
+  rowNumber: number;
+  user: User;
 }
 
+// 每一種對話狀態都對應一個處理函式
+type StateHandlers = {
+  [S in ConversationStatus]: (context: StateContext, state: StateOf<S>, message: string) => Promise<BotReply>;
+};
+
 export class CalendarHandler {
-  private googleCalendarService: GoogleCalendarService;
+  // 每位使用者專屬的日曆服務快取 (key 為 user id)
+  private userCalendars = new Map<number, { refreshToken: string; service: GoogleCalendarService }>();
   // 設為 public，這樣 lineHandler 才能透過它呼叫 findOrCreateUser
-  public sheetService: GoogleSheetService;
+  public storageService: StorageService;
   private lineHandler?: LineHandler;
+  // 圖片分析等耗時工作的持久化佇列，在 initialize() 時啟動
+  private jobQueue: JobQueue | null = null;
+  // 行程提醒排程器，REMINDERS_ENABLED=false 時不啟動
+  private reminderScheduler: ReminderScheduler | null = null;
+
+  private readonly stateHandlers: StateHandlers = {
+    waiting_confirmation: (context, state, message) => this.handlePlanConfirmation(context, state, message),
+    waiting_delete_confirmation: (context, state, message) => this.handleDeleteConfirmation(context, state, message),
+    waiting_update_confirmation: (context, state, message) => this.handleUpdateConfirmation(context, state, message),
+    waiting_plan_correction: (context, state, message) => this.handlePlanCorrection(context, state, message),
+    waiting_knowledge_action: (context, state, message) => this.handleKnowledgeAction(context, state, message),
+    waiting_reschedule_confirmation: (context, state, message) => this.handleRescheduleConfirmation(context, state, message),
+    waiting_flashcard_grade: (context, state, message) => this.handleFlashcardGrade(context, state, message),
+    waiting_quiz_answer: (context, state, message) => this.handleQuizAnswer(context, state, message),
+    waiting_objective_delete_confirmation: (context, state, message) => this.handleObjectiveDeleteConfirmation(context, state, message),
+    waiting_objective_choice: (context, state, message) => this.handleObjectiveChoice(context, state, message),
+    waiting_event_confirmation: (context, state, message) => this.handleEventConfirmation(context, state, message),
+    waiting_recurrence_scope: (context, state, message) => this.handleRecurrenceScope(context, state, message),
+  };
 
   constructor() {
-    this.googleCalendarService = new GoogleCalendarService();
-    // 將 calendarService 的 auth 物件傳給 sheetService，確保使用同一個認證
-    this.sheetService = new GoogleSheetService(this.googleCalendarService.auth);
+    // 儲存服務使用應用程式層級的認證 (Sheets 後端需要)
+    this.storageService = createStorageService(GoogleAuthService.createAppAuthClient());
   }
 
   public setLineHandler(handler: LineHandler) {
@@ -31,327 +110,842 @@ export class CalendarHandler {
   }
 
   async initialize(): Promise<void> {
-    try {
-      await this.googleCalendarService.connect();
-      console.log('✅ 日曆處理器初始化完成');
-    } catch (error) {
-      console.error('❌ 日曆處理器初始化失敗:', error);
-      throw error;
+    this.jobQueue = new JobQueue(new JobStore(process.env.JOB_QUEUE_DB_PATH || './data/jobs.db'));
+    this.jobQueue.register('analyze_image', job => this.runImageAnalysisJob(job));
+    this.jobQueue.register('analyze_text', job => this.runTextAnalysisJob(job));
+    this.jobQueue.onDeadLetter(async job => {
+      // 重試用盡才通知使用者，避免暫時性的錯誤打擾使用者
+      const target = job.type === 'analyze_image' ? '您的文件' : job.payload.url ? '這個網頁' : '這段文字';
+      await this.lineHandler?.pushMessage(job.line_user_id, `😵 抱歉，AI 大腦在分析${target}時似乎遇到了一點困難，請稍後再試一次。`);
+    });
+    this.jobQueue.start();
+
+    if (process.env.REMINDERS_ENABLED !== 'false') {
+      this.reminderScheduler = new ReminderScheduler(
+        new ReminderStore(process.env.REMINDER_DB_PATH || './data/reminders.db'),
+        this.storageService,
+        user => this.getCalendarServiceForUser(user),
+        async (lineUserId, reply) => {
+          if (!this.lineHandler) {
+            throw new Error('LINE 處理器尚未設定，無法推送提醒');
+          }
+          await this.lineHandler.pushMessage(lineUserId, reply);
+        }
+      );
+      this.reminderScheduler.start();
+    }
+    console.log('✅ 日曆處理器初始化完成');
+  }
+
+  /**
+   * 取得使用者專屬的日曆服務，若使用者尚未連結 Google 帳號則回傳 null。
+   */
+  private getCalendarServiceForUser(user: User): GoogleCalendarService | null {
+    if (!user.google_refresh_token) {
+      return null;
+    }
+
+    const cached = this.userCalendars.get(user.id);
+    if (cached && cached.refreshToken === user.google_refresh_token) {
+      // 使用者可能在其他請求中改了時區，每次都以最新的設定為準
+      cached.service.timeZone = getUserTimeZone(user);
+      return cached.service;
     }
+
+    const service = new GoogleCalendarService(GoogleAuthService.createUserAuthClient(user.google_refresh_token), getUserTimeZone(user));
+    this.userCalendars.set(user.id, { refreshToken: user.google_refresh_token, service });
+    return service;
+  }
+
+  /**
+   * 產生請使用者連結 Google 帳號的提示訊息。
+   */
+  getLinkAccountPrompt(lineUserId: string): string {
+    return `🔗 請先連結您的 Google 帳號，我才能幫您管理行事曆喔！\n\n請點擊以下連結完成授權 (1 小時內有效)：\n${GoogleAuthService.buildStartUrl(lineUserId)}`;
+  }
+
+  /**
+   * 完成 OAuth 流程：用授權碼換取 refresh token，並存到使用者資料中。
+   * @param lineUserId 從 state 驗證出來的 LINE 使用者 ID
+   * @param code Google callback 帶回的授權碼
+   */
+  async linkGoogleAccount(lineUserId: string, code: string): Promise<void> {
+    const refreshToken = await GoogleAuthService.exchangeCodeForRefreshToken(code);
+    const { rowNumber, user } = await this.storageService.findOrCreateUser(lineUserId);
+    await this.storageService.setUserGoogleToken(rowNumber, refreshToken);
+    this.userCalendars.delete(user.id);
+    console.log(`[Auth] 使用者 ${user.id} 已連結 Google 帳號`);
   }
 
   /**
    * 處理來自 LINE 的文字訊息。
-   * @param userContext 包含使用者在 Google Sheet 中的列號和資料的物件
+   * @param userContext 包含使用者在儲存層中的列號和資料的物件
    * @param message 使用者傳送的訊息文字
    */
-  async handleMessage(userContext: { rowNumber: number; user: User }, message: string): Promise<string> {
+  async handleMessage(userContext: UserContext, message: string): Promise<BotReply> {
+    return this.runWithCalendar(userContext, calendar => this.dispatchMessage(calendar, userContext, message));
+  }
+
+  /**
+   * 使用者主動要求複習卡片：整理出今天到期的卡片，開始一輪複習。
+   */
+  async handleFlashcardReviewRequest(userContext: UserContext): Promise<BotReply> {
+    return this.runWithCalendar(userContext, async () => {
+      const reply = await startFlashcardReview(this.storageService, userContext.rowNumber, userContext.user.id);
+      return reply || '🎉 目前沒有需要複習的卡片！傳送筆記圖片給我，我會幫您整理出新的卡片。';
+    });
+  }
+
+  /**
+   * 處理快速回覆按鈕帶回的 postback，不經過 LLM 直接交給對應的狀態處理函式。
+   * @param data 按鈕的 postback data (由 encodePostback 產生)
+   */
+  async handlePostback(userContext: UserContext, data: string): Promise<BotReply> {
+    return this.runWithCalendar(userContext, calendar => this.dispatchPostback(calendar, userContext, data));
+  }
+
+  /**
+   * 確認使用者已連結 Google 帳號後執行操作，並處理授權被撤銷的情況。
+   */
+  private async runWithCalendar(userContext: UserContext, action: (calendar: GoogleCalendarService) => Promise<BotReply>): Promise<BotReply> {
     const { rowNumber, user } = userContext;
-    // 從 user 物件解析出 JSON 狀態，如果不存在則為 null
-    const userState = user.state_json ? JSON.parse(user.state_json) : null;
-    
+    const calendar = this.getCalendarServiceForUser(user);
+    if (!calendar) {
+      return this.getLinkAccountPrompt(user.line_user_id);
+    }
+
+    try {
+      return await action(calendar);
+    } catch (error) {
+      // 使用者在 Google 帳號中撤銷了授權，清除 token 並請他重新連結
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        await this.storageService.setUserGoogleToken(rowNumber, null);
+        this.userCalendars.delete(user.id);
+        return `⚠️ 您的 Google 授權已失效。\n\n${this.getLinkAccountPrompt(user.line_user_id)}`;
+      }
+      throw error;
+    }
+  }
+
+  private async dispatchMessage(calendar: GoogleCalendarService, userContext: UserContext, message: string): Promise<BotReply> {
+    const { rowNumber, user } = userContext;
+    const context: StateContext = { calendar, rowNumber, user };
+    let notice = '';
+
     // --- 狀態處理中心 ---
-    // 如果使用者處於某個等待回覆的狀態，優先處理
-    if (userState) {
-        switch (userState.status) {
-            
-            // 情況 1：等待使用者確認計畫
-            case 'waiting_confirmation': {
-                const plan = userState.plan;
-                const messageTrimmed = message.trim();
-
-                // ✨ 新的、更嚴格的判斷邏輯 ✨
-                const pureConfirmTerms = ['好', '可以', 'ok', '沒問題', '是的', '同意', '好啊', '可以啊'];
-                const isPureConfirmation = pureConfirmTerms.includes(messageTrimmed) && messageTrimmed.length < 5;
-                
-                const negativeResponses = ['不用', '取消', '不要', '不對'];
-
-                if (isPureConfirmation) {
-                    // 使用者只回覆了 "好" 或 "可以" 等簡短詞語
-                    await this.sheetService.setUserState(rowNumber, null);
-                    return this.handleCreatePlan(plan);
-                } else if (negativeResponses.some(resp => messageTrimmed.toLowerCase().includes(resp))) {
-                    // 使用者回覆了否定詞
-                    await this.sheetService.setUserState(rowNumber, null);
-                    return '好的，已為您取消安排。';
-                } else {
-                    // ✨ 其他所有情況，都視為修改意見 ✨
-                    console.log(`[對話] 收到計畫修改要求: ${message}`);
-                    const modifiedIntent = await IntelligentPlanner.modifyPlan(plan, message);
-
-                    if (modifiedIntent.action === 'plan_complex_task') {
-                        const newState = { status: 'waiting_confirmation', plan: modifiedIntent.plan };
-                        await this.sheetService.setUserState(rowNumber, newState);
-                        return `好的，這是為您調整後的計畫，您覺得如何？\n\n${this.formatPlanForConfirmation(modifiedIntent.plan, false)}`;
-                    } else {
-                        await this.sheetService.setUserState(rowNumber, null);
-                        return modifiedIntent.params?.response || '抱歉，我不太能理解您的修改。';
-                    }
-                }
-            }
+    // 如果使用者處於某個等待回覆的狀態，優先交給對應的狀態處理函式
+    const state = parseState(user.state_json);
+    if (user.state_json && !state) {
+        // 無法識別的狀態，清除它以避免卡死
+        await this.storageService.setUserState(rowNumber, null);
+    }
 
-            // 情況 2：等待使用者確認要刪除哪個事件
-            case 'waiting_delete_confirmation': {
-                const eventsToDelete = userState.events;
-                const choiceResult = await IntelligentPlanner.parseDeletionChoice(message, eventsToDelete.length);
-                let eventsDeletedCount = 0;
-                let deletedSummaries: string[] = [];
-
-                if (choiceResult.selection === 'all') {
-                    for (const event of eventsToDelete) {
-                        await this.googleCalendarService.deleteEventById(event.id);
-                        eventsDeletedCount++;
-                        deletedSummaries.push(event.summary);
-                    }
-                } else if (Array.isArray(choiceResult.selection)) {
-                    for (const index of choiceResult.selection) {
-                        if (eventsToDelete[index]) {
-                            await this.googleCalendarService.deleteEventById(eventsToDelete[index].id);
-                            eventsDeletedCount++;
-                            deletedSummaries.push(eventsToDelete[index].summary);
-                        }
-                    }
-                }
+    if (state) {
+        if (isStateExpired(state)) {
+            // 使用者離開太久，狀態已失效：清除後，把這則訊息當成全新請求處理
+            await this.storageService.setUserState(rowNumber, null);
+            notice = getExpiredNotice(state);
+        } else if (isCancelCommand(message)) {
+            await this.storageService.setUserState(rowNumber, null);
+            return '好的，已取消目前的操作。';
+        } else {
+            const handler = this.stateHandlers[state.status] as (context: StateContext, state: ConversationState, message: string) => Promise<BotReply>;
+            return handler(context, state, message);
+        }
+    }
 
-                await this.sheetService.setUserState(rowNumber, null); // 操作完成後清除狀態
+    if (isCancelCommand(message)) {
+        return notice || '目前沒有進行中的操作喔！';
+    }
 
-                if (eventsDeletedCount > 0) {
-                    return `✅ 操作完成！已成功刪除 ${eventsDeletedCount} 個行程：\n- ${deletedSummaries.join('\n- ')}`;
-                } else {
-                    return '好的，已取消刪除操作。';
-                }
-            }
+    // 要求整理的長篇文字或網頁連結，整理成知識筆記
+    const knowledgeSource = detectKnowledgeSource(message);
+    const reply = knowledgeSource
+        ? this.enqueueKnowledgeCapture(user, knowledgeSource)
+        : await this.handleNewRequest(context, message);
+    // 逾時提示獨立成一則訊息，避免被 Flex 版面蓋掉
+    return notice ? [notice, ...(Array.isArray(reply) ? reply : [reply])] : reply;
+  }
 
-            case 'waiting_plan_correction': {
-                const partialPlan = userState.partialPlan;
-                // 將不完整的計畫和使用者的補充說明，交給 AI 進行合併
-                const completeIntent = await IntelligentPlanner.mergePlanWithCorrection(partialPlan, message);
-                
-                if (completeIntent.error) {
-                    await this.sheetService.setUserState(rowNumber, null); // 合併失敗，清除狀態
-                    return "抱歉，合併您的修正時發生錯誤，請再試一次。";
-                }
+  private async dispatchPostback(calendar: GoogleCalendarService, userContext: UserContext, data: string): Promise<BotReply> {
+    const { rowNumber, user } = userContext;
+    const context: StateContext = { calendar, rowNumber, user };
+    const payload = decodePostback(data);
+    const state = parseState(user.state_json);
+
+    // 按鈕所屬的狀態已經結束或被新的狀態取代
+    if (!payload || !state || state.createdAt !== payload.stateId) {
+        return '⌛ 這個按鈕已經失效了，請重新告訴我您的需求。';
+    }
+    if (isStateExpired(state)) {
+        await this.storageService.setUserState(rowNumber, null);
+        return getExpiredNotice(state);
+    }
 
-                // 用合併後的完整計畫，再次向使用者確認
-                const newState = { status: 'waiting_confirmation', plan: completeIntent.plan };
-                await this.sheetService.setUserState(rowNumber, newState); // 更新為等待確認的狀態
-                return `太好了！這是更新後的完整計畫，您看一下是否正確？\n\n${this.formatPlanForConfirmation(completeIntent.plan, false)}`;
+    const { choice } = payload;
+    if (choice.type === 'cancel') {
+        await this.storageService.setUserState(rowNumber, null);
+        return '好的，已取消目前的操作。';
+    }
+
+    switch (state.status) {
+        case 'waiting_confirmation':
+            if (choice.type === 'confirm') {
+                return this.handlePlanConfirmation(context, state, '', choice);
             }
-            
-            case 'waiting_knowledge_action': {
-              const noteId = userState.noteId;
-              if (!noteId) {
-                  await this.sheetService.setUserState(rowNumber, null);
-                  return "抱歉，我忘記我們正在討論哪份筆記了，我們可以重新開始嗎？";
-              }
+            break;
+        case 'waiting_delete_confirmation':
+            return this.handleDeleteConfirmation(context, state, '', choice);
+        case 'waiting_update_confirmation':
+            return this.handleUpdateConfirmation(context, state, '', choice);
+        case 'waiting_reschedule_confirmation':
+            return this.handleRescheduleConfirmation(context, state, '', choice);
+        case 'waiting_flashcard_grade':
+            return this.handleFlashcardGrade(context, state, '', choice);
+        case 'waiting_quiz_answer':
+            if (choice.type === 'confirm') {
+                return this.handleQuizAnswer(context, state, '', choice);
+            }
+            break;
+        case 'waiting_objective_delete_confirmation':
+            return this.handleObjectiveDeleteConfirmation(context, state, '', choice);
+        case 'waiting_objective_choice':
+            return this.handleObjectiveChoice(context, state, '', choice);
+        case 'waiting_event_confirmation':
+            return this.handleEventConfirmation(context, state, '', choice);
+        case 'waiting_recurrence_scope':
+            return this.handleRecurrenceScope(context, state, '', choice);
+    }
+    return '⌛ 這個按鈕已經失效了，請重新告訴我您的需求。';
+  }
+
+  // --- 快速回覆按鈕 ---
+
+  private buildPlanConfirmationButtons(state: PlanConfirmationState): QuickReplyButton[] {
+    return [
+      { label: '✅ 好，排入行事曆', data: encodePostback(state, { type: 'confirm' }), displayText: '好' },
+      { label: '❌ 取消', data: encodePostback(state, { type: 'cancel' }), displayText: '取消' },
+    ];
+  }
+
+  /**
+   * 將按鈕的選擇轉成與 parseDeletionChoice 相同的格式。
+   */
+  private choiceToSelection(choice: ConfirmationChoice): ChoiceResult {
+    switch (choice.type) {
+      case 'confirm':
+      case 'all':
+        return { selection: 'all' };
+      case 'select':
+        return { selection: [choice.index] };
+      default:
+        return { selection: 'none' };
+    }
+  }
+
+  // --- 各狀態的處理函式 ---
+
+  // 情況 1：等待使用者確認計畫
+  private async handlePlanConfirmation({ calendar, rowNumber }: StateContext, state: PlanConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const plan = state.plan;
+      const messageTrimmed = message.trim();
+
+      // ✨ 新的、更嚴格的判斷邏輯 ✨
+      const pureConfirmTerms = ['好', '可以', 'ok', '沒問題', '是的', '同意', '好啊', '可以啊'];
+      const isPureConfirmation = pureConfirmTerms.includes(messageTrimmed) && messageTrimmed.length < 5;
+      
+      const negativeResponses = ['不用', '取消', '不要', '不對'];
+
+      if (choice?.type === 'confirm' || isPureConfirmation) {
+          // 使用者按下確認按鈕，或只回覆了 "好" 或 "可以" 等簡短詞語
+          await this.storageService.setUserState(rowNumber, null);
+          return this.handleCreatePlan(calendar, plan, state.dueDate);
+      } else if (negativeResponses.some(resp => messageTrimmed.toLowerCase().includes(resp))) {
+          // 使用者回覆了否定詞
+          await this.storageService.setUserState(rowNumber, null);
+          return '好的，已為您取消安排。';
+      } else {
+          // ✨ 其他所有情況，都視為修改意見 ✨
+          console.log(`[對話] 收到計畫修改要求: ${message}`);
+          const modifiedIntent = await IntelligentPlanner.modifyPlan(plan, message);
+
+          if (modifiedIntent.action === 'plan_complex_task') {
+              await this.proposeSlots(calendar, modifiedIntent.plan, state.dueDate);
+              const newState = createState('waiting_confirmation', { plan: modifiedIntent.plan, dueDate: state.dueDate });
+              await this.storageService.setUserState(rowNumber, newState);
+              return this.formatPlanForConfirmation(newState, calendar.timeZone, '好的，這是為您調整後的計畫，您覺得如何？');
+          } else {
+              await this.storageService.setUserState(rowNumber, null);
+              return modifiedIntent.params.response;
+          }
+      }
+  }
+
+  // 情況 2：等待使用者確認要刪除哪個事件
+  private async handleDeleteConfirmation(context: StateContext, state: DeleteConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const eventsToDelete = state.events;
+      // 按鈕的選擇是結構化的，不需要再請 AI 解析
+      const choiceResult = choice
+          ? this.choiceToSelection(choice)
+          : await IntelligentPlanner.parseDeletionChoice(message, eventsToDelete.length);
+
+      let selectedEvents: any[] = [];
+      if (choiceResult.selection === 'all') {
+          selectedEvents = eventsToDelete;
+      } else if (Array.isArray(choiceResult.selection)) {
+          selectedEvents = choiceResult.selection
+              .filter(index => eventsToDelete[index])
+              .map(index => eventsToDelete[index]);
+      }
+
+      await this.storageService.setUserState(context.rowNumber, null); // 操作完成後清除狀態
+
+      if (selectedEvents.length === 0) {
+          return '好的，已取消刪除操作。';
+      }
+      return this.applyEventChange(context, 'delete', selectedEvents, state.scope);
+  }
+
+  // 情況 3：等待使用者確認要修改哪個事件
+  private async handleUpdateConfirmation(context: StateContext, state: UpdateConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const candidates = state.events;
+      const changes = state.changes;
+      const choiceResult = choice
+          ? this.choiceToSelection(choice)
+          : await IntelligentPlanner.parseDeletionChoice(message, candidates.length, '修改');
+
+      let selectedEvents: any[] = [];
+      if (choiceResult.selection === 'all') {
+          selectedEvents = candidates;
+      } else if (Array.isArray(choiceResult.selection)) {
+          selectedEvents = choiceResult.selection
+              .filter(index => candidates[index])
+              .map(index => candidates[index]);
+      }
+
+      await this.storageService.setUserState(context.rowNumber, null); // 操作完成後清除狀態
+
+      if (selectedEvents.length === 0) {
+          return '好的，已取消修改操作。';
+      }
+      return this.applyEventChange(context, 'update', selectedEvents, state.scope, changes);
+  }
+
+  // 情況 12：選到的行程是週期性行程的某一次，等待使用者決定只改這一次還是整個系列
+  private async handleRecurrenceScope(context: StateContext, state: RecurrenceScopeState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      let scope: RecurrenceScope | null = null;
+      if (choice) {
+          // 'all' 是「整個系列」，'confirm' 是「只有這一次」
+          scope = choice.type === 'all' ? 'series' : choice.type === 'confirm' ? 'instance' : null;
+      } else {
+          const text = message.trim();
+          if (text === '2' || ['整個', '全部', '系列', '所有', '以後'].some(term => text.includes(term))) {
+              scope = 'series';
+          } else if (text === '1' || ['這次', '這一次', '單次', '只'].some(term => text.includes(term))) {
+              scope = 'instance';
+          }
+      }
+
+      if (!scope) {
+          return this.formatRecurrenceScopeQuestion(state, context.calendar.timeZone);
+      }
+      await this.storageService.setUserState(context.rowNumber, null);
+      return state.operation === 'delete'
+          ? this.deleteEvents(context.calendar, state.events, scope)
+          : this.updateEvents(context, state.events, state.changes || {}, scope);
+  }
+
+  // 情況 4：等待使用者補充不完整計畫的日期
+  private async handlePlanCorrection({ calendar, rowNumber }: StateContext, state: PlanCorrectionState, message: string): Promise<BotReply> {
+      const partialPlan = state.partialPlan;
+      // 將不完整的計畫和使用者的補充說明，交給 AI 進行合併
+      const completeIntent = await IntelligentPlanner.mergePlanWithCorrection(partialPlan, message, calendar.timeZone);
+      
+      if (!completeIntent) {
+          await this.storageService.setUserState(rowNumber, null); // 合併失敗，清除狀態
+          return "抱歉，合併您的修正時發生錯誤，請再試一次。";
+      }
+
+      // 用合併後的完整計畫，再次向使用者確認
+      await this.proposeSlots(calendar, completeIntent.plan, state.dueDate);
+      const newState = createState('waiting_confirmation', { plan: completeIntent.plan, dueDate: state.dueDate });
+      await this.storageService.setUserState(rowNumber, newState); // 更新為等待確認的狀態
+      return this.formatPlanForConfirmation(newState, calendar.timeZone, '太好了！這是更新後的完整計畫，您看一下是否正確？');
+  }
+
+  // 情況 5：筆記分析完成，等待使用者決定後續處理
+  private async handleKnowledgeAction({ rowNumber, user }: StateContext, state: KnowledgeActionState, message: string): Promise<BotReply> {
+      const noteId = state.noteId;
+      if (!noteId) {
+          await this.storageService.setUserState(rowNumber, null);
+          return "抱歉，我忘記我們正在討論哪份筆記了，我們可以重新開始嗎？";
+      }
+
+      // 1. 先將使用者的指令交給 AI，判斷其意圖
+      const intent = await IntelligentPlanner.understandAndPlan(message, getUserTimeZone(user));
+      console.log(`[歸檔] LLM 解析歸檔意圖:`, intent);
+
+      // 2. 檢查是否是我們新增的「歸檔」指令
+      if (intent.action === 'link_note_to_objective') {
+          return this.handleLinkNote(rowNumber, user, noteId, intent);
+      }
+      else if (intent.action === 'start_quiz') {
+          // 沒有指定學習目標時，就用剛分析完的這份筆記出題
+          return this.handleQuizRequest(rowNumber, user, intent, noteId);
+      }
+      else if (intent.action === 'open_note') {
+          // 切換到另一份筆記
+          return this.handleOpenNote(rowNumber, user, intent);
+      }
+      else if (intent.action === 'list_notes') {
+          return this.handleListNotes(rowNumber, user, intent);
+      }
+      else {
+          // 情況 B：如果不是歸檔指令，就執行之前已有的「內容生成」流程
+          const knowledgeData = await this.storageService.getKnowledgeNoteById(noteId);
+          if (!knowledgeData) {
+              await this.storageService.setUserState(rowNumber, null);
+              return "抱歉，讀取筆記資料時發生錯誤。";
+          }
+
+          const finalResult = await IntelligentPlanner.processKnowledge(knowledgeData, message);
+          await this.storageService.setUserState(rowNumber, null);
+          return finalResult;
+      }
+  }
+
+  // 情況 6：每週回顧提出了過期任務的新時段，等待使用者確認
+  private async handleRescheduleConfirmation({ calendar, rowNumber }: StateContext, state: RescheduleConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const items = state.items;
+      const choiceResult = choice
+          ? this.choiceToSelection(choice)
+          : await IntelligentPlanner.parseDeletionChoice(message, items.length, '重新安排');
+
+      let selectedItems: RescheduleItem[] = [];
+      if (choiceResult.selection === 'all') {
+          selectedItems = items;
+      } else if (Array.isArray(choiceResult.selection)) {
+          selectedItems = choiceResult.selection
+              .filter(index => items[index])
+              .map(index => items[index]);
+      }
+
+      await this.storageService.setUserState(rowNumber, null); // 操作完成後清除狀態
+
+      if (selectedItems.length === 0) {
+          return '好的，過期的任務維持原樣，需要時再告訴我。';
+      }
+
+      const { moved, failed } = await applyReschedule(calendar, this.storageService, selectedItems);
+      let response = moved.length > 0
+          ? `✅ 已為您重新安排 ${moved.length} 個任務：\n- ${moved.map(item => `${item.summary}${this.formatEventWhen({ start: { dateTime: item.start } }, calendar.timeZone)}`).join('\n- ')}`
+          : '⚠️ 沒有成功重新安排任何任務，請稍後再試。';
+      if (moved.length > 0 && failed.length > 0) {
+          response += `\n\n⚠️ 以下任務重新安排失敗：\n- ${failed.map(item => item.summary).join('\n- ')}`;
+      }
+      return response;
+  }
+
+  // 情況 7：每日卡片複習，先顯示答案，再等待使用者自我評分
+  private async handleFlashcardGrade({ rowNumber }: StateContext, state: FlashcardReviewState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      if (!state.revealed) {
+          // 使用者回覆了自己的答案，或按下「顯示答案」
+          const revealedState = createState('waiting_flashcard_grade', { cards: state.cards, current: state.current, revealed: true });
+          await this.storageService.setUserState(rowNumber, revealedState);
+          return formatCardAnswer(revealedState);
+      }
+
+      const grade = choice?.type === 'grade' ? choice.grade : parseFlashcardGrade(message);
+      if (!grade) {
+          return formatCardAnswer(state);
+      }
+
+      const schedule = await gradeFlashcard(this.storageService, state.cards[state.current], grade);
+      const next = state.current + 1;
+      if (next >= state.cards.length) {
+          await this.storageService.setUserState(rowNumber, null);
+          return `🎉 太棒了！今天的 ${state.cards.length} 張卡片都複習完了，明天見！`;
+      }
+
+      const nextState = createState('waiting_flashcard_grade', { cards: state.cards, current: next, revealed: false });
+      await this.storageService.setUserState(rowNumber, nextState);
+      const question = formatCardQuestion(nextState);
+      return schedule ? [`✅ 已記錄，這張卡片下次複習日期：${schedule.due}`, ...[question].flat()] : question;
+  }
+
+  // 情況 8：測驗進行中，等待使用者回答目前的題目
+  private async handleQuizAnswer({ rowNumber }: StateContext, state: QuizSessionState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const question = state.questions[state.current];
+      let feedback: string;
+      let score: number;
+
+      if (choice?.type === 'confirm' || isQuizSkip(message)) {
+          score = 0;
+          await recordQuizAttempt(this.storageService, question, score);
+          feedback = formatSkippedQuestion(question);
+      } else {
+          try {
+              const grade = await gradeQuizAnswer(this.storageService, question, message);
+              score = grade.score;
+              feedback = formatQuizFeedback(grade, question);
+          } catch (error) {
+              // 評分失敗時保留目前的題目，讓使用者再回答一次
+              console.error('[Quiz] 評分失敗:', error);
+              return ['😵 抱歉，我在批改您的答案時遇到了一點困難，可以請您再回答一次嗎？', ...[formatQuizQuestion(state)].flat()];
+          }
+      }
+
+      const scores = [...state.scores, score];
+      const next = state.current + 1;
+      if (next >= state.questions.length) {
+          await this.storageService.setUserState(rowNumber, null);
+          return [feedback, formatQuizSummary(scores)];
+      }
+
+      const nextState = createState('waiting_quiz_answer', { questions: state.questions, current: next, scores });
+      await this.storageService.setUserState(rowNumber, nextState);
+      return [feedback, ...[formatQuizQuestion(nextState)].flat()];
+  }
+
+  // 情況 9：等待使用者確認刪除學習目標，以及是否一併刪除目標底下的行程
+  private async handleObjectiveDeleteConfirmation({ calendar, rowNumber, user }: StateContext, state: ObjectiveDeleteConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const hasEvents = state.eventIds.length > 0;
+      let deleteEvents: boolean;
+
+      if (choice) {
+          // 'all' 是「連同行程一起刪除」，'confirm' 是「只刪除目標」
+          deleteEvents = choice.type === 'all';
+      } else {
+          const text = message.trim();
+          if (['不要', '不用', '否', '不'].includes(text)) {
+              await this.storageService.setUserState(rowNumber, null);
+              return `好的，已保留學習目標「${state.title}」。`;
+          }
+          const keepEvents = ['只', '保留', '留著'].some(term => text.includes(term));
+          const withEvents = ['行程', '全部', '都刪', '一起'].some(term => text.includes(term));
+          const isConfirm = ['是', '好', '確定', '可以', 'ok'].includes(text.toLowerCase());
+
+          if (keepEvents || (!hasEvents && isConfirm)) {
+              deleteEvents = false;
+          } else if (withEvents) {
+              deleteEvents = true;
+          } else {
+              // 無法判斷要不要刪除行程，再問一次
+              return this.formatObjectiveDeleteQuestion(state);
+          }
+      }
 
-              // 1. 先將使用者的指令交給 AI，判斷其意圖
-              const intent = await IntelligentPlanner.understandAndPlan(message);
-              console.log(`[歸檔] LLM 解析歸檔意圖:`, intent);
-
-              // 2. 檢查是否是我們新增的「歸檔」指令
-              if (intent.action === 'link_note_to_objective' && intent.params?.objectiveTitle) {
-                  const objectiveTitle = intent.params.objectiveTitle;
-                  
-                  // 3. 根據標題找到對應的學習目標
-                  const objective = await this.sheetService.findObjectiveByTitle(user.id, objectiveTitle);
-                  if (!objective) {
-                      return `🤔 找不到名為「${objectiveTitle}」的學習目標。您可以先建立它，或檢查名稱是否正確。`;
-                  }
-                  
-                  // 4. 執行歸檔操作！
-                  await this.sheetService.linkNoteToObjective(noteId, objective.objective_id);
-                  
-                  // 5. 操作完成，清除狀態並回覆使用者
-                  await this.sheetService.setUserState(rowNumber, null);
-                  return `✅ 好的，已將這份筆記歸檔到您的學習目標「${objective.title}」中！`;
-              } 
-              else {
-                  // 情況 B：如果不是歸檔指令，就執行之前已有的「內容生成」流程
-                  const knowledgeData = await this.sheetService.getKnowledgeNoteById(noteId);
-                  if (!knowledgeData) {
-                      await this.sheetService.setUserState(rowNumber, null);
-                      return "抱歉，讀取筆記資料時發生錯誤。";
-                  }
-
-                  const finalResult = await IntelligentPlanner.processKnowledge(knowledgeData, message);
-                  await this.sheetService.setUserState(rowNumber, null);
-                  return finalResult;
+      let failedCount = 0;
+      if (deleteEvents) {
+          for (const eventId of state.eventIds) {
+              try {
+                  await calendar.deleteEventById(eventId);
+              } catch (error) {
+                  failedCount++;
               }
           }
+      }
 
-            // 預設情況：如果狀態無法識別，清除它以避免卡死
-            default:
-              await this.sheetService.setUserState(rowNumber, null);
-        }
-    }
-    
+      await this.storageService.deleteObjective(state.objectiveId);
+      await this.clearObjectiveReminderSetting(rowNumber, user, state.objectiveId);
+      await this.storageService.setUserState(rowNumber, null);
+
+      let response = `🗑️ 已刪除學習目標「${state.title}」。`;
+      if (deleteEvents) {
+          response += `\n📅 已一併刪除 ${state.eventIds.length - failedCount} 個相關行程。`;
+          if (failedCount > 0) {
+              response += `\n⚠️ 有 ${failedCount} 個行程刪除失敗，請到 Google Calendar 確認。`;
+          }
+      } else if (hasEvents) {
+          response += `\n📅 相關的 ${state.eventIds.length} 個行程仍保留在您的行事曆上。`;
+      }
+      response += `\n📝 歸檔在這個目標底下的筆記都還在，只是取消了歸檔。`;
+      return response;
+  }
+
+  // 情況 10：使用者提到的學習目標有多個可能，等待使用者選擇後繼續原本的指令
+  private async handleObjectiveChoice(context: StateContext, state: ObjectiveChoiceState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const { rowNumber, user } = context;
+      let index: number | null;
+      if (choice) {
+          index = choice.type === 'select' ? choice.index : choice.type === 'confirm' ? 0 : null;
+      } else {
+          if (['否', '不是', '不對', '都不是'].includes(message.trim())) {
+              await this.storageService.setUserState(rowNumber, null);
+              return '好的，請再告訴我一次目標的完整名稱，或說「我有哪些目標？」查看所有目標。';
+          }
+          index = parseObjectiveChoice(state.candidates, message);
+      }
+
+      const candidate = index !== null ? state.candidates[index] : undefined;
+      if (!candidate) {
+          return this.formatObjectiveChoice(state);
+      }
+
+      // 先清除狀態，接下來的指令可能會設定新的狀態 (例如等待確認計畫)
+      await this.storageService.setUserState(rowNumber, null);
+      const intent = this.withObjectiveTitle(state.intent, candidate.title);
+      if (intent.action === 'link_note_to_objective' && state.noteId) {
+          return this.handleLinkNote(rowNumber, user, state.noteId, intent);
+      }
+      return this.handleIntent(context, intent);
+  }
+
+  // 情況 11：新增的行程與既有行程衝突 (或 AI 對解析沒有把握)，等待使用者決定
+  private async handleEventConfirmation(context: StateContext, state: EventConfirmationState, message: string, choice?: ConfirmationChoice): Promise<BotReply> {
+      const { calendar, rowNumber } = context;
+      const text = message.trim().toLowerCase();
+      let event: PendingEvent | null = null;
+
+      // 'confirm' 是照原本的時間新增 (兩個都保留)，'select' 是改到建議的空檔
+      if (choice?.type === 'select' || (!choice && state.suggestedSlot && ['2', '改', '建議', '換'].some(term => text.startsWith(term)))) {
+          if (state.suggestedSlot) {
+              event = { ...state.event, ...state.suggestedSlot };
+          }
+      } else if (choice?.type === 'confirm' || ['1', '是', '好', '確定', '可以', 'ok', '保留', '都保留', '兩個都保留'].includes(text)) {
+          event = state.event;
+      } else if (['否', '不要', '不用', '不對'].includes(text)) {
+          await this.storageService.setUserState(rowNumber, null);
+          return '好的，已取消新增行程。';
+      } else if (!choice) {
+          // 使用者直接說了新的時間或其他指令，當成全新的請求處理
+          await this.storageService.setUserState(rowNumber, null);
+          return this.handleNewRequest(context, message);
+      }
+
+      if (!event) {
+          return this.formatEventConfirmation(state, calendar.timeZone);
+      }
+      await this.storageService.setUserState(rowNumber, null);
+      return this.createPendingEvent(context, event);
+  }
+
+  /**
+   * 處理不在任何等待狀態中的全新請求。
+   */
+  private async handleNewRequest(context: StateContext, message: string): Promise<BotReply> {
     // --- 全新請求處理 ---
     // 如果沒有處於任何等待狀態，就執行全新規劃流程
     try {
-        const intent = await IntelligentPlanner.understandAndPlan(message);
+        const intent = await IntelligentPlanner.understandAndPlan(message, context.calendar.timeZone);
         console.log('🎯 LLM 解析意圖:', intent);
+        return await this.handleIntent(context, intent);
+    } catch (error) {
+        // 授權失效交給 runWithCalendar 處理，請使用者重新連結
+        if (GoogleAuthService.isAuthRevokedError(error)) {
+            throw error;
+        }
+        console.error('❌ 處理訊息錯誤:', error);
+        return '😅 抱歉，處理您的請求時發生錯誤，請稍後再試。';
+    }
+  }
 
-        switch (intent.action) {
-            case 'plan_complex_task': {
-                const plan = intent.plan;
-                
-                // 如果計畫與某個目標關聯，先去找到目標的 ID
-                if (intent.objectiveTitle) {
-                    const objective = await this.sheetService.findObjectiveByTitle(user.id, intent.objectiveTitle);
-                    if (objective) {
-                        // 將 objective_id 注入到每一個 plan item 中，以便後續關聯
-                        plan.forEach((item: PlanEvent) => {
-                            item.objectiveId = objective.objective_id; 
-                        });
-                    } else {
-                        return `🤔 找不到名為「${intent.objectiveTitle}」的學習目標，要先建立一個嗎？`;
-                    }
+  /**
+   * 依照解析出的意圖執行對應的操作。
+   * 使用者從多個學習目標中選好一個之後，也會帶著確定的目標標題再走一次這裡。
+   */
+  private async handleIntent({ calendar, rowNumber, user }: StateContext, intent: UserIntent): Promise<BotReply> {
+    switch (intent.action) {
+        case 'plan_complex_task': {
+            const plan = intent.plan;
+            let dueDate: string | null = null;
+            
+            // 如果計畫與某個目標關聯，先去找到目標的 ID
+            if (intent.objectiveTitle) {
+                const resolved = await this.resolveObjective(rowNumber, user, intent.objectiveTitle, intent);
+                if ('objective' in resolved) {
+                    const objective = resolved.objective;
+                    // 將 objective_id 注入到每一個 plan item 中，以便後續關聯
+                    plan.forEach((item: PlanEvent) => {
+                        item.objectiveId = objective.objective_id; 
+                    });
+                    dueDate = objective.due_date;
+                } else {
+                    return resolved.reply;
                 }
-
-                const newState = { status: 'waiting_confirmation', plan: plan };
-                await this.sheetService.setUserState(rowNumber, newState);
-                return this.formatPlanForConfirmation(plan);
             }
 
-            case 'list_events':
-                return await this.handleListEvents(intent);
+            await this.proposeSlots(calendar, plan, dueDate);
+            const newState = createState('waiting_confirmation', { plan: plan, dueDate: dueDate });
+            await this.storageService.setUserState(rowNumber, newState);
+            return this.formatPlanForConfirmation(newState, calendar.timeZone);
+        }
 
-            case 'create_event':
-                return await this.handleCreateEvent(intent);
+        case 'list_events':
+            return await this.handleListEvents(calendar, rowNumber, user, intent);
 
-            case 'clarify_or_reject':
-                return intent.params.response;
+        case 'create_event':
+            return await this.handleCreateEvent({ calendar, rowNumber, user }, intent);
 
-            case 'delete_event':
-                return await this.handleDeleteRequest(rowNumber, intent);
+        case 'clarify_or_reject':
+            return intent.params.response;
 
-            case 'create_learning_objective': {
-                const { title, dueDate } = intent.params;
-                if (!title) {
-                    return "🤔 請告訴我您的學習目標是什麼喔！";
-                }
-                const newObjective = await this.sheetService.createLearningObjective(user.id, title, dueDate || null);
-                let response = `✅ 已為您建立新的學習目標：\n\n🎯 ${newObjective.title}`;
-                if (newObjective.due_date) {
-                    response += `\n- 截止日期: ${newObjective.due_date}`;
-                }
-                response += `\n\n接下來，您可以說：「幫我規劃『${newObjective.title}』」，來為這個目標安排具體行程。`;
-                return response;
-            }
-            case 'plan_for_objective': {
-                const { objectiveTitle } = intent.params;
-                const objective = await this.sheetService.findObjectiveByTitle(user.id, objectiveTitle);
+        case 'delete_event':
+            return await this.handleDeleteRequest(calendar, rowNumber, intent);
 
-                if (!objective) {
-                    return `🤔 找不到名為「${objectiveTitle}」的學習目標，要先建立一個嗎？`;
-                }
+        case 'update_event':
+            return await this.handleUpdateRequest(calendar, rowNumber, intent);
+
+        case 'set_reminder':
+            return await this.handleReminderSettings(rowNumber, user, intent);
+
+        case 'set_timezone':
+            return await this.handleTimeZoneSettings(calendar, rowNumber, user, intent);
+
+        case 'start_quiz':
+            return await this.handleQuizRequest(rowNumber, user, intent);
 
-                // ✨ AI 現在只負責識別意圖，由另一個 AI call 負責生成計畫 ✨
-                // 這一步讓職責更分離，效果更好
-                const planIntent = await IntelligentPlanner.generatePlanForObjective(objective.title);
-                
-                // 將 objective_id 注入到每一個 plan item 中
-                planIntent.plan.forEach((item: PlanEvent) => {
-                    item.objectiveId = objective.objective_id; 
-                });
-
-                const newState = { status: 'waiting_confirmation', plan: planIntent.plan };
-                await this.sheetService.setUserState(rowNumber, newState);
-                return this.formatPlanForConfirmation(planIntent.plan);
+        case 'list_objectives':
+            return await this.handleListObjectives(calendar, user);
+
+        case 'update_objective':
+            return await this.handleUpdateObjective(rowNumber, user, intent);
+
+        case 'delete_objective':
+            return await this.handleDeleteObjectiveRequest(calendar, rowNumber, user, intent);
+
+        case 'list_notes':
+            return await this.handleListNotes(rowNumber, user, intent);
+
+        case 'open_note':
+            return await this.handleOpenNote(rowNumber, user, intent);
+
+        case 'create_learning_objective': {
+            const { title, dueDate } = intent.params;
+            if (!title) {
+                return "🤔 請告訴我您的學習目標是什麼喔！";
+            }
+            const newObjective = await this.storageService.createLearningObjective(user.id, title, dueDate || null);
+            let response = `✅ 已為您建立新的學習目標：\n\n🎯 ${newObjective.title}`;
+            if (newObjective.due_date) {
+                response += `\n- 截止日期: ${newObjective.due_date}`;
+            }
+            response += `\n\n接下來，您可以說：「幫我規劃『${newObjective.title}』」，來為這個目標安排具體行程。`;
+            return response;
+        }
+        case 'plan_for_objective': {
+            const resolved = await this.resolveObjective(rowNumber, user, intent.params.objectiveTitle, intent);
+            if (!('objective' in resolved)) {
+                return resolved.reply;
             }
+            const objective = resolved.objective;
 
-            // ✨ plan_complex_task 現在更名為 plan_generic_task ✨
-            case 'plan_generic_task': {
-                const plan = intent.plan;
-                const newState = { status: 'waiting_confirmation', plan: plan };
-                await this.sheetService.setUserState(rowNumber, newState);
-                return this.formatPlanForConfirmation(plan);
+            // ✨ AI 現在只負責識別意圖，由另一個 AI call 負責生成計畫 ✨
+            // 這一步讓職責更分離，效果更好
+            const planIntent = await IntelligentPlanner.generatePlanForObjective(objective.title);
+            if (planIntent.action === 'clarify_or_reject') {
+                return planIntent.params.response;
             }
-            
-            default:
-                return '🤔 抱歉，我不太理解您的需求。您可以試試：「幫我規劃下週的讀書計畫」。';
+
+            // 將 objective_id 注入到每一個 plan item 中
+            planIntent.plan.forEach((item: PlanEvent) => {
+                item.objectiveId = objective.objective_id; 
+            });
+
+            await this.proposeSlots(calendar, planIntent.plan, objective.due_date);
+            const newState = createState('waiting_confirmation', { plan: planIntent.plan, dueDate: objective.due_date });
+            await this.storageService.setUserState(rowNumber, newState);
+            return this.formatPlanForConfirmation(newState, calendar.timeZone);
         }
-    } catch (error) {
-        console.error('❌ 處理訊息錯誤:', error);
-        return '😅 抱歉，處理您的請求時發生錯誤，請稍後再試。';
+
+        // ✨ plan_complex_task 現在更名為 plan_generic_task ✨
+        case 'plan_generic_task': {
+            const plan = intent.plan;
+            await this.proposeSlots(calendar, plan);
+            const newState = createState('waiting_confirmation', { plan: plan });
+            await this.storageService.setUserState(rowNumber, newState);
+            return this.formatPlanForConfirmation(newState, calendar.timeZone);
+        }
+        
+        default:
+            return '🤔 抱歉，我不太理解您的需求。您可以試試：「幫我規劃下週的讀書計畫」。';
     }
   }
 
   /**
-   * 將 AI 規劃好的行程表，格式化成易於閱讀的文字，並詢問使用者是否同意。
-   * (此方法無需修改)
+   * 為計畫中尚未指定日期/時間的項目，查詢行事曆的空檔並填入建議的 startTime。
+   * 找不到空檔的項目會維持原樣，建立時再使用預設排程。
+   * @param dueDate 學習目標的截止日期，有提供時會把項目分散到截止日前
    */
-  private formatPlanForConfirmation(plan: PlanEvent[], showGreeting: boolean = true): string {
-      let response = "";
-      if (showGreeting) {
-          response += "這是為您建議的計畫草案，您覺得如何？\n\n";
-      }
+  private async proposeSlots(calendar: GoogleCalendarService, plan: PlanEvent[], dueDate?: string | null): Promise<void> {
+    const undatedItems = plan.filter(item => !item.date && !item.startTime);
+    if (undatedItems.length === 0) {
+      return;
+    }
 
-      plan.forEach((item, index) => {
-          response += `🗓️ **階段 ${index + 1}: ${item.summary}**\n`;
-          // ✨ 智慧顯示日期和時間 ✨
-          if (item.date) {
-              const displayDate = new Date(item.date + 'T00:00:00');
-              response += `   - **日期:** ${displayDate.toLocaleDateString('zh-TW')}\n`;
-          }
-          if (item.startTime) {
-              const displayTime = new Date(item.startTime);
-              response += `   - **時間:** ${displayTime.toLocaleString('zh-TW')}\n`;
-          }
-          // ✨ 智慧顯示時長 ✨
-          if (item.duration_hours) {
-              response += `   - **時長:** 約 ${item.duration_hours} 小時\n`;
-          }
-          response += "\n";
+    try {
+      const slots = await calendar.findSlotsForPlan(undatedItems.map(item => item.duration_hours || 1), dueDate);
+      undatedItems.forEach((item, index) => {
+        const slot = slots[index];
+        if (slot) {
+          item.startTime = slot.start.toISOString();
+        }
       });
-      response += "如果您同意這個規劃，請回覆「好」，我就會將它排入您的行事曆！(或提出您的修改意見)";
-      return response;
+    } catch (error) {
+      console.error('尋找行事曆空檔失敗，將使用預設排程:', error);
+    }
+  }
+
+  /**
+   * 將等待確認的計畫，格式化成易於閱讀的文字與 Flex 卡片，附上確認/取消按鈕並詢問使用者是否同意。
+   * @param intro 放在計畫前面的開場白
+   */
+  private formatPlanForConfirmation(state: PlanConfirmationState, timeZone: string, intro: string = "這是為您建議的計畫草案，您覺得如何？"): BotReply {
+      const plan = state.plan;
+      const outro = "如果您同意這個規劃，請回覆「好」，我就會將它排入您的行事曆！(或提出您的修改意見)";
+      const reply = toReply(formatPlanForLine(plan, intro, outro, timeZone), buildPlanFlex(plan, intro, outro, timeZone));
+      return withQuickReplies(reply, this.buildPlanConfirmationButtons(state));
   }
 
   /**
  * 執行「建立整個計畫」的動作。
  * ✨ 新版本：能夠智慧地處理帶有具體日期的事件。
  * @param plan 一個包含 PlanEvent 物件的陣列
+ * @param dueDate 學習目標的截止日期，沒有結束日期的週期性行程會重複到這一天為止
  */
-  private async handleCreatePlan(plan: PlanEvent[]): Promise<string> {
+  private async handleCreatePlan(calendar: GoogleCalendarService, plan: PlanEvent[], dueDate?: string | null): Promise<string> {
       let createdCount = 0;
-      let nextAvailableDate = new Date();
-      nextAvailableDate.setDate(nextAvailableDate.getDate() + 1); // 從明天開始
-      nextAvailableDate.setHours(9, 0, 0, 0); // 預設早上 9 點
+      const timeZone = calendar.timeZone;
+      // 日期都以使用者時區的 'YYYY-MM-DD' 計算，不受伺服器時區影響
+      let nextAvailableDay = addDaysToDateString(toZonedDateString(new Date(), timeZone), 1); // 從明天開始
 
       for (const item of plan) {
           let eventStart: Date;
 
           if (item.date) {
-              // 情況 A：計畫帶有具體日期（來自圖片分析）
-              eventStart = new Date(item.date + 'T09:00:00'); // 使用計畫的日期
+              // 情況 A：計畫帶有具體日期（來自圖片分析），預設早上 9 點
+              eventStart = zonedTimeToDate(item.date, 9, 0, timeZone);
           } else if (item.startTime) {
               // 情況 B：計畫帶有具體時間
               eventStart = new Date(item.startTime);
           } else {
               // 情況 C：計畫無任何日期資訊（來自純文字），使用我們的計數器
-              while (nextAvailableDate.getDay() === 0 || nextAvailableDate.getDay() === 6) {
-                  nextAvailableDate.setDate(nextAvailableDate.getDate() + 1); // 跳過週末
+              while (getWeekdayOfDateString(nextAvailableDay) === 0 || getWeekdayOfDateString(nextAvailableDay) === 6) {
+                  nextAvailableDay = addDaysToDateString(nextAvailableDay, 1); // 跳過週末
               }
-              eventStart = new Date(nextAvailableDate);
+              eventStart = zonedTimeToDate(nextAvailableDay, 9, 0, timeZone); // 預設早上 9 點
               // 為下一個無日期事件，準備好後一天的日期
-              nextAvailableDate.setDate(nextAvailableDate.getDate() + 1);
+              nextAvailableDay = addDaysToDateString(nextAvailableDay, 1);
           }
           
           const eventEnd = new Date(eventStart.getTime() + (item.duration_hours || 1) * 60 * 60 * 1000);
 
+          const recurrence = item.recurrence && !item.recurrence.until && !item.recurrence.count && dueDate
+              ? { ...item.recurrence, until: dueDate }
+              : item.recurrence;
           const eventData = {
               summary: item.summary,
-              start: { dateTime: eventStart.toISOString(), timeZone: 'Asia/Taipei' },
-              end: { dateTime: eventEnd.toISOString(), timeZone: 'Asia/Taipei' },
+              ...buildEventDetailFields(item),
+              start: { dateTime: eventStart.toISOString(), timeZone },
+              end: { dateTime: eventEnd.toISOString(), timeZone },
+              ...(recurrence ? { recurrence: [buildRRule(recurrence, timeZone)] } : {}),
           };
 
           try {
-            const createdEvent = await this.googleCalendarService.createEvent(eventData);
+            const createdEvent = await calendar.createEvent(eventData);
             createdCount++;
             if (item.objectiveId) { 
-                await this.sheetService.linkEventToObjective(item.objectiveId, createdEvent.id);
+                await this.storageService.linkEventToObjective(item.objectiveId, createdEvent.id);
             }  
           } catch (error) {
               console.error(`無法建立事件: "${item.summary}"`, error);
@@ -367,42 +961,143 @@ export class CalendarHandler {
 
   /**
    * 處理查詢事件的請求。
-   * (此方法無需修改)
+   * 可以用固定範圍 (今天、這週...) 或起訖日期查詢，再依關鍵字、學習目標或全天/有時間的行程篩選；
+   * 只指定學習目標而沒有日期時，列出該目標底下的所有行程。
    */
-  private async handleListEvents(intent: any): Promise<string> {
-    try {
-      const timeRange = intent.params?.timeRange || 'today';
-      const events = await this.googleCalendarService.listEvents(timeRange);
-      return formatEventsForLine(events);
-    } catch (error) {
-      console.error('查詢事件失敗:', error);
-      return '📅 抱歉，查詢日曆事件時發生錯誤，請確認您的 Google 連接正常。';
+  private async handleListEvents(calendar: GoogleCalendarService, rowNumber: number, user: User, intent: IntentOf<'list_events'>): Promise<BotReply> {
+    const { timeRange, startDate, endDate, keyword, objectiveTitle, eventType } = intent.params;
+    const lastDate = endDate || startDate;
+    if (startDate && lastDate && lastDate < startDate) {
+      return `🤔 結束日期 (${formatDateString(lastDate)}) 比開始日期 (${formatDateString(startDate)}) 還早，請再確認一次要查詢的日期。`;
+    }
+    if (startDate && lastDate && countDaysInRange(startDate, lastDate) > getAgendaMaxRangeDays()) {
+      return `🤔 一次最多只能查詢 ${getAgendaMaxRangeDays()} 天內的行程，請縮小查詢的範圍。`;
     }
-  }
 
-  /**
-   * 處理建立單一事件的請求。
-   * (此方法無需修改)
+    let eventIds: string[] | undefined;
+    let objectiveDueDate: string | null = null;
+    if (objectiveTitle) {
+      const resolved = await this.resolveObjective(rowNumber, user, objectiveTitle, intent);
+      if (!('objective' in resolved)) {
+        return resolved.reply;
+      }
+      eventIds = resolved.objective.gcal_event_ids ? resolved.objective.gcal_event_ids.split(',').filter(id => id) : [];
+      objectiveDueDate = resolved.objective.due_date;
+    }
+
+    try {
+      let events: any[];
+      if (startDate && lastDate) {
+        const { start, end } = getDateRangeBounds(startDate, lastDate, calendar.timeZone);
+        events = await calendar.listEventsBetween(start, end);
+      } else if (eventIds && !timeRange) {
+        const startOf = (event: any) => new Date(event.start.dateTime || event.start.date).getTime();
+        const horizon = getOccurrenceHorizon(objectiveDueDate, calendar.timeZone);
+        events = (await calendar.expandRecurringEvents(await calendar.getEventsByIds(eventIds), horizon)).sort((a, b) => startOf(a) - startOf(b));
+      } else {
+        events = await calendar.listEvents(timeRange || 'today');
+      }
+
+      const filter = { keyword, eventIds, eventType };
+      const matched = filterEvents(events, filter);
+      if (matched.length === 0 && hasAgendaFilter(filter)) {
+        return '🔍 這段時間內沒有符合條件的行程。';
+      }
+
+      const shown = matched.slice(0, AGENDA_LIST_LIMIT);
+      let text = formatEventsForLine(shown, calendar.timeZone);
+      if (matched.length > shown.length) {
+        text += `\n\n…還有 ${matched.length - shown.length} 個行程沒有列出，請縮小查詢的範圍。`;
+      }
+      return toReply(text, buildAgendaFlex(shown, calendar.timeZone));
+    } catch (error) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
+      console.error('查詢事件失敗:', error);
+      return '📅 抱歉，查詢日曆事件時發生錯誤，請確認您的 Google 連接正常。';
+    }
+  }
+
+  /**
+   * 處理建立單一事件的請求。
+   * 先檢查這段時間是否已經有其他行程：有衝突，或 AI 對解析結果沒有把握時，先請使用者確認，
+   * 否則直接新增。
    */
-  private async handleCreateEvent(intent: any): Promise<string> {
+  private async handleCreateEvent(context: StateContext, intent: IntentOf<'create_event'>): Promise<BotReply> {
+    const { calendar, rowNumber } = context;
+    const params = intent.params;
+    const start = new Date(params.startTime);
+    const end = params.endTime ? new Date(params.endTime) : new Date(start.getTime() + 60 * 60 * 1000);
+    if (end <= start) {
+      return '🤔 行程的結束時間比開始時間還早，請再告訴我一次正確的時間。';
+    }
+    const event: PendingEvent = {
+      summary: params.summary,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      location: params.location,
+      description: params.description,
+      attendees: params.attendees,
+      reminderMinutes: params.reminderMinutes,
+      recurrence: params.recurrence,
+    };
+
+    // 週期性行程只檢查第一次是否與既有行程衝突
+    let conflicts: EventConflict[] = [];
     try {
-      const params = intent.params;
-      if (!params || !params.summary || !params.startTime) {
-        return '📝 抱歉，我需要明確的「事件標題」和「開始時間」才能為您新增行程喔！';
+      conflicts = findConflicts(await calendar.listEventsBetween(start, end), event);
+    } catch (error) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
+      // 查不到既有行程時不阻擋新增，只是無法提醒衝突
+      console.error('檢查行程衝突失敗:', error);
+    }
+
+    const lowConfidence = isLowConfidence(params.confidence);
+    if (conflicts.length === 0 && !lowConfidence) {
+      return this.createPendingEvent(context, event);
+    }
+
+    let suggestedSlot: EventConfirmationState['suggestedSlot'] = null;
+    if (conflicts.length > 0) {
+      try {
+        const slot = await calendar.findNextFreeSlot(start, (end.getTime() - start.getTime()) / (60 * 60 * 1000), SUGGESTION_HORIZON_DAYS);
+        suggestedSlot = slot ? { start: slot.start.toISOString(), end: slot.end.toISOString() } : null;
+      } catch (error) {
+        console.error('尋找替代時段失敗:', error);
       }
+    }
+
+    const newState = createState('waiting_event_confirmation', { event, conflicts, suggestedSlot });
+    await this.storageService.setUserState(rowNumber, newState);
+    return this.formatEventConfirmation(newState, calendar.timeZone);
+  }
+
+  /**
+   * 將單一行程寫入行事曆。
+   */
+  private async createPendingEvent({ calendar, rowNumber, user }: StateContext, event: PendingEvent): Promise<string> {
+    try {
       const eventData = {
-        summary: params.summary,
+        summary: event.summary,
+        ...buildEventDetailFields(event),
         start: {
-          dateTime: params.startTime,
-          timeZone: 'Asia/Taipei',
+          dateTime: event.start,
+          timeZone: calendar.timeZone,
         },
         end: {
-          dateTime: params.endTime || new Date(new Date(params.startTime).getTime() + 60 * 60 * 1000).toISOString(),
-          timeZone: 'Asia/Taipei',
+          dateTime: event.end,
+          timeZone: calendar.timeZone,
         },
+        ...(event.recurrence ? { recurrence: [buildRRule(event.recurrence, calendar.timeZone)] } : {}),
       };
-      const createdEvent = await this.googleCalendarService.createEvent(eventData);
-      return `✅ 行程新增成功！\n\n📅 ${createdEvent.summary}\n🕐 ${new Date(createdEvent.start.dateTime).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' })}`;
+      const createdEvent = await calendar.createEvent(eventData);
+      await this.rememberRecentEvent(rowNumber, user, createdEvent);
+      const repeat = event.recurrence ? `\n🔁 ${describeRecurrence(event.recurrence)}` : '';
+      const details = this.formatDetailLines(getEventDetails(createdEvent));
+      return `✅ 行程新增成功！\n\n📅 ${createdEvent.summary}\n🕐 ${formatDateTime(createdEvent.start.dateTime, calendar.timeZone)}${repeat}${details}`;
     } catch (error) {
       console.error('創建單一事件失敗:', error);
       return '📅 抱歉，新增行程時發生錯誤，請檢查您的時間格式是否正確。';
@@ -410,15 +1105,44 @@ export class CalendarHandler {
   }
 
   /**
-   * 處理刪除事件的請求，現在接收 rowNumber 以設定狀態。
+   * 詢問使用者要如何處理新增的行程：有衝突時列出重疊的行程與建議的空檔，否則只請使用者確認時間。
    */
-  private async handleDeleteRequest(rowNumber: number, intent: any): Promise<string> {
-    const query = intent.params?.query;
-    if (!query) {
-      return '🤔 請告訴我要刪除哪個行程呢？例如：「刪除明天的會議」。';
+  private formatEventConfirmation(state: EventConfirmationState, timeZone: string): BotReply {
+    const when = (interval: { start: string; end: string }) => formatTimeRange(interval.start, interval.end, timeZone);
+    const repeat = state.event.recurrence ? `\n🔁 ${describeRecurrence(state.event.recurrence)}` : '';
+    const details = this.formatDetailLines(state.event);
+    const cancelButton: QuickReplyButton = { label: '❌ 取消', data: encodePostback(state, { type: 'cancel' }), displayText: '取消' };
+
+    if (state.conflicts.length === 0) {
+      const text = `🤔 我想確認一下，您是要新增這個行程嗎？\n\n📅 ${state.event.summary}\n🕐 ${when(state.event)}${repeat}${details}\n\n(請回覆'是'或'否'，時間不對的話也可以直接告訴我正確的時間)`;
+      return withQuickReplies(text, [
+        { label: '✅ 新增', data: encodePostback(state, { type: 'confirm' }), displayText: '是' },
+        cancelButton,
+      ]);
+    }
+
+    let text = `⚠️ 新增的行程和行事曆上的行程時間重疊：\n\n📅 ${state.event.summary}\n🕐 ${when(state.event)}${repeat}${details}\n\n重疊的行程：\n`;
+    text += state.conflicts.map(conflict => `- ${conflict.summary} (${when(conflict)})`).join('\n');
+    text += `\n\n您想要怎麼做？\n1️⃣ 兩個都保留，照原本的時間新增`;
+    if (state.suggestedSlot) {
+      text += `\n2️⃣ 改到空檔：${when(state.suggestedSlot)}`;
+    }
+    text += `\n或回覆「取消」`;
+
+    const buttons: QuickReplyButton[] = [{ label: '✅ 兩個都保留', data: encodePostback(state, { type: 'confirm' }), displayText: '兩個都保留' }];
+    if (state.suggestedSlot) {
+      buttons.push({ label: '🕐 改到建議的空檔', data: encodePostback(state, { type: 'select', index: 0 }), displayText: '改到建議的空檔' });
     }
+    return withQuickReplies(text, [...buttons, cancelButton]);
+  }
+
+  /**
+   * 處理刪除事件的請求，現在接收 rowNumber 以設定狀態。
+   */
+  private async handleDeleteRequest(calendar: GoogleCalendarService, rowNumber: number, intent: IntentOf<'delete_event'>): Promise<BotReply> {
+    const { query, occurrenceDate, scope } = intent.params;
 
-    const foundEvents = await this.googleCalendarService.searchEvents(query);
+    const foundEvents = await this.findEventsForChange(calendar, query, occurrenceDate);
 
     if (!foundEvents || foundEvents.length === 0) {
       return `🔍 找不到與「${query}」相關的行程。`;
@@ -426,123 +1150,829 @@ export class CalendarHandler {
 
     let response: string;
     // 統一將要設定的狀態儲存在 newState 變數中
-    const newState = { status: 'waiting_delete_confirmation', events: foundEvents };
+    const newState = createState('waiting_delete_confirmation', { events: foundEvents, scope });
 
     if (foundEvents.length === 1) {
       const event = foundEvents[0];
-      response = `我只找到一個行程符合條件：\n\n📅 ${event.summary}\n🕐 ${new Date(event.start.dateTime).toLocaleString('zh-TW')}\n\n確定要刪除它嗎？(請回覆'是'或'否')`;
+      response = `我只找到一個行程符合條件：\n\n📅 ${event.summary}${this.formatEventWhen(event, calendar.timeZone)}${this.formatDetailLines(getEventDetails(event))}\n\n確定要刪除它嗎？(請回覆'是'或'否')`;
     } else {
       let list = `好的，我找到了 ${foundEvents.length} 個符合條件的行程：\n\n`;
       foundEvents.forEach((event, index) => {
-        const time = new Date(event.start.dateTime || event.start.date).toLocaleString('zh-TW');
-        list += `${index + 1}. ${event.summary} (${time})\n`;
+        list += `${index + 1}. ${event.summary}${this.formatEventWhen(event, calendar.timeZone)}\n`;
       });
       list += "\n請問您想要刪除哪一個？ (可以回覆數字，例如 '1, 3'、'全部' 或 '取消')";
       response = list;
     }
 
     // 最後統一設定狀態
-    await this.sheetService.setUserState(rowNumber, newState);
-    return response;
+    await this.storageService.setUserState(rowNumber, newState);
+    return withQuickReplies(response, buildChoiceButtons(newState, foundEvents.map(event => event.summary), '刪除'));
   }
 
-/**
- * 處理來自 LINE 的圖片訊息，現在會建立對話狀態，並能處理不完整的計畫。
- * @param userContext 包含使用者在 Google Sheet 中的列號和資料的物件
- * @param imageBuffer 使用者上傳圖片的 Buffer 資料
- */
-  async handleImage(userContext: { rowNumber: number; user: User }, imageBuffer: Buffer): Promise<string> {
-    // 异步执行核心的耗时逻辑，但我们不等待它 (no await)
-    this.processImageInBackground(userContext, imageBuffer);
-    
-    // 立即回覆，消耗掉 replyToken，避免超时
-    return '👌 已收到您的圖片，正在請 AI 大腦進行分析，請稍候...';
+  /**
+   * 處理修改/改期事件的請求，流程與刪除相同：搜尋 → 選擇 → 確認。
+   */
+  private async handleUpdateRequest(calendar: GoogleCalendarService, rowNumber: number, intent: IntentOf<'update_event'>): Promise<BotReply> {
+    const { query, changes, occurrenceDate, scope } = intent.params;
+    if (Object.keys(changes).length === 0) {
+      return `🤔 請告訴我要把「${query}」改成什麼呢？例如新的時間、標題或地點。`;
+    }
+
+    const foundEvents = await this.findEventsForChange(calendar, query, occurrenceDate);
+
+    if (!foundEvents || foundEvents.length === 0) {
+      return `🔍 找不到與「${query}」相關的行程。`;
+    }
+
+    let response: string;
+    const newState = createState('waiting_update_confirmation', { events: foundEvents, changes: changes, scope });
+    const changeText = this.formatEventChanges(changes, calendar.timeZone);
+
+    if (foundEvents.length === 1) {
+      const event = foundEvents[0];
+      response = `我只找到一個行程符合條件：\n\n📅 ${event.summary}${this.formatEventWhen(event, calendar.timeZone)}${this.formatDetailLines(getEventDetails(event))}\n\n將會修改為：\n${changeText}\n\n確定要修改嗎？(請回覆'是'或'否')`;
+    } else {
+      let list = `好的，我找到了 ${foundEvents.length} 個符合條件的行程：\n\n`;
+      foundEvents.forEach((event, index) => {
+        list += `${index + 1}. ${event.summary}${this.formatEventWhen(event, calendar.timeZone)}\n`;
+      });
+      list += `\n將會修改為：\n${changeText}\n\n請問您想要修改哪一個？ (可以回覆數字，例如 '1' 或 '取消')`;
+      response = list;
+    }
+
+    await this.storageService.setUserState(rowNumber, newState);
+    return withQuickReplies(response, buildChoiceButtons(newState, foundEvents.map(event => event.summary), '修改'));
   }
 
   /**
-   * ✨ 新增的背景处理函式，包含了所有耗时的操作
+   * 找出要修改或刪除的行程。
+   * 有指定日期時只找那一天的行程 (用來指定週期性行程的某一次)，否則用關鍵字搜尋，同一個系列只列出一次。
    */
-  private async processImageInBackground(userContext: { rowNumber: number; user: User }, imageBuffer: Buffer): Promise<void> {
-    const { user } = userContext;
-    try {
-        // 1. (耗时) AI 分析
-        const intent = await IntelligentPlanner.analyzeImageAndPlan(imageBuffer);
-        console.log('🎨 (Background) LLM 圖像初步解析:', intent);
-        
-        // 2. (耗时) 根据意图准备回覆内容
-        const pushMessageText = await this.preparePushMessageFromIntent(userContext, intent);
+  private async findEventsForChange(calendar: GoogleCalendarService, query: string, occurrenceDate?: string): Promise<any[]> {
+    if (occurrenceDate) {
+      const { start, end } = getDateRangeBounds(occurrenceDate, occurrenceDate, calendar.timeZone);
+      return filterEvents(await calendar.listEventsBetween(start, end), { keyword: query });
+    }
+    return collapseRecurringInstances(await calendar.searchEvents(query));
+  }
 
-        // 3. (关键) 使用 pushMessage 主动推送最终结果
-        if (this.lineHandler && pushMessageText) {
-            await this.lineHandler.pushMessage(user.line_user_id, pushMessageText);
+  /**
+   * 刪除或修改使用者選好的行程。
+   * 選到週期性行程的某一次、而使用者還沒說明範圍時，先詢問只改這一次還是整個系列。
+   */
+  private async applyEventChange({ calendar, rowNumber, user }: StateContext, operation: 'delete' | 'update', events: any[], scope?: RecurrenceScope, changes?: EventChanges): Promise<BotReply> {
+    if (!scope && events.some(event => event.recurringEventId)) {
+      const newState = createState('waiting_recurrence_scope', { operation, events, changes });
+      await this.storageService.setUserState(rowNumber, newState);
+      return this.formatRecurrenceScopeQuestion(newState, calendar.timeZone);
+    }
+    return operation === 'delete'
+      ? this.deleteEvents(calendar, events, scope || 'instance')
+      : this.updateEvents({ calendar, rowNumber, user }, events, changes || {}, scope || 'instance');
+  }
+
+  private async deleteEvents(calendar: GoogleCalendarService, events: any[], scope: RecurrenceScope): Promise<string> {
+    // 刪除整個系列時，同一個系列選到的多次發生只需要刪除一次
+    const targets = new Map<string, any>();
+    for (const event of events) {
+      const targetId = scope === 'series' && event.recurringEventId ? event.recurringEventId : event.id;
+      if (!targets.has(targetId)) {
+        targets.set(targetId, event);
+      }
+    }
+
+    const deletedSummaries: string[] = [];
+    const failedSummaries: string[] = [];
+    for (const [targetId, event] of targets) {
+      const label = targetId === event.id ? event.summary : `${event.summary} (整個系列)`;
+      try {
+        await calendar.deleteEventById(targetId);
+        deletedSummaries.push(label);
+      } catch (error) {
+        // 一個行程失敗不影響其他行程，最後一起告訴使用者哪些沒有完成
+        failedSummaries.push(this.describeEventFailure(label, error));
+      }
+    }
+    return this.formatEventChangeResult('刪除', deletedSummaries, failedSummaries);
+  }
+
+  private async updateEvents({ calendar, rowNumber, user }: StateContext, events: any[], changes: EventChanges, scope: RecurrenceScope): Promise<string> {
+    const updatedSummaries: string[] = [];
+    const failedSummaries: string[] = [];
+    const updatedSeries = new Set<string>();
+    let lastUpdated: any = null;
+    for (const event of events) {
+      const isSeries = scope === 'series' && event.recurringEventId;
+      if (isSeries && updatedSeries.has(event.recurringEventId)) {
+        continue;
+      }
+      const label = isSeries ? `${event.summary} (整個系列)` : event.summary;
+      try {
+        let updatedEvent: any;
+        if (isSeries) {
+          updatedSeries.add(event.recurringEventId);
+          const [series] = await calendar.getEventsByIds([event.recurringEventId]);
+          if (!series) {
+            failedSummaries.push(`${label}：已經不存在`);
+            continue;
+          }
+          // 針對這一次的時間修改，換算成整個系列的修改
+          const patch = this.buildEventPatch(series, shiftChangesToSeries(changes, event, series), calendar.timeZone);
+          updatedEvent = await calendar.patchEvent(series.id, patch);
+          updatedSummaries.push(`${updatedEvent.summary} (整個系列)${this.formatEventWhen(updatedEvent, calendar.timeZone)}`);
+        } else {
+          updatedEvent = await calendar.patchEvent(event.id, this.buildEventPatch(event, changes, calendar.timeZone));
+          updatedSummaries.push(`${updatedEvent.summary}${this.formatEventWhen(updatedEvent, calendar.timeZone)}`);
         }
+        lastUpdated = updatedEvent;
+      } catch (error) {
+        failedSummaries.push(this.describeEventFailure(label, error));
+      }
+    }
+    if (lastUpdated) {
+      await this.rememberRecentEvent(rowNumber, user, lastUpdated);
+    }
+    return this.formatEventChangeResult('修改', updatedSummaries, failedSummaries);
+  }
 
+  /**
+   * 單一行程操作失敗時的說明。授權失效時直接拋出，讓使用者重新連結帳號。
+   */
+  private describeEventFailure(label: string, error: any): string {
+    if (GoogleAuthService.isAuthRevokedError(error)) {
+      throw error;
+    }
+    console.error(`[GCAL] 處理行程「${label}」失敗:`, error);
+    if (error?.code === 404 || error?.code === 410) {
+      return `${label}：已經不存在`;
+    }
+    if (error?.code === 429 || error?.code === 403) {
+      return `${label}：Google Calendar 暫時忙碌，請稍後再試`;
+    }
+    return label;
+  }
+
+  /**
+   * 批次刪除或修改的結果：列出成功的行程，有失敗時另外列出沒有完成的行程。
+   * @param actionLabel 執行的動作，例如 '刪除'
+   */
+  private formatEventChangeResult(actionLabel: string, succeeded: string[], failed: string[]): string {
+    if (failed.length === 0) {
+      return `✅ 操作完成！已成功${actionLabel} ${succeeded.length} 個行程：\n- ${succeeded.join('\n- ')}`;
+    }
+    const failedText = `⚠️ 有 ${failed.length} 個行程${actionLabel}失敗，請到 Google Calendar 確認：\n- ${failed.join('\n- ')}`;
+    if (succeeded.length === 0) {
+      return failedText;
+    }
+    return `✅ 已成功${actionLabel} ${succeeded.length} 個行程：\n- ${succeeded.join('\n- ')}\n\n${failedText}`;
+  }
+
+  /**
+   * 記住最近新增或修改的行程，使用者接著傳送位置訊息時會設為它的地點。
+   * 只是輔助功能，寫入失敗時不影響原本的操作。
+   */
+  private async rememberRecentEvent(rowNumber: number, user: User, event: any): Promise<void> {
+    try {
+      const settings = parseUserSettings(user.settings_json);
+      settings.recentEvent = { eventId: event.id, summary: event.summary };
+      await this.storageService.setUserSettings(rowNumber, settings);
     } catch (error) {
-        console.error('❌ (Background) 背景圖片處理失敗:', error);
-        // 如果背景处理失败，也主动推送一条错误讯息
-        if (this.lineHandler) {
-            await this.lineHandler.pushMessage(user.line_user_id, '😵 抱歉，AI 大腦在分析您的圖片時似乎遇到了一點困難，請稍後再試一次。');
+      console.error('記錄最近的行程失敗:', error);
+    }
+  }
+
+  // 行程的地點、參加者等詳細資訊，每個欄位一行，接在時間後面
+  private formatDetailLines(details: EventDetails): string {
+    return formatEventDetails(details).map(line => `\n${line}`).join('');
+  }
+
+  private formatRecurrenceScopeQuestion(state: RecurrenceScopeState, timeZone: string): BotReply {
+    const actionLabel = state.operation === 'delete' ? '刪除' : '修改';
+    const recurringEvents = state.events.filter(event => event.recurringEventId);
+    const names = recurringEvents.map(event => `「${event.summary}」${this.formatEventWhen(event, timeZone)}`).join('、');
+    const text = `🔁 ${names} 是週期性行程，要${actionLabel}哪些呢？\n\n1️⃣ 只有這一次\n2️⃣ 整個系列 (包含之前與之後的每一次)\n\n(請回覆 1 或 2，或「取消」)`;
+    return withQuickReplies(text, [
+      { label: '1️⃣ 只有這一次', data: encodePostback(state, { type: 'confirm' }), displayText: '只有這一次' },
+      { label: '🔁 整個系列', data: encodePostback(state, { type: 'all' }), displayText: '整個系列' },
+      { label: '❌ 取消', data: encodePostback(state, { type: 'cancel' }), displayText: '取消' },
+    ]);
+  }
+
+  /**
+   * 處理提醒設定的請求：可以針對所有行程或單一學習目標，調整提前的分鐘數或關閉提醒。
+   */
+  private async handleReminderSettings(rowNumber: number, user: User, intent: IntentOf<'set_reminder'>): Promise<BotReply> {
+    const { enabled, minutesBefore, objectiveTitle } = intent.params;
+    const settings = parseUserSettings(user.settings_json);
+    const reminders = settings.reminders || {};
+    const defaultLeadMinutes = getReminderSchedulerOptions().defaultLeadMinutes;
+
+    if (objectiveTitle) {
+      const resolved = await this.resolveObjective(rowNumber, user, objectiveTitle, intent);
+      if (!('objective' in resolved)) {
+        return resolved.reply;
+      }
+      const objective = resolved.objective;
+      // 只說「開啟」而沒有指定時間時，沿用目前對所有行程的設定
+      const leadMinutes = enabled ? (minutesBefore ?? resolveLeadMinutes(reminders, null, defaultLeadMinutes) ?? FALLBACK_LEAD_MINUTES) : null;
+      reminders.objectives = { ...reminders.objectives, [String(objective.objective_id)]: leadMinutes };
+      settings.reminders = reminders;
+      await this.storageService.setUserSettings(rowNumber, settings);
+
+      return leadMinutes
+        ? `⏰ 好的！「${objective.title}」的行程會在開始前 ${leadMinutes} 分鐘提醒您。`
+        : `🔕 好的，已關閉「${objective.title}」的行程提醒。`;
+    }
+
+    const leadMinutes = enabled ? (minutesBefore ?? defaultLeadMinutes ?? FALLBACK_LEAD_MINUTES) : null;
+    reminders.leadMinutes = leadMinutes;
+    if (!enabled) {
+      // 「關閉所有提醒」也一併清除各學習目標的個別設定
+      reminders.objectives = {};
+    }
+    settings.reminders = reminders;
+    await this.storageService.setUserSettings(rowNumber, settings);
+
+    return leadMinutes
+      ? `⏰ 好的！之後所有行程都會在開始前 ${leadMinutes} 分鐘提醒您。`
+      : '🔕 好的，已關閉所有行程提醒。想再開啟時，跟我說「行程開始前 15 分鐘提醒我」就可以了。';
+  }
+
+  /**
+   * 處理時區設定的請求：之後的行程時間、提醒與週報都會以新的時區計算。
+   */
+  private async handleTimeZoneSettings(calendar: GoogleCalendarService, rowNumber: number, user: User, intent: IntentOf<'set_timezone'>): Promise<string> {
+    const timeZone = intent.params.timeZone.trim();
+    if (!isValidTimeZone(timeZone)) {
+      return `🤔 抱歉，我不認得「${timeZone}」這個時區，請告訴我您所在的城市，例如「我現在在東京」。`;
+    }
+
+    const settings = parseUserSettings(user.settings_json);
+    settings.timeZone = timeZone;
+    await this.storageService.setUserSettings(rowNumber, settings);
+    calendar.timeZone = timeZone;
+
+    return `🌏 好的！之後都會以 ${timeZone} 的時間為您安排行程。\n\n🕐 您當地的現在時間是 ${formatDateTime(new Date(), timeZone)}`;
+  }
+
+  /**
+   * 用模糊比對找出使用者提到的學習目標。
+   * 有多個可能的目標時，讓使用者進入選擇狀態，選好後會帶著確定的標題重新執行原本的指令。
+   * @param intent 找到目標後要執行的指令
+   * @param noteId 歸檔筆記時，要歸檔的筆記
+   * @returns 找到的目標，或要直接回覆給使用者的訊息
+   */
+  private async resolveObjective(rowNumber: number, user: User, query: string, intent: UserIntent, noteId?: number): Promise<{ objective: LearningObjective } | { reply: BotReply }> {
+    const objectives = await this.storageService.getObjectivesByUserId(user.id);
+    const match = matchObjective(objectives, query);
+
+    if (match.type === 'match') {
+      return { objective: match.objective };
+    }
+    if (match.type === 'none') {
+      const hint = objectives.length > 0
+        ? `您目前的目標有：\n- ${objectives.map(objective => objective.title).join('\n- ')}`
+        : '要先建立一個嗎？例如：「建立目標：準備期末考，截止日期是 6/20」';
+      return { reply: `🤔 找不到名為「${query}」的學習目標。\n\n${hint}` };
+    }
+
+    const newState = createState('waiting_objective_choice', {
+      candidates: match.candidates.map(objective => ({ objectiveId: objective.objective_id, title: objective.title })),
+      intent,
+      noteId,
+    });
+    await this.storageService.setUserState(rowNumber, newState);
+    return { reply: this.formatObjectiveChoice(newState) };
+  }
+
+  private formatObjectiveChoice(state: ObjectiveChoiceState): BotReply {
+    const titles = state.candidates.map(candidate => candidate.title);
+    const text = titles.length === 1
+      ? `🤔 您指的是學習目標「${titles[0]}」嗎？(請回覆'是'或'否')`
+      : `🤔 有幾個學習目標都符合，您指的是哪一個呢？\n\n${titles.map((title, index) => `${index + 1}. ${title}`).join('\n')}\n\n請回覆編號，或回覆「取消」。`;
+    return withQuickReplies(text, buildChoiceButtons(state, titles, '', false));
+  }
+
+  /**
+   * 把指令中的目標標題換成使用者選定的完整標題。
+   */
+  private withObjectiveTitle(intent: UserIntent, title: string): UserIntent {
+    if (intent.action === 'plan_complex_task') {
+      return { ...intent, objectiveTitle: title };
+    }
+    if ('params' in intent && 'objectiveTitle' in intent.params) {
+      return { ...intent, params: { ...intent.params, objectiveTitle: title } } as UserIntent;
+    }
+    return intent;
+  }
+
+  /**
+   * 將筆記歸檔到使用者指定的學習目標。
+   */
+  private async handleLinkNote(rowNumber: number, user: User, noteId: number, intent: IntentOf<'link_note_to_objective'>): Promise<BotReply> {
+    // 根據標題找到對應的學習目標；找不到時保留目前的狀態，讓使用者可以重新輸入
+    const resolved = await this.resolveObjective(rowNumber, user, intent.params.objectiveTitle, intent, noteId);
+    if (!('objective' in resolved)) {
+      return resolved.reply;
+    }
+    const objective = resolved.objective;
+
+    await this.storageService.linkNoteToObjective(noteId, objective.objective_id);
+
+    // 操作完成，清除狀態並回覆使用者
+    await this.storageService.setUserState(rowNumber, null);
+    return `✅ 好的，已將這份筆記歸檔到您的學習目標「${objective.title}」中！`;
+  }
+
+  /**
+   * 列出使用者所有的學習目標與進度：進行中的排在最前面，已完成的排在最後。
+   */
+  private async handleListObjectives(calendar: GoogleCalendarService, user: User): Promise<string> {
+    const objectives = await this.storageService.getObjectivesByUserId(user.id);
+    if (objectives.length === 0) {
+      return '📭 您還沒有任何學習目標。試著說「建立目標：準備期末考，截止日期是 6/20」來建立第一個吧！';
+    }
+
+    const notes = await this.storageService.getKnowledgeNotesByUserId(user.id);
+    const statusOrder = { 'In Progress': 0, 'On Hold': 1, 'Completed': 2 };
+    const sortedObjectives = [...objectives].sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+    const now = new Date();
+
+    const summaries: ObjectiveSummary[] = [];
+    for (const objective of sortedObjectives) {
+      const eventIds = objective.gcal_event_ids ? objective.gcal_event_ids.split(',').filter(id => id) : [];
+      // 週期性行程以每一次發生計算
+      const events = await calendar.expandRecurringEvents(
+        await calendar.getEventsByIds(eventIds), getOccurrenceHorizon(objective.due_date, calendar.timeZone, now));
+      const startOf = (event: any) => new Date(event.start.dateTime || event.start.date);
+      const futureEvents = events.filter(event => startOf(event) >= now).sort((a, b) => startOf(a).getTime() - startOf(b).getTime());
+
+      summaries.push({
+        title: objective.title,
+        status: objective.status,
+        dueDate: objective.due_date,
+        totalEvents: events.length,
+        pastEvents: events.length - futureEvents.length,
+        // 已完成的目標不需要顯示下一步
+        nextEvent: objective.status === 'Completed' ? null : futureEvents[0] || null,
+        noteCount: notes.filter(note => note.objective_id === objective.objective_id).length,
+      });
+    }
+    return formatObjectivesForLine(summaries, calendar.timeZone);
+  }
+
+  /**
+   * 修改學習目標：標記完成、暫停、恢復進行、改名或更改截止日期。
+   */
+  private async handleUpdateObjective(rowNumber: number, user: User, intent: IntentOf<'update_objective'>): Promise<BotReply> {
+    const { objectiveTitle, changes } = intent.params;
+    const resolved = await this.resolveObjective(rowNumber, user, objectiveTitle, intent);
+    if (!('objective' in resolved)) {
+      return resolved.reply;
+    }
+    const objective = resolved.objective;
+    if (!changes.title && !changes.status && !changes.dueDate) {
+      return `🤔 請告訴我要怎麼調整「${objective.title}」呢？例如標記完成、暫停、改名或更改截止日期。`;
+    }
+    if (changes.title && changes.title !== objective.title && await this.storageService.findObjectiveByTitle(user.id, changes.title)) {
+      return `⚠️ 已經有一個名為「${changes.title}」的學習目標了，請換一個名稱。`;
+    }
+
+    await this.storageService.updateObjective(objective.objective_id, {
+      title: changes.title,
+      status: changes.status,
+      due_date: changes.dueDate,
+    });
+
+    const lines: string[] = [];
+    if (changes.title) lines.push(`📝 標題：${objective.title} → ${changes.title}`);
+    if (changes.status) lines.push(`📌 狀態：${formatObjectiveStatus(changes.status)}`);
+    if (changes.dueDate) lines.push(`📅 截止日期：${changes.dueDate}`);
+    const title = changes.title || objective.title;
+
+    if (changes.status === 'Completed') {
+      return `🎉 恭喜您完成了「${title}」！\n\n${lines.join('\n')}`;
+    }
+    return `✅ 已更新學習目標「${title}」：\n\n${lines.join('\n')}`;
+  }
+
+  /**
+   * 處理刪除學習目標的請求：目標底下還有行程時，先詢問是否一併刪除。
+   */
+  private async handleDeleteObjectiveRequest(calendar: GoogleCalendarService, rowNumber: number, user: User, intent: IntentOf<'delete_objective'>): Promise<BotReply> {
+    const resolved = await this.resolveObjective(rowNumber, user, intent.params.objectiveTitle, intent);
+    if (!('objective' in resolved)) {
+      return resolved.reply;
+    }
+    const objective = resolved.objective;
+
+    const eventIds = objective.gcal_event_ids ? objective.gcal_event_ids.split(',').filter(id => id) : [];
+    const events = await calendar.getEventsByIds(eventIds);
+    const newState = createState('waiting_objective_delete_confirmation', {
+      objectiveId: objective.objective_id,
+      title: objective.title,
+      eventIds: events.map(event => event.id),
+    });
+    await this.storageService.setUserState(rowNumber, newState);
+    return this.formatObjectiveDeleteQuestion(newState);
+  }
+
+  private formatObjectiveDeleteQuestion(state: ObjectiveDeleteConfirmationState): BotReply {
+    const cancelButton: QuickReplyButton = { label: '❌ 取消', data: encodePostback(state, { type: 'cancel' }), displayText: '取消' };
+    if (state.eventIds.length === 0) {
+      return withQuickReplies(`確定要刪除學習目標「${state.title}」嗎？(請回覆'是'或'否')`, [
+        { label: '🗑️ 確定刪除', data: encodePostback(state, { type: 'confirm' }), displayText: '是' },
+        cancelButton,
+      ]);
+    }
+
+    const text = `確定要刪除學習目標「${state.title}」嗎？\n\n這個目標底下還有 ${state.eventIds.length} 個行程，要一併從行事曆刪除嗎？\n(請回覆「連同行程一起刪除」、「只刪除目標」或「取消」)`;
+    return withQuickReplies(text, [
+      { label: '🗑️ 連同行程一起刪除', data: encodePostback(state, { type: 'all' }), displayText: '連同行程一起刪除' },
+      { label: '📂 只刪除目標', data: encodePostback(state, { type: 'confirm' }), displayText: '只刪除目標' },
+      cancelButton,
+    ]);
+  }
+
+  /**
+   * 移除被刪除的學習目標在提醒設定中的個別設定。
+   */
+  private async clearObjectiveReminderSetting(rowNumber: number, user: User, objectiveId: number): Promise<void> {
+    const settings = parseUserSettings(user.settings_json);
+    const objectives = settings.reminders?.objectives;
+    if (!objectives || !(String(objectiveId) in objectives)) {
+      return;
+    }
+    delete objectives[String(objectiveId)];
+    await this.storageService.setUserSettings(rowNumber, settings);
+  }
+
+  /**
+   * 處理測驗的請求：指定學習目標時用目標底下的所有筆記出題，
+   * 否則用指定的筆記 (例如剛分析完的筆記)，都沒有時用最近的一份筆記。
+   * @param noteId 目前正在討論的筆記
+   */
+  private async handleQuizRequest(rowNumber: number, user: User, intent: IntentOf<'start_quiz'>, noteId?: number): Promise<BotReply> {
+    const allNotes = await this.storageService.getKnowledgeNotesByUserId(user.id);
+    let notes: KnowledgeNote[];
+
+    if (intent.params.objectiveTitle) {
+      const resolved = await this.resolveObjective(rowNumber, user, intent.params.objectiveTitle, intent);
+      if (!('objective' in resolved)) {
+        return resolved.reply;
+      }
+      const objective = resolved.objective;
+      notes = allNotes.filter(note => note.objective_id === objective.objective_id);
+      if (notes.length === 0) {
+        return `📭「${objective.title}」底下還沒有任何筆記。分析完筆記後，跟我說「將筆記歸檔到『${objective.title}』」就可以了。`;
+      }
+    } else {
+      const selectedNote = noteId
+        ? allNotes.find(note => note.note_id === noteId)
+        : allNotes.reduce<KnowledgeNote | undefined>((latest, note) => (!latest || note.note_id > latest.note_id ? note : latest), undefined);
+      if (!selectedNote) {
+        return '📭 您還沒有任何筆記喔！先傳一張筆記圖片給我，我整理好之後就能考考您。';
+      }
+      notes = [selectedNote];
+    }
+
+    try {
+      return await startQuiz(this.storageService, rowNumber, notes);
+    } catch (error) {
+      console.error('[Quiz] 出題失敗:', error);
+      return '😵 抱歉，我在準備題目時遇到了一點困難，請稍後再試一次。';
+    }
+  }
+
+  /**
+   * 列出使用者的筆記，可以依學習目標篩選或用關鍵字搜尋筆記內容。
+   */
+  private async handleListNotes(rowNumber: number, user: User, intent: IntentOf<'list_notes'>): Promise<BotReply> {
+    const { objectiveTitle, keyword } = intent.params;
+    const allNotes = await this.storageService.getKnowledgeNotesByUserId(user.id);
+    if (allNotes.length === 0) {
+      return '📭 您還沒有任何筆記喔！先傳一張筆記圖片給我，我會幫您整理成筆記。';
+    }
+
+    let objectiveId: number | undefined;
+    let heading = keyword ? `包含「${keyword}」的筆記` : '最近的筆記';
+    if (objectiveTitle) {
+      const resolved = await this.resolveObjective(rowNumber, user, objectiveTitle, intent);
+      if (!('objective' in resolved)) {
+        return resolved.reply;
+      }
+      objectiveId = resolved.objective.objective_id;
+      heading = `「${resolved.objective.title}」的${keyword ? `筆記中包含「${keyword}」的` : '筆記'}`;
+    }
+
+    const notes = filterNotes(allNotes, { objectiveId, keyword });
+    if (notes.length === 0) {
+      return `🔍 找不到${heading}。可以換個關鍵字，或說「我的筆記」查看最近的筆記。`;
+    }
+    const objectives = await this.storageService.getObjectivesByUserId(user.id);
+    return formatNoteList(notes, objectives, heading);
+  }
+
+  /**
+   * 重新打開一份筆記，讓使用者回到筆記的後續操作 (摘要、心智圖、測驗、歸檔)。
+   */
+  private async handleOpenNote(rowNumber: number, user: User, intent: IntentOf<'open_note'>): Promise<BotReply> {
+    const { noteId } = intent.params;
+    // 只能打開自己的筆記
+    const notes = await this.storageService.getKnowledgeNotesByUserId(user.id);
+    const note = notes.find(note => note.note_id === noteId);
+    if (!note) {
+      return `🤔 找不到筆記 #${noteId}。您可以說「我的筆記」查看所有筆記的編號。`;
+    }
+
+    const newState = createState('waiting_knowledge_action', { noteId });
+    await this.storageService.setUserState(rowNumber, newState);
+    return `${formatNotePreview(note)}\n\n${this.formatKnowledgeActionMenu()}`;
+  }
+
+  // 筆記整理好或重新打開後，提示使用者接下來可以做的事
+  private formatKnowledgeActionMenu(): string {
+    return `接下來，您想做什麼呢？\n您可以試著說：\n• 「幫我生成心智圖、flashcard、摘要」\n• 「出幾題考考我」\n• 「將筆記歸檔到『[您的目標名稱]』」`;
+  }
+
+  /**
+   * 將 update_event 的修改內容，轉換為 Google Calendar 的 patch 物件。
+   * 只改開始時間時，會保留事件原本的時長。
+   */
+  private buildEventPatch(event: any, changes: EventChanges, timeZone: string): any {
+    const patch: any = {};
+    if (changes.summary) patch.summary = changes.summary;
+    if (changes.location !== undefined) patch.location = changes.location;
+    if (changes.description !== undefined) patch.description = changes.description;
+
+    if (changes.startTime || changes.endTime) {
+      const originalStart = new Date(event.start.dateTime || event.start.date);
+      const originalEnd = new Date(event.end?.dateTime || event.end?.date || originalStart.getTime() + 60 * 60 * 1000);
+      // 全天事件改為有具體時間時，預設為 1 小時
+      const durationMs = event.start.dateTime ? originalEnd.getTime() - originalStart.getTime() : 60 * 60 * 1000;
+
+      const newStart = changes.startTime ? new Date(changes.startTime) : originalStart;
+      const newEnd = changes.endTime ? new Date(changes.endTime) : new Date(newStart.getTime() + durationMs);
+
+      patch.start = { dateTime: newStart.toISOString(), date: null, timeZone };
+      patch.end = { dateTime: newEnd.toISOString(), date: null, timeZone };
+    }
+    return patch;
+  }
+
+  private formatEventChanges(changes: EventChanges, timeZone: string): string {
+    const lines: string[] = [];
+    if (changes.summary) lines.push(`📝 標題：${changes.summary}`);
+    if (changes.startTime) lines.push(`🕐 開始：${formatDateTime(changes.startTime, timeZone)}`);
+    if (changes.endTime) lines.push(`🕐 結束：${formatDateTime(changes.endTime, timeZone)}`);
+    if (changes.location) lines.push(`📍 地點：${changes.location}`);
+    if (changes.description) lines.push(`🗒️ 說明：${changes.description}`);
+    return lines.join('\n');
+  }
+
+  private formatEventWhen(event: any, timeZone: string): string {
+    // 週期性行程 (或它的某一次發生) 加上標記
+    const repeat = event.recurringEventId || event.recurrence?.length ? ' 🔁' : '';
+    if (event.start?.dateTime) {
+      return ` (${formatDateTime(event.start.dateTime, timeZone)})${repeat}`;
+    }
+    return event.start?.date ? ` (${formatEventDate(event, timeZone)} 全天)${repeat}` : '';
+  }
+
+/**
+ * 處理來自 LINE 的圖片訊息：把分析工作放進背景佇列，完成後再主動推送結果。
+ * @param userContext 包含使用者在儲存層中的列號和資料的物件
+ * @param messageId LINE 圖片訊息的 ID，背景工作執行時才下載圖片內容
+ */
+  async handleImage(userContext: UserContext, messageId: string): Promise<string> {
+    return this.enqueueDocumentPage(userContext, { messageId, mimeType: 'image/jpeg' });
+  }
+
+  /**
+   * 處理來自 LINE 的位置訊息：設為最近討論的行程的地點。
+   * 正在確認要新增的行程時設為那個行程的地點，否則設為最近新增或修改的行程的地點。
+   */
+  async handleLocation(userContext: UserContext, location: SharedLocation): Promise<BotReply> {
+    return this.runWithCalendar(userContext, async calendar => {
+      const { rowNumber, user } = userContext;
+      const place = formatSharedLocation(location);
+
+      const state = parseState(user.state_json);
+      if (state?.status === 'waiting_event_confirmation' && !isStateExpired(state)) {
+        const newState = { ...state, event: { ...state.event, location: place } };
+        await this.storageService.setUserState(rowNumber, newState);
+        return this.formatEventConfirmation(newState, calendar.timeZone);
+      }
+
+      const recentEvent = parseUserSettings(user.settings_json).recentEvent;
+      if (!recentEvent) {
+        return '📍 收到您的位置了！不過目前沒有可以設定地點的行程，請先新增一個行程，再傳送位置給我。';
+      }
+      try {
+        await calendar.patchEvent(recentEvent.eventId, { location: place });
+      } catch (error) {
+        if (GoogleAuthService.isAuthRevokedError(error)) {
+          throw error;
         }
+        console.error('設定行程地點失敗:', error);
+        return `📍 抱歉，無法更新「${recentEvent.summary}」的地點，這個行程可能已經被刪除了。`;
+      }
+      return `📍 已將「${recentEvent.summary}」的地點設為：\n${place}`;
+    });
+  }
+
+  /**
+   * 處理來自 LINE 的檔案訊息，目前只支援 PDF (例如課程大綱)。
+   * @param fileSize LINE 提供的檔案大小 (bytes)
+   */
+  async handleFile(userContext: UserContext, messageId: string, fileName: string, fileSize: string): Promise<string> {
+    if (!isPdfFile(fileName)) {
+      return '📎 目前只支援 PDF 檔案，其他文件可以拍照或截圖後傳給我。';
+    }
+    if (isFileTooLarge(fileSize)) {
+      return '📎 這個 PDF 太大了，我沒辦法一次讀完。可以只傳需要的頁面 (例如截圖) 給我嗎？';
     }
+    return this.enqueueDocumentPage(userContext, { messageId, mimeType: 'application/pdf', fileName });
+  }
+
+  /**
+   * 把一頁文件加入分析佇列。短時間內連續傳來的圖片與 PDF 會合併成同一個工作，一起分析。
+   * @returns 開始新的工作時回覆收到；併入既有的工作時回傳空字串，不另外回覆
+   */
+  private enqueueDocumentPage(userContext: UserContext, page: DocumentPage): string {
+    if (!this.getCalendarServiceForUser(userContext.user)) {
+      return this.getLinkAccountPrompt(userContext.user.line_user_id);
+    }
+    if (!this.jobQueue) {
+      throw new Error('背景工作佇列尚未啟動');
+    }
+
+    // 工作會先寫入佇列，即使程式中途重啟也會在啟動後接續
+    const { windowMs, maxPages } = getDocumentBatchOptions();
+    const { created } = this.jobQueue.enqueueBatched('analyze_image', userContext.user.line_user_id, page, windowMs, maxPages);
+    if (!created) {
+      return '';
+    }
+
+    // 立即回覆，消耗掉 replyToken，避免超时
+    const received = page.mimeType === 'application/pdf' ? `您的檔案「${page.fileName}」` : '您的圖片';
+    return `👌 已收到${received}，正在請 AI 大腦進行分析，請稍候...\n(如果還有其他頁面，請接著傳送，我會一起分析)`;
+  }
+
+  /**
+   * 背景工作：下載所有頁面 (圖片、PDF)、一起交給 AI 分析，並主動推送結果。
+   * 發生錯誤時直接拋出，由 JobQueue 負責重試。
+   */
+  private async runImageAnalysisJob(job: Job): Promise<void> {
+    if (!this.lineHandler) {
+      throw new Error('LINE 處理器尚未設定，無法下載圖片');
+    }
+    if (await this.pushSavedJobReply(job)) {
+      return;
+    }
+
+    // 1. 重新讀取使用者，狀態可能在排隊期間改變了
+    const userContext = await this.storageService.findOrCreateUser(job.line_user_id);
+    const pages = getDocumentPages(job.payload);
+    const files: ImageInput[] = [];
+    for (const page of pages) {
+      files.push({ data: await this.lineHandler.downloadMessageContent(page.messageId), mimeType: page.mimeType });
+    }
+
+    // 2. (耗时) AI 分析
+    console.log(`🎨 (Background) 分析 ${files.length} 個頁面...`);
+    const intent = await IntelligentPlanner.analyzeImageAndPlan(files, getUserTimeZone(userContext.user));
+    console.log('🎨 (Background) LLM 圖像初步解析:', intent);
+    
+    // 3. (耗时) 根据意图准备回覆内容
+    const pushMessageReply = await this.preparePushMessageFromIntent(userContext, intent);
+
+    // 4. (关键) 先記下結果再推送，推送失敗重試時不會重複儲存筆記
+    this.jobQueue?.checkpoint(job, { reply: pushMessageReply });
+    if (pushMessageReply) {
+        await this.lineHandler.pushMessage(job.line_user_id, pushMessageReply);
+    }
+  }
+
+  /**
+   * 上一次嘗試已經儲存好結果、只是推送失敗時，直接重新推送，不再重新分析與儲存。
+   * @returns 是否已經有儲存好的結果
+   */
+  private async pushSavedJobReply(job: Job): Promise<boolean> {
+    if (!('reply' in job.payload)) {
+      return false;
+    }
+    const reply: BotReply | null = job.payload.reply;
+    if (reply) {
+      await this.lineHandler!.pushMessage(job.line_user_id, reply);
+    }
+    return true;
+  }
+
+  /**
+   * 把貼上的文字或網頁連結加入背景工作佇列，整理好之後再主動推送結果。
+   */
+  private enqueueKnowledgeCapture(user: User, source: KnowledgeSource): string {
+    if (!this.jobQueue) {
+      throw new Error('背景工作佇列尚未啟動');
+    }
+    this.jobQueue.enqueue('analyze_text', user.line_user_id, source);
+    return source.type === 'url'
+      ? '👌 已收到您的連結，正在讀取網頁並整理成筆記，請稍候...'
+      : '👌 已收到您的文字，正在請 AI 大腦整理成筆記，請稍候...';
+  }
+
+  /**
+   * 背景工作：(需要時先下載網頁) 把文字交給 AI 整理成筆記，並主動推送結果。
+   * 網頁無法讀取時直接通知使用者；其他錯誤直接拋出，由 JobQueue 負責重試。
+   */
+  private async runTextAnalysisJob(job: Job): Promise<void> {
+    if (!this.lineHandler) {
+      throw new Error('LINE 處理器尚未設定，無法推送筆記');
+    }
+    if (await this.pushSavedJobReply(job)) {
+      return;
+    }
+    const source = job.payload as KnowledgeSource;
+
+    let text: string | null = source.type === 'url' ? await fetchPageText(source.url) : source.text;
+    if (!text) {
+      await this.lineHandler.pushMessage(job.line_user_id, `🤔 抱歉，我無法讀取這個網頁的內容：\n${source.type === 'url' ? source.url : ''}\n\n您可以傳「幫我整理成筆記：」加上文章內容，我一樣可以幫您整理。`);
+      return;
+    }
+    const maxLength = getKnowledgeTextMaxLength();
+    if (text.length > maxLength) {
+      console.log(`✂️ (Background) 內容長度 ${text.length} 字，只取前 ${maxLength} 字`);
+      text = text.slice(0, maxLength);
+    }
+
+    const intent = await IntelligentPlanner.analyzeTextKnowledge(text, source.type === 'url' ? source.url : undefined);
+    console.log('📝 (Background) LLM 文字筆記解析:', intent.source);
+
+    // 重新讀取使用者，狀態可能在排隊期間改變了
+    const userContext = await this.storageService.findOrCreateUser(job.line_user_id);
+    const reply = await this.saveKnowledgeNote(userContext, intent, source.type, source.type === 'url' ? source.url : text);
+    this.jobQueue?.checkpoint(job, { reply });
+    await this.lineHandler.pushMessage(job.line_user_id, reply);
+  }
+
+  /**
+   * 儲存 AI 整理好的筆記，並讓使用者進入筆記的後續操作 (摘要、心智圖、測驗、歸檔)。
+   * @param rawContent 原始內容 (貼上的文字或網址)
+   */
+  private async saveKnowledgeNote(userContext: UserContext, intent: KnowledgeIntent, sourceType: NoteSourceType, rawContent?: string): Promise<string> {
+    const { rowNumber, user } = userContext;
+    const newNoteId = await this.storageService.saveKnowledgeNote(user.id, intent, sourceType, rawContent);
+    const newState = createState('waiting_knowledge_action', { noteId: newNoteId });
+    await this.storageService.setUserState(rowNumber, newState);
+    const title = intent.source || "這份資料";
+    return `✅ 分析完成！\n我已經整理好您關於「${title}」的筆記了 (筆記 #${newNoteId})。\n\n${this.formatKnowledgeActionMenu()}`;
   }
 
   /**
    * ✨ 新增的辅助函式，封装了之前 handleImage 的所有 switch-case 逻辑
    * @returns 最终要推送给用户的文字，或者 null
    */
-  private async preparePushMessageFromIntent(userContext: { rowNumber: number; user: User }, intent: any): Promise<string | null> {
+  private async preparePushMessageFromIntent(userContext: UserContext, intent: ImageIntent): Promise<BotReply | null> {
       const { rowNumber, user } = userContext;
       
       // ✨ 对计画进行后处理 (从您之前的 handleImage 搬移过来)
-      if (intent.action === 'plan_complex_task' && Array.isArray(intent.plan)) {
+      if (intent.action === 'plan_complex_task') {
           console.log('✨ (Background) 執行計畫清理與後處理...');
-          const completeEvents: PlanEvent[] = intent.plan.filter(
-              (event: PlanEvent) => event.summary && (event.date || event.startTime)
-          );
-          const uniqueEvents: PlanEvent[] = completeEvents.filter(
-              (event: PlanEvent, index: number, self: PlanEvent[]) =>
-                  index === self.findIndex((t: PlanEvent) => 
-                      t.summary === event.summary && t.date === event.date
-                  )
-          );
-          intent.plan = uniqueEvents;
+          // 多頁文件中同一個截止日期常會重複出現，這裡只保留一個
+          intent.plan = dedupePlanEvents(intent.plan);
           console.log('✨ (Background) 清理後的計畫:', intent.plan);
       }
       
       // ✨ 将您之前 handleImage 的 switch-case 逻辑完整搬移到这里 ✨
       switch (intent.action) {
-          case 'reconstruct_knowledge': {
-              const newNoteId = await this.sheetService.saveKnowledgeNote(user.id, intent);
-              const newState = { status: 'waiting_knowledge_action', noteId: newNoteId };
-              await this.sheetService.setUserState(rowNumber, newState);
-              const title = intent.source || "這份資料";
-              return `✅ 分析完成！\n我已經整理好您關於「${title}」的筆記了。\n\n接下來，您想做什麼呢？\n您可以試著說：\n• 「幫我生成心智圖、flashcard、摘要」\n• 「出幾題考考我」\n• 「將筆記歸檔到『[您的目標名稱]』」`;
-          }
+          case 'reconstruct_knowledge':
+              return await this.saveKnowledgeNote(userContext, intent, 'image');
               
           case 'plan_complex_task': {
               const plan = intent.plan;
               if (this.isPlanComplete(plan)) {
-                const newState = { status: 'waiting_confirmation', plan: plan };
-                await this.sheetService.setUserState(rowNumber, newState);
-                return this.formatPlanForConfirmation(plan);
+                const newState = createState('waiting_confirmation', { plan: plan });
+                await this.storageService.setUserState(rowNumber, newState);
+                return this.formatPlanForConfirmation(newState, getUserTimeZone(user));
              } else {
                 if (!plan || plan.length === 0) {
-                    return '🤔 抱歉，我從圖片中無法提取出任何完整的活動資訊。';
+                    return '🤔 抱歉，我從您傳來的文件中無法提取出任何完整的活動資訊。';
                 }
-                const newState = { status: 'waiting_plan_correction', partialPlan: intent };
-                await this.sheetService.setUserState(rowNumber, newState);
+                const newState = createState('waiting_plan_correction', { partialPlan: intent });
+                await this.storageService.setUserState(rowNumber, newState);
                 return this.formatIncompletePlanAsTemplate(plan);
              }
           }
 
           case 'create_event': {
               if (intent.params && intent.params.startTime) {
-                  const newState = { status: 'waiting_confirmation', plan: [intent.params] };
-                  await this.sheetService.setUserState(rowNumber, newState);
-                  return this.formatPlanForConfirmation(newState.plan);
+                  const newState = createState('waiting_confirmation', { plan: [intent.params] });
+                  await this.storageService.setUserState(rowNumber, newState);
+                  return this.formatPlanForConfirmation(newState, getUserTimeZone(user));
               } else {
-                  const newState = { status: 'waiting_plan_correction', partialPlan: { action: 'plan_complex_task', plan: [intent.params] } };
-                  await this.sheetService.setUserState(rowNumber, newState);
+                  const newState = createState('waiting_plan_correction', { partialPlan: { action: 'plan_complex_task', plan: [intent.params] } });
+                  await this.storageService.setUserState(rowNumber, newState);
                   return this.formatIncompletePlanAsTemplate([intent.params]);
               }
           }
@@ -560,15 +1990,19 @@ export class CalendarHandler {
   private formatIncompletePlanAsTemplate(plan: any[]): string {
     let response = "好的，我從圖片中找到了這些活動，但有些日期不清楚，能請您幫忙提供嗎？\n\n";
     plan.forEach((event, index) => {
-      response += `**事件 ${index + 1}:** ${event.summary}\n`;
+      response += `事件 ${index + 1}: ${event.summary}\n`;
       const dateValue = event.date || event.startTime;
-      response += `  **日期:** ${dateValue || "【請幫我填寫這個日期】"}\n\n`;
+      response += `  日期: ${dateValue || "【請幫我填寫這個日期】"}\n\n`;
     });
     response += "您可以像這樣回覆：『事件1的日期是8/18，事件2是8/20』";
     return response;
   }
 
   async close(): Promise<void> {
-    await this.googleCalendarService.disconnect();
+    // 等待執行中的背景工作完成，尚未執行的工作會在下次啟動時接續
+    await this.jobQueue?.stop();
+    await this.reminderScheduler?.stop();
+    this.userCalendars.clear();
+    console.log('🔌 Google Calendar 服務已關閉');
   }
 }
\ No newline at end of file
@@ -1,9 +1,22 @@
-import { Client, TextMessage, ImageEventMessage, WebhookEvent } from '@line/bot-sdk';
+import { Client, Message, TextMessage, ImageEventMessage, FileEventMessage, LocationEventMessage, WebhookEvent } from '@line/bot-sdk';
 import { CalendarHandler } from './calendarHandler';
+import { GoogleAuthService } from '../services/googleAuthService';
+import { BotReply, ReplyMessage } from '../types';
+import { BoundedSeenSet, KeyedSerialQueue } from '../utils/eventQueue';
+
+// Flex Message 的 altText 長度上限
+const MAX_ALT_TEXT_LENGTH = 400;
+
+// 記住最近處理過的 Webhook 事件數量，用來過濾 LINE 的重送
+const SEEN_EVENT_CAPACITY = 1000;
 
 export class LineHandler {
   private lineClient: Client;
   private calendarHandler: CalendarHandler;
+  // 已處理過的 webhookEventId
+  private seenEvents = new BoundedSeenSet(SEEN_EVENT_CAPACITY);
+  // 每位使用者的事件依序處理，避免同時讀寫同一個使用者的狀態
+  private userQueue = new KeyedSerialQueue();
 
   constructor(
     channelAccessToken: string,
@@ -32,23 +45,44 @@ export class LineHandler {
 
   // 處理 LINE Webhook 事件
   async handleWebhookEvents(events: WebhookEvent[]): Promise<void> {
-    // 處理每個事件
-    const promises = events.map(event => this.handleSingleEvent(event));
+    const promises = events
+      .filter(event => {
+        // LINE 重送或重複的事件只處理一次
+        if (!this.seenEvents.add(event.webhookEventId)) {
+          console.log(`♻️ 略過已處理過的事件: ${event.webhookEventId}`);
+          return false;
+        }
+        return true;
+      })
+      .map(event => {
+        // 同一位使用者的事件依序處理，不同使用者之間仍然同時進行
+        const userId = event.source.userId;
+        return userId
+          ? this.userQueue.enqueue(userId, () => this.handleSingleEvent(event))
+          : this.handleSingleEvent(event);
+      });
     await Promise.all(promises);
   }
 
   // 處理單一事件
   private async handleSingleEvent(event: WebhookEvent): Promise<void> {
     try {
-      if (event.type !== 'message' || !event.source.userId) {
+      if ((event.type !== 'message' && event.type !== 'postback') || !event.source.userId) {
         console.log('忽略非訊息事件或沒有 userId 的事件:', event.type);
         return;
       }
       
       const userId = event.source.userId;
       const { replyToken } = event; 
+
+      // 快速回覆按鈕帶回的結構化資料，直接交給對應的狀態處理
+      if (event.type === 'postback') {
+        await this.replyMessage(replyToken, await this.handlePostback(userId, event.postback.data));
+        return;
+      }
+
       const message = event.message; 
-      let responseText: string;
+      let responseText: BotReply;
 
       switch (message.type) {
         case 'text':
@@ -60,8 +94,16 @@ export class LineHandler {
           responseText = await this.handleImageMessage(userId, message as ImageEventMessage);
                 break;
 
+        case 'file':
+          responseText = await this.handleFileMessage(userId, message as FileEventMessage);
+          break;
+
+        case 'location':
+          responseText = await this.handleLocationMessage(userId, message as LocationEventMessage);
+          break;
+
         default:
-          responseText = '🤖 目前只支援文字訊息。';
+          responseText = '🤖 目前只支援文字、圖片、PDF 檔案與位置訊息。';
       }
 
       await this.replyMessage(replyToken, responseText);
@@ -84,7 +126,7 @@ export class LineHandler {
   }
 
   // 處理文字訊息
-  private async handleTextMessage(userId: string, message: TextMessage): Promise<string> {
+  private async handleTextMessage(userId: string, message: TextMessage): Promise<BotReply> {
     const userText = message.text.trim();
     console.log(`📝 收到來自 [${userId}] 的文字訊息:`, userText);
 
@@ -99,26 +141,40 @@ export class LineHandler {
              '✅ 準備為您服務！';
     }
 
-     // 1. 從 Google Sheet 找到或建立使用者
-    const userContext = await this.calendarHandler.sheetService.findOrCreateUser(userId); // 偷懶直接從 calendarHandler 拿 sheetService
+    if (userText === '/link' || userText === '連結 Google' || userText === '連結帳號') {
+      return this.calendarHandler.getLinkAccountPrompt(userId);
+    }
+
+    if (userText === '/review' || userText === '複習卡片') {
+      const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId);
+      return this.calendarHandler.handleFlashcardReviewRequest(userContext);
+    }
+
+     // 1. 從儲存層找到或建立使用者
+    const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId); // 偷懶直接從 calendarHandler 拿 storageService
 
     // 2. 將包含 {rowNumber, user} 的完整使用者上下文傳遞下去
     return await this.calendarHandler.handleMessage(userContext, message.text);
   
   }
 
+  // 處理快速回覆按鈕的 postback
+  private async handlePostback(userId: string, data: string): Promise<BotReply> {
+    console.log(`🔘 收到來自 [${userId}] 的按鈕回覆:`, data);
+    const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId);
+    return await this.calendarHandler.handlePostback(userContext, data);
+  }
+
   // 處理圖片訊息
   private async handleImageMessage(userId: string, message: ImageEventMessage): Promise<string> {
     try {
-        console.log(`📷 收到來自 [${userId}] 的圖片訊息 [ID: ${message.id}]，開始下載並分析...`);
-        
-        const imageBuffer = await this.downloadImageContent(message.id);
+        console.log(`📷 收到來自 [${userId}] 的圖片訊息 [ID: ${message.id}]，加入分析佇列...`);
         
         // ✨ 核心改造：像文字訊息一樣，先找到或建立使用者
-        const userContext = await this.calendarHandler.sheetService.findOrCreateUser(userId);
+        const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId);
         
-        // ✨ 將 userContext 和圖片內容一起交給 calendarHandler
-        return await this.calendarHandler.handleImage(userContext, imageBuffer);
+        // ✨ 只傳遞訊息 ID，圖片由背景工作在執行時下載
+        return await this.calendarHandler.handleImage(userContext, message.id);
                 
     } catch (error) {
         console.error('處理圖片訊息失敗:', error);
@@ -126,8 +182,27 @@ export class LineHandler {
     }
   }
 
-  // 下載圖片內容（未來使用）
-  private async downloadImageContent(messageId: string): Promise<Buffer> {
+  // 處理檔案訊息 (例如 PDF 課程大綱)
+  private async handleFileMessage(userId: string, message: FileEventMessage): Promise<string> {
+    try {
+        console.log(`📎 收到來自 [${userId}] 的檔案訊息 [ID: ${message.id}]: ${message.fileName} (${message.fileSize} bytes)`);
+        const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId);
+        return await this.calendarHandler.handleFile(userContext, message.id, message.fileName, message.fileSize);
+    } catch (error) {
+        console.error('處理檔案訊息失敗:', error);
+        return '📎 抱歉，處理您的檔案時發生錯誤，請稍後再試。';
+    }
+  }
+
+  // 處理位置訊息：設為最近討論的行程的地點
+  private async handleLocationMessage(userId: string, message: LocationEventMessage): Promise<BotReply> {
+    console.log(`📍 收到來自 [${userId}] 的位置訊息:`, message.title || message.address);
+    const userContext = await this.calendarHandler.storageService.findOrCreateUser(userId);
+    return await this.calendarHandler.handleLocation(userContext, message);
+  }
+
+  // 下載訊息附帶的內容 (圖片、檔案等)
+  async downloadMessageContent(messageId: string): Promise<Buffer> {
     const stream = await this.lineClient.getMessageContent(messageId);
     const chunks: Buffer[] = [];
     
@@ -139,18 +214,16 @@ export class LineHandler {
   }
 
   // 回覆訊息給使用者
-    private async replyMessage(replyToken: string, text: string): Promise<void> {
+    private async replyMessage(replyToken: string, reply: BotReply): Promise<void> {
       try {
         // ✨ 增加一個防呆檢查，確保不發送空訊息
-        if (!text || text.trim() === '') {
+        const messages = this.toLineMessages(reply);
+        if (messages.length === 0) {
           console.warn('⚠️ 偵測到嘗試回覆空訊息，已中止操作。');
           return;
         }
 
-        await this.lineClient.replyMessage(replyToken, {
-          type: 'text',
-          text: text
-        });
+        await this.lineClient.replyMessage(replyToken, messages);
         
         console.log('✅ 訊息回覆成功');
       } catch (error: any) {
@@ -168,12 +241,9 @@ export class LineHandler {
     }
 
   // 主動推送訊息給使用者（未來可用於提醒功能）
-  async pushMessage(userId: string, text: string): Promise<void> {
+  async pushMessage(userId: string, reply: BotReply): Promise<void> {
     try {
-      await this.lineClient.pushMessage(userId, {
-        type: 'text',
-        text: text
-      });
+      await this.lineClient.pushMessage(userId, this.toLineMessages(reply));
       
       console.log('✅ 推送訊息成功');
     } catch (error) {
@@ -182,32 +252,126 @@ export class LineHandler {
     }
   }
 
+  /**
+   * 將回覆轉成 LINE 訊息陣列，並略過空白的訊息。
+   */
+  private toLineMessages(reply: BotReply): Message[] {
+    const parts = Array.isArray(reply) ? reply : [reply];
+    return parts
+      .filter(part => (typeof part === 'string' ? part : part.text).trim() !== '')
+      .map(part => this.toLineMessage(part));
+  }
+
+  /**
+   * 將單則回覆轉成 LINE 訊息：有 Flex 版面時送出 Flex Message，純文字作為 altText；
+   * 設定 LINE_FLEX_ENABLED=false 時一律送出純文字。
+   */
+  private toLineMessage(reply: ReplyMessage): Message {
+    if (typeof reply === 'string') {
+      return { type: 'text', text: reply };
+    }
+
+    const quickReply = reply.quickReplies?.length
+      ? {
+          items: reply.quickReplies.map(button => ({
+            type: 'action' as const,
+            action: { type: 'postback' as const, label: button.label, data: button.data, displayText: button.displayText },
+          })),
+        }
+      : undefined;
+
+    if (!reply.flex || process.env.LINE_FLEX_ENABLED === 'false') {
+      return { type: 'text', text: reply.text, quickReply };
+    }
+
+    const altText = reply.text.length > MAX_ALT_TEXT_LENGTH
+      ? reply.text.slice(0, MAX_ALT_TEXT_LENGTH - 1) + '…'
+      : reply.text;
+    return { type: 'flex', altText, contents: reply.flex, quickReply };
+  }
+
+  /**
+   * 完成 Google 帳號連結：驗證 state、儲存 token，並推送通知給使用者。
+   * @returns 連結成功的 LINE 使用者 ID
+   */
+  async completeGoogleAuth(state: string, nonce: string | undefined, code: string): Promise<string> {
+    const lineUserId = GoogleAuthService.consumeAuthSession(state, nonce);
+    if (!lineUserId) {
+      throw new Error('授權連結無效或已過期');
+    }
+
+    await this.calendarHandler.linkGoogleAccount(lineUserId, code);
+    await this.pushMessage(lineUserId, '✅ Google 帳號連結成功！現在您可以開始查詢和管理您的行事曆了。');
+    return lineUserId;
+  }
+
   // 取得幫助訊息
   private getHelpMessage(): string {
     return `🤖 AI 學習助理 Bot 使用說明 🤖
 
-  🧠 **核心學習功能**
-  1️⃣ **傳送圖片分析**
+  🧠 核心學習功能
+  1️⃣ 傳送圖片、文字或連結分析
     直接傳送您的課堂筆記、活動海報或書籍內頁，我會自動分析內容。
+    也可以只傳一個網頁連結，或傳「幫我整理成筆記：」加上一大段課堂文字，我會整理成同樣格式的筆記。
+    課程大綱可以直接傳 PDF，或連續傳好幾張照片，我會讀完所有頁面，整理出一份行程計畫。
 
-  2️⃣ **進行知識加工**
-    分析完圖片後，您可以接著說：
+  2️⃣ 進行知識加工
+    筆記整理好後，您可以接著說：
     • "幫我生成心智圖"
     • "出幾題考考我"
     • "為我做個摘要"
 
-  📂 **學習目標管理 (新！)**
-  • **建立目標**: "建立目標：準備 OpenVINO 競賽，截止日期是 8/20"
-  • **規劃目標**: "幫我規劃『準備 OpenVINO 競賽』"
-  • **歸檔筆記**: (分析完筆記後) "將筆記歸檔到『準備 OpenVINO 競賽』"
+  3️⃣ 每日卡片複習
+    筆記中的 flashcards 會依照記憶曲線 (SM-2) 安排複習，每天推送當天到期的卡片。
+    看完答案後選擇 忘了 / 困難 / 記得 / 簡單，我會依此決定下次複習的日期。
+    • "複習卡片" 或 "/review" - 立刻開始今天的複習
+
+  4️⃣ 互動測驗
+    我會根據筆記一次問一題，您直接回答，我會評分並給您回饋；答不出來可以回覆「跳過」。
+    每週回顧會列出分數偏低、需要加強的筆記。
+    • "考我" - 用最近的一份筆記 (或剛分析完的筆記) 出題
+    • "用『準備 OpenVINO 競賽』的筆記考我" - 用目標底下的所有筆記出題
+
+  5️⃣ 筆記庫
+    每份筆記都有編號，重新打開後可以再生成摘要、心智圖或測驗。
+    • "我的筆記" - 列出最近的筆記
+    • "列出『準備 OpenVINO 競賽』的筆記" - 只看目標底下的筆記
+    • "找跟 TCP 有關的筆記" - 用概念或關鍵字搜尋
+    • "打開筆記 #12" - 重新打開一份筆記
+
+  📂 學習目標管理 (新！)
+  • 建立目標: "建立目標：準備 OpenVINO 競賽，截止日期是 8/20"
+  • 規劃目標: "幫我規劃『準備 OpenVINO 競賽』"
+  • 歸檔筆記: (分析完筆記後) "將筆記歸檔到『準備 OpenVINO 競賽』"
+  • 查看目標: "我有哪些目標？" - 列出所有目標與進度
+  • 調整目標: "『準備 OpenVINO 競賽』已經完成了"、"暫停『準備 OpenVINO 競賽』"、"把『準備 OpenVINO 競賽』的截止日期改到 9/30"
+  • 改名: "把『準備 OpenVINO 競賽』改名為『OpenVINO 決賽』"
+  • 刪除目標: "刪除『準備 OpenVINO 競賽』" - 可選擇是否一併刪除相關行程
+
+  📅 行事曆基礎功能
+  • 查詢: "今天有什麼事？", "查詢下週行程"
+  • 指定範圍: "9/1 到 9/15 有哪些小考？", "這個週末有什麼安排？"
+  • 新增: "明天下午3點演算法小考"
+  • 詳細資訊: "週五晚上7點在圖書館讀書會，邀請 amy@example.com，前一天和 30 分鐘前通知我"
+  • 設定地點: 新增或修改行程後，直接傳送 LINE 的「位置資訊」即可設為該行程的地點
+  • 週期性行程: "每週二四晚上8點複習線代，到期末為止" - 修改或刪除時可選擇只改這一次或整個系列
+  • 修改: "把明天的演算法小考改到後天下午"
+  • 刪除: "取消明天的會議"
+
+  ⏰ 行程提醒
+  • 調整: "行程開始前 30 分鐘提醒我"
+  • 單一目標: "『準備 OpenVINO 競賽』的行程提前一小時提醒我"
+  • 關閉: "關掉所有提醒"
+
+  🌏 時區
+  • "我現在在東京" - 之後的行程時間都以當地時間計算 (預設為台灣時間)
 
-  📅 **行事曆基礎功能**
-  • **查詢**: "今天有什麼事？", "查詢下週行程"
-  • **新增**: "明天下午3點演算法小考"
-  • **刪除**: "取消明天的會議"
+  🔗 帳號連結
+  • "連結 Google" 或 "/link" - 連結 (或重新連結) 您的 Google 行事曆
 
-  ❓ **其他指令**
+  ❓ 其他指令
   • "幫助" 或 "/help" - 顯示此說明
+  • "取消" - 隨時中止目前進行中的確認流程
   • "你是誰" - Bot 自我介紹
 
   準備好了嗎？試著傳送一張您的筆記照片給我吧！`;
@@ -216,6 +380,8 @@ export class LineHandler {
 
   // 關閉連接
   async close(): Promise<void> {
+    // 等待排隊中的事件處理完畢
+    await this.userQueue.drain();
     await this.calendarHandler.close();
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import express from 'express';
 import { middleware, WebhookEvent } from '@line/bot-sdk';
 import dotenv from 'dotenv';
 import { LineHandler } from './handlers/lineHandler';
+import { AUTH_NONCE_COOKIE, GoogleAuthService } from './services/googleAuthService';
 
 // 載入環境變數
 // 僅在本地開發時載入 .env 檔案（部署到 Railway 時不載入）
@@ -15,10 +16,14 @@ const requiredEnvVars = [
   'LINE_CHANNEL_SECRET',
   'GOOGLE_CLIENT_ID',
   'GOOGLE_CLIENT_SECRET', 
-  'GOOGLE_ACCESS_TOKEN',
-  'GOOGLE_REFRESH_TOKEN'
+  'PUBLIC_BASE_URL' // 對外網址，用來產生 Google OAuth 的 callback
 ];
 
+// Google Sheets 儲存後端 (預設) 需要 Sheet 的 ID 與 Sheet 擁有者的 token，缺少時所有讀寫都會失敗
+if ((process.env.STORAGE_BACKEND || 'sheets').toLowerCase() === 'sheets') {
+  requiredEnvVars.push('GOOGLE_SHEET_ID', 'GOOGLE_REFRESH_TOKEN');
+}
+
 console.log('🔍 檢查環境變數...');
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
@@ -36,6 +41,16 @@ const config = {
   port: parseInt(process.env.PORT || '3000') // Railway 會提供 PORT
 };
 
+// 從請求的 Cookie 標頭中取出指定的 cookie
+function readCookie(req: express.Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
 
 // LINE Bot 設定
 const lineConfig = {
@@ -86,6 +101,48 @@ async function startApp() {
       });
     });
 
+    // Google 帳號連結：從聊天訊息中的連結進入，轉址到 Google 授權頁面
+    app.get('/auth/google/start', (req, res) => {
+      const linkState = typeof req.query.state === 'string' ? req.query.state : '';
+      const lineUserId = GoogleAuthService.verifyState(linkState);
+      if (!lineUserId) {
+        res.status(400).send('連結無效或已過期，請回到 LINE 重新輸入「連結 Google」取得新的連結。');
+        return;
+      }
+
+      // 把 nonce 存在這個瀏覽器，callback 時確認是同一個瀏覽器完成授權
+      const { state, nonce, maxAgeMs } = GoogleAuthService.beginAuthSession(lineUserId);
+      res.cookie(AUTH_NONCE_COOKIE, nonce, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.PUBLIC_BASE_URL!.startsWith('https://'),
+        maxAge: maxAgeMs,
+        path: '/auth/google'
+      });
+      res.redirect(GoogleAuthService.generateAuthUrl(state));
+    });
+
+    // Google 帳號連結：授權完成後的 callback
+    app.get('/auth/google/callback', async (req, res) => {
+      const code = typeof req.query.code === 'string' ? req.query.code : '';
+      const state = typeof req.query.state === 'string' ? req.query.state : '';
+      if (!code || !state) {
+        res.status(400).send('授權未完成，請回到 LINE 重新嘗試。');
+        return;
+      }
+
+      const nonce = readCookie(req, AUTH_NONCE_COOKIE);
+      res.clearCookie(AUTH_NONCE_COOKIE, { path: '/auth/google' });
+
+      try {
+        await lineHandler.completeGoogleAuth(state, nonce, code);
+        res.send('✅ Google 帳號連結成功！您可以關閉此頁面並回到 LINE 了。');
+      } catch (error) {
+        console.error('❌ Google 帳號連結失敗:', error);
+        res.status(400).send('❌ Google 帳號連結失敗，請回到 LINE 重新輸入「連結 Google」再試一次。');
+      }
+    });
+
     app.use(express.json({
     verify: (req: any, res, buf, encoding) => {
       // 將 buffer 轉換為字串，並存到 req 的一個自訂屬性上
@@ -175,6 +232,8 @@ async function startApp() {
       console.log(`   GET  /        - 健康檢查`);
       console.log(`   POST /webhook - LINE Webhook`);
       console.log(`   GET  /test    - 測試端點`);
+      console.log(`   GET  /auth/google/start    - Google 帳號連結`);
+      console.log(`   GET  /auth/google/callback - Google OAuth callback`);
     });
 
     // 5. 優雅關閉處理
@@ -193,11 +252,12 @@ async function startApp() {
         process.exit(0);
       });
       
-      // 強制關閉（如果 10 秒內沒有正常關閉）
+      // 強制關閉（如果 30 秒內沒有正常關閉）
+      // 背景工作 (例如圖片分析) 可能需要一點時間才能完成，未完成的工作會在下次啟動時接續
       setTimeout(() => {
         console.error('⚠️  強制關閉應用程式');
         process.exit(1);
-      }, 10000);
+      }, 30000);
     };
 
     // 監聽關閉信號
@@ -0,0 +1,58 @@
+// src/services/agendaQuery.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { countDaysInRange, filterEvents, getDateRangeBounds, hasAgendaFilter } from './agendaQuery';
+
+const events = [
+  { id: 'study', summary: '線性代數讀書會', location: '圖書館 3F', start: { dateTime: '2025-09-01T19:00:00+08:00' } },
+  { id: 'exam', summary: '期中考', description: '範圍：Linear Algebra 1-4 章', start: { date: '2025-09-05' } },
+  { id: 'weekly_20250902', recurringEventId: 'weekly', summary: '英文家教', start: { dateTime: '2025-09-02T18:00:00+08:00' } },
+  { id: 'trip', summary: '墾丁旅行', start: { date: '2025-09-06' } },
+];
+
+const ids = (result: any[]) => result.map(event => event.id);
+
+describe('filterEvents', () => {
+  test('關鍵字比對標題、地點與說明，忽略大小寫與空白', () => {
+    assert.deepEqual(ids(filterEvents(events, { keyword: '讀書會' })), ['study']);
+    assert.deepEqual(ids(filterEvents(events, { keyword: '圖書館' })), ['study']);
+    assert.deepEqual(ids(filterEvents(events, { keyword: 'linear algebra' })), ['exam']);
+  });
+
+  test('只保留學習目標底下的行程，週期性行程的每一次發生都算', () => {
+    assert.deepEqual(ids(filterEvents(events, { eventIds: ['exam', 'weekly'] })), ['exam', 'weekly_20250902']);
+  });
+
+  test('區分全天與有具體時間的行程', () => {
+    assert.deepEqual(ids(filterEvents(events, { eventType: 'all_day' })), ['exam', 'trip']);
+    assert.deepEqual(ids(filterEvents(events, { eventType: 'timed' })), ['study', 'weekly_20250902']);
+  });
+
+  test('多個條件同時成立才保留', () => {
+    assert.deepEqual(ids(filterEvents(events, { keyword: '考', eventType: 'timed' })), []);
+    assert.deepEqual(ids(filterEvents(events, {})), ids(events));
+  });
+});
+
+describe('hasAgendaFilter', () => {
+  test('有任何一個條件就算有篩選', () => {
+    assert.equal(hasAgendaFilter({}), false);
+    assert.equal(hasAgendaFilter({ eventType: 'timed' }), true);
+    assert.equal(hasAgendaFilter({ eventIds: [] }), true);
+  });
+});
+
+describe('日期範圍', () => {
+  test('起訖日期都包含在內', () => {
+    assert.equal(countDaysInRange('2025-09-01', '2025-09-15'), 15);
+    assert.equal(countDaysInRange('2025-09-01', '2025-09-01'), 1);
+  });
+
+  test('以使用者時區的午夜為界，包含結束日當天', () => {
+    assert.deepEqual(getDateRangeBounds('2025-09-01', '2025-09-07', 'Asia/Taipei'), {
+      start: new Date('2025-08-31T16:00:00.000Z'),
+      end: new Date('2025-09-07T16:00:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// src/services/agendaQuery.ts
+
+import { normalizeText } from '../utils/fuzzyMatch';
+import { addDaysToDateString, zonedTimeToDate } from '../utils/dateUtils';
+import { TimeInterval } from './slotScheduler';
+
+// --- 行程查詢 ---
+// 除了「今天」、「這週」這類固定範圍，使用者也可以指定任意的起訖日期 (例如「9/1 到 9/15」、「這個週末」)，
+// 再依關鍵字、學習目標或全天/有時間的行程篩選查詢結果。
+
+// 一次回覆最多列出的行程數，避免超過 LINE 的訊息長度上限
+export const AGENDA_LIST_LIMIT = 30;
+
+export type AgendaEventType = 'all_day' | 'timed';
+
+export interface AgendaFilter {
+  keyword?: string;
+  eventIds?: string[];        // 只保留這些行程 (學習目標底下的行程)
+  eventType?: AgendaEventType;
+}
+
+/**
+ * 一次查詢最多涵蓋的天數 (AGENDA_MAX_RANGE_DAYS，預設 92 天)。
+ */
+export function getAgendaMaxRangeDays(): number {
+  return parseInt(process.env.AGENDA_MAX_RANGE_DAYS || '92', 10);
+}
+
+/**
+ * 兩個日期之間相差的天數 (含頭尾)，例如 9/1 到 9/15 是 15 天。
+ */
+export function countDaysInRange(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * 將使用者時區的起訖日期 (含結束日當天) 轉成查詢用的時間範圍。
+ */
+export function getDateRangeBounds(startDate: string, endDate: string, timeZone: string): TimeInterval {
+  return {
+    start: zonedTimeToDate(startDate, 0, 0, timeZone),
+    end: zonedTimeToDate(addDaysToDateString(endDate, 1), 0, 0, timeZone),
+  };
+}
+
+/**
+ * 依條件篩選行程：
+ * - keyword：標題、地點或說明中包含關鍵字 (忽略大小寫、空白與標點)
+ * - eventIds：只保留指定的行程，週期性行程的每一次發生都算
+ * - eventType：只保留全天或有具體時間的行程
+ */
+export function filterEvents(events: any[], filter: AgendaFilter): any[] {
+  const keyword = filter.keyword ? normalizeText(filter.keyword) : '';
+  const eventIds = filter.eventIds ? new Set(filter.eventIds) : null;
+
+  return events
+    .filter(event => !eventIds || eventIds.has(event.id) || (event.recurringEventId && eventIds.has(event.recurringEventId)))
+    .filter(event => !filter.eventType || (filter.eventType === 'all_day') === !event.start?.dateTime)
+    .filter(event => !keyword || normalizeText([event.summary, event.location, event.description].filter(Boolean).join(' ')).includes(keyword));
+}
+
+/**
+ * 是否有設定任何篩選條件，用來決定查無結果時的回覆。
+ */
+export function hasAgendaFilter(filter: AgendaFilter): boolean {
+  return Boolean(filter.keyword || filter.eventIds || filter.eventType);
+}
@@ -0,0 +1,30 @@
+// src/services/conversationState.test.ts
+
+import { afterEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createState, isStateExpired, parseState } from './conversationState';
+
+describe('parseState', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('剛建立的狀態還沒過期', () => {
+    const state = parseState(JSON.stringify(createState('waiting_confirmation', { plan: [] })));
+    assert.equal(state?.status, 'waiting_confirmation');
+    assert.equal(isStateExpired(state!), false);
+  });
+
+  test('沒有 createdAt 的舊版狀態視為已過期', () => {
+    const state = parseState(JSON.stringify({ status: 'waiting_confirmation', plan: [] }));
+    assert.ok(state);
+    assert.equal(isStateExpired(state), true);
+  });
+
+  test('無法解析或不認得的狀態回傳 null', () => {
+    mock.method(console, 'error', () => {});
+    assert.equal(parseState('{not json'), null);
+    assert.equal(parseState(JSON.stringify({ status: 'waiting_something_else' })), null);
+    assert.equal(parseState(null), null);
+  });
+});
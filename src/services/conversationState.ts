@@ -0,0 +1,289 @@
+// src/services/conversationState.ts
+
+import { EventChanges, FlashcardGrade, FlashcardRef, PendingEvent, PlanEvent, QuickReplyButton, QuizQuestion, RecurrenceScope, RescheduleItem } from '../types';
+import { EventConflict } from './eventConflicts';
+import { UserIntent } from './llm/intentSchemas';
+
+// --- 對話狀態定義 ---
+// 每一種「等待使用者回覆」的情境都是一個狀態，以 status 欄位區分。
+// 所有狀態都會記錄建立時間，超過各自的有效期限就會自動失效。
+
+interface BaseState {
+  createdAt: string; // ISO 8601
+}
+
+export interface PlanConfirmationState extends BaseState {
+  status: 'waiting_confirmation';
+  plan: PlanEvent[];
+  dueDate?: string | null;
+}
+
+export interface DeleteConfirmationState extends BaseState {
+  status: 'waiting_delete_confirmation';
+  events: any[];
+  scope?: RecurrenceScope;  // 使用者已經說明週期性行程的範圍時，不再另外詢問
+}
+
+export interface UpdateConfirmationState extends BaseState {
+  status: 'waiting_update_confirmation';
+  events: any[];
+  changes: EventChanges;
+  scope?: RecurrenceScope;
+}
+
+export interface PlanCorrectionState extends BaseState {
+  status: 'waiting_plan_correction';
+  partialPlan: any;
+  dueDate?: string | null;  // 計畫屬於某個學習目標時，補齊後的項目要排在截止日前
+}
+
+export interface KnowledgeActionState extends BaseState {
+  status: 'waiting_knowledge_action';
+  noteId: number;
+}
+
+export interface RescheduleConfirmationState extends BaseState {
+  status: 'waiting_reschedule_confirmation';
+  items: RescheduleItem[];
+}
+
+export interface FlashcardReviewState extends BaseState {
+  status: 'waiting_flashcard_grade';
+  cards: FlashcardRef[];
+  current: number;      // 目前複習到第幾張
+  revealed: boolean;    // 是否已經顯示答案，顯示後才接受評分
+}
+
+export interface QuizSessionState extends BaseState {
+  status: 'waiting_quiz_answer';
+  questions: QuizQuestion[];
+  current: number;      // 目前問到第幾題
+  scores: number[];     // 已作答題目的分數 (0-100)
+}
+
+export interface ObjectiveDeleteConfirmationState extends BaseState {
+  status: 'waiting_objective_delete_confirmation';
+  objectiveId: number;
+  title: string;
+  eventIds: string[];   // 目標底下仍存在於行事曆上的行程
+}
+
+export interface ObjectiveChoiceState extends BaseState {
+  status: 'waiting_objective_choice';
+  candidates: { objectiveId: number; title: string }[];
+  intent: UserIntent;   // 等使用者選好目標後要繼續執行的指令
+  noteId?: number;      // 歸檔筆記時，要歸檔的筆記
+}
+
+export interface EventConfirmationState extends BaseState {
+  status: 'waiting_event_confirmation';
+  event: PendingEvent;
+  conflicts: EventConflict[];                            // 時間重疊的既有行程，解析信心不足時可能是空的
+  suggestedSlot: { start: string; end: string } | null;  // 建議改到的空檔
+}
+
+export interface RecurrenceScopeState extends BaseState {
+  status: 'waiting_recurrence_scope';
+  operation: 'delete' | 'update';
+  events: any[];            // 使用者選好的行程，其中有週期性行程的某一次發生
+  changes?: EventChanges;   // operation 為 update 時要套用的修改
+}
+
+export type ConversationState =
+  | PlanConfirmationState
+  | DeleteConfirmationState
+  | UpdateConfirmationState
+  | PlanCorrectionState
+  | KnowledgeActionState
+  | RescheduleConfirmationState
+  | FlashcardReviewState
+  | QuizSessionState
+  | ObjectiveDeleteConfirmationState
+  | ObjectiveChoiceState
+  | EventConfirmationState
+  | RecurrenceScopeState;
+
+export type ConversationStatus = ConversationState['status'];
+
+export type StateOf<S extends ConversationStatus> = Extract<ConversationState, { status: S }>;
+
+// 各狀態的有效期限 (分鐘)
+const STATE_TTL_MINUTES: Record<ConversationStatus, number> = {
+  waiting_confirmation: 30,
+  waiting_delete_confirmation: 10,
+  waiting_update_confirmation: 10,
+  waiting_plan_correction: 30,
+  waiting_knowledge_action: 120,
+  // 每週回顧是主動推送的，使用者可能隔一段時間才看到
+  waiting_reschedule_confirmation: 24 * 60,
+  // 每日複習是主動推送的，給使用者一整個白天的時間
+  waiting_flashcard_grade: 12 * 60,
+  waiting_quiz_answer: 60,
+  waiting_objective_delete_confirmation: 10,
+  waiting_objective_choice: 10,
+  waiting_event_confirmation: 10,
+  waiting_recurrence_scope: 10,
+};
+
+// 狀態逾時後提示使用者用的名稱
+const STATE_LABELS: Record<ConversationStatus, string> = {
+  waiting_confirmation: '確認計畫',
+  waiting_delete_confirmation: '刪除行程',
+  waiting_update_confirmation: '修改行程',
+  waiting_plan_correction: '補充計畫日期',
+  waiting_knowledge_action: '筆記後續處理',
+  waiting_reschedule_confirmation: '重新安排過期任務',
+  waiting_flashcard_grade: '複習卡片',
+  waiting_quiz_answer: '筆記測驗',
+  waiting_objective_delete_confirmation: '刪除學習目標',
+  waiting_objective_choice: '選擇學習目標',
+  waiting_event_confirmation: '確認新增行程',
+  waiting_recurrence_scope: '選擇週期性行程的範圍',
+};
+
+// 在任何狀態下都能跳出目前流程的指令
+const CANCEL_TERMS = ['取消', '/cancel', 'cancel', '算了'];
+
+/**
+ * 建立一個新的對話狀態，並自動加上建立時間。
+ */
+export function createState<S extends ConversationStatus>(
+  status: S,
+  data: Omit<StateOf<S>, 'status' | 'createdAt'>
+): StateOf<S> {
+  return { ...data, status, createdAt: new Date().toISOString() } as StateOf<S>;
+}
+
+/**
+ * 解析儲存層中的 state_json。
+ * 無法解析或不認得的狀態會回傳 null，讓呼叫端清除它以避免卡死。
+ */
+export function parseState(stateJson: string | null): ConversationState | null {
+  if (!stateJson) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(stateJson);
+    if (!state || !(state.status in STATE_TTL_MINUTES)) {
+      return null;
+    }
+    // 舊版的狀態沒有 createdAt，無法判斷建立多久了，視為已過期讓呼叫端清除
+    if (!state.createdAt) {
+      state.createdAt = new Date(0).toISOString();
+    }
+    return state as ConversationState;
+  } catch (error) {
+    console.error('[State] 無法解析使用者狀態:', error);
+    return null;
+  }
+}
+
+export function isStateExpired(state: ConversationState, now: Date = new Date()): boolean {
+  const ttlMs = STATE_TTL_MINUTES[state.status] * 60 * 1000;
+  return now.getTime() - new Date(state.createdAt).getTime() > ttlMs;
+}
+
+export function getExpiredNotice(state: ConversationState): string {
+  const minutes = STATE_TTL_MINUTES[state.status];
+  const duration = minutes % 60 === 0 ? `${minutes / 60} 小時` : `${minutes} 分鐘`;
+  return `⏰ 先前的「${STATE_LABELS[state.status]}」已超過 ${duration}，已自動取消。`;
+}
+
+export function isCancelCommand(message: string): boolean {
+  return CANCEL_TERMS.includes(message.trim().toLowerCase());
+}
+
+// --- 快速回覆按鈕 (postback) ---
+// 按鈕的 postback data 會帶上所屬狀態的 createdAt 作為識別，
+// 舊狀態留下的按鈕即使被按到，也不會誤觸目前的狀態。
+
+export type ConfirmationChoice =
+  | { type: 'confirm' }
+  | { type: 'cancel' }
+  | { type: 'all' }
+  | { type: 'select'; index: number }
+  | { type: 'grade'; grade: FlashcardGrade };
+
+export interface PostbackPayload {
+  stateId: string;
+  choice: ConfirmationChoice;
+}
+
+export function encodePostback(state: ConversationState, choice: ConfirmationChoice): string {
+  const params = new URLSearchParams({ sid: state.createdAt, choice: choice.type });
+  if (choice.type === 'select') {
+    params.set('index', String(choice.index));
+  }
+  if (choice.type === 'grade') {
+    params.set('grade', choice.grade);
+  }
+  return params.toString();
+}
+
+// LINE 快速回覆按鈕的標籤最多 20 個字
+function truncateLabel(label: string): string {
+  return label.length > 20 ? label.slice(0, 19) + '…' : label;
+}
+
+/**
+ * 多選一的確認按鈕：只有一個候選時為「確定 / 取消」，多個時為每個候選的編號、全部與取消。
+ * @param labels 每個候選項目的名稱
+ * @param actionLabel 要對候選項目進行的動作，例如 '刪除'
+ * @param allowAll 是否提供「全部」按鈕，只能選一個時設為 false
+ */
+export function buildChoiceButtons(state: ConversationState, labels: string[], actionLabel: string, allowAll: boolean = true): QuickReplyButton[] {
+  const cancelButton: QuickReplyButton = { label: '❌ 取消', data: encodePostback(state, { type: 'cancel' }), displayText: '取消' };
+  if (labels.length === 1) {
+    return [
+      { label: `✅ 確定${actionLabel}`, data: encodePostback(state, { type: 'confirm' }), displayText: '是' },
+      cancelButton,
+    ];
+  }
+
+  // LINE 最多 13 個快速回覆按鈕，保留兩個給「全部」和「取消」
+  const itemButtons = labels.slice(0, 11).map((label, index): QuickReplyButton => ({
+    label: truncateLabel(`${index + 1}. ${label}`),
+    data: encodePostback(state, { type: 'select', index }),
+    displayText: `${index + 1}`,
+  }));
+  if (!allowAll) {
+    return [...itemButtons, cancelButton];
+  }
+  return [
+    ...itemButtons,
+    { label: truncateLabel(`全部${actionLabel}`), data: encodePostback(state, { type: 'all' }), displayText: '全部' },
+    cancelButton,
+  ];
+}
+
+/**
+ * 解析按鈕帶回的 postback data，格式不正確時回傳 null。
+ */
+export function decodePostback(data: string): PostbackPayload | null {
+  const params = new URLSearchParams(data);
+  const stateId = params.get('sid');
+  const type = params.get('choice');
+  if (!stateId) {
+    return null;
+  }
+
+  switch (type) {
+    case 'confirm':
+    case 'cancel':
+    case 'all':
+      return { stateId, choice: { type } };
+    case 'select': {
+      const index = Number(params.get('index'));
+      return Number.isInteger(index) && index >= 0 ? { stateId, choice: { type, index } } : null;
+    }
+    case 'grade': {
+      const grade = params.get('grade');
+      return grade === 'again' || grade === 'hard' || grade === 'good' || grade === 'easy'
+        ? { stateId, choice: { type, grade } }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
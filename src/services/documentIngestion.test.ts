@@ -0,0 +1,63 @@
+// src/services/documentIngestion.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { dedupePlanEvents, getDocumentPages, isFileTooLarge, isPdfFile } from './documentIngestion';
+
+describe('dedupePlanEvents', () => {
+  test('同一天、名稱只差在大小寫或標點的活動只保留一個', () => {
+    const plan = dedupePlanEvents([
+      { summary: 'HW1 截止', date: '2025-09-15' },
+      { summary: 'hw1截止！', date: '2025-09-15' },
+      { summary: 'HW1 截止', date: '2025-09-22' },
+    ]);
+    assert.deepEqual(plan, [
+      { summary: 'HW1 截止', date: '2025-09-15' },
+      { summary: 'HW1 截止', date: '2025-09-22' },
+    ]);
+  });
+
+  test('重複的活動中有開始時間的優先', () => {
+    const plan = dedupePlanEvents([
+      { summary: '期中考', date: '2025-10-20', location: 'R101' },
+      { summary: '期中考', startTime: '2025-10-20T10:00:00+08:00' },
+    ]);
+    assert.deepEqual(plan, [
+      { summary: '期中考', date: '2025-10-20', location: 'R101', startTime: '2025-10-20T10:00:00+08:00' },
+    ]);
+  });
+
+  test('略過沒有名稱或沒有日期的活動，並依日期排序', () => {
+    const plan = dedupePlanEvents([
+      { summary: '期末報告', date: '2025-12-20' },
+      { summary: '', date: '2025-09-01' },
+      { summary: '助教時間' },
+      { summary: '開學', startTime: '2025-09-01T09:00:00+08:00' },
+    ]);
+    assert.deepEqual(plan.map(event => event.summary), ['開學', '期末報告']);
+  });
+});
+
+describe('getDocumentPages', () => {
+  test('取出合併後的所有頁面', () => {
+    const items = [{ messageId: '1', mimeType: 'image/jpeg' }, { messageId: '2', mimeType: 'application/pdf', fileName: 'syllabus.pdf' }];
+    assert.deepEqual(getDocumentPages({ items }), items);
+  });
+
+  test('相容只有單張圖片的舊格式', () => {
+    assert.deepEqual(getDocumentPages({ messageId: '1' }), [{ messageId: '1', mimeType: 'image/jpeg' }]);
+    assert.deepEqual(getDocumentPages({}), []);
+  });
+});
+
+describe('檔案檢查', () => {
+  test('只接受 .pdf 副檔名', () => {
+    assert.equal(isPdfFile('Syllabus.PDF'), true);
+    assert.equal(isPdfFile('notes.docx'), false);
+  });
+
+  test('超過 20MB 的檔案無法分析', () => {
+    assert.equal(isFileTooLarge('20971520'), false);
+    assert.equal(isFileTooLarge(20 * 1024 * 1024 + 1), true);
+  });
+});
@@ -0,0 +1,83 @@
+// src/services/documentIngestion.ts
+
+import { normalizeText } from '../utils/fuzzyMatch';
+import { PlanEvent } from '../types';
+
+// --- 多頁文件 ---
+// 課程大綱常常是一份 PDF，或是連續拍的好幾張照片。
+// 使用者在短時間內傳來的圖片與 PDF 會合併成同一個分析工作，一次交給 AI 讀完所有頁面，
+// 再把各頁找到的截止日期去除重複，整理成一份計畫草稿。
+
+// Gemini 的 inline 檔案上限約為 20MB
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// 分析工作中的一頁：LINE 訊息中的圖片或 PDF 檔案
+export interface DocumentPage {
+  messageId: string;
+  mimeType: 'image/jpeg' | 'application/pdf';
+  fileName?: string;
+}
+
+export interface DocumentBatchOptions {
+  windowMs: number;    // 最後一頁送來後再等多久才開始分析
+  maxPages: number;    // 一次分析最多的頁數 (一份 PDF 算一頁)
+}
+
+/**
+ * 從環境變數讀取多頁文件的收集設定。
+ */
+export function getDocumentBatchOptions(): DocumentBatchOptions {
+  return {
+    windowMs: parseInt(process.env.DOCUMENT_BATCH_WINDOW_MS || '10000', 10),
+    maxPages: parseInt(process.env.DOCUMENT_BATCH_MAX_PAGES || '10', 10),
+  };
+}
+
+/**
+ * 檔案是否為可以分析的 PDF。
+ */
+export function isPdfFile(fileName: string): boolean {
+  return /\.pdf$/i.test(fileName.trim());
+}
+
+/**
+ * 檔案是否超過能交給 AI 分析的大小。
+ * @param fileSize LINE 提供的檔案大小 (bytes)
+ */
+export function isFileTooLarge(fileSize: string | number): boolean {
+  return Number(fileSize) > MAX_FILE_BYTES;
+}
+
+/**
+ * 取出分析工作中的所有頁面，相容只有單張圖片的舊格式 ({ messageId })。
+ */
+export function getDocumentPages(payload: any): DocumentPage[] {
+  if (Array.isArray(payload?.items)) {
+    return payload.items;
+  }
+  return payload?.messageId ? [{ messageId: payload.messageId, mimeType: 'image/jpeg' }] : [];
+}
+
+/**
+ * 整理從多頁文件中找到的活動：
+ * - 只保留有名稱且有日期 (或開始時間) 的活動
+ * - 同一天、名稱相同 (忽略大小寫、空白與標點) 的活動只保留第一個，有開始時間的優先
+ * - 依日期排序
+ */
+export function dedupePlanEvents(plan: PlanEvent[]): PlanEvent[] {
+  const dayOf = (event: PlanEvent) => event.date || event.startTime?.slice(0, 10) || '';
+  const unique = new Map<string, PlanEvent>();
+
+  for (const event of plan) {
+    if (!event.summary || !dayOf(event)) {
+      continue;
+    }
+    const key = `${dayOf(event)}|${normalizeText(event.summary)}`;
+    const existing = unique.get(key);
+    if (!existing || (!existing.startTime && event.startTime)) {
+      unique.set(key, existing ? { ...existing, startTime: event.startTime } : event);
+    }
+  }
+
+  return [...unique.values()].sort((a, b) => dayOf(a).localeCompare(dayOf(b)));
+}
@@ -0,0 +1,72 @@
+// src/services/eventConflicts.test.ts
+
+import { afterEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findConflicts, getCreateEventMinConfidence, isLowConfidence } from './eventConflicts';
+import { PendingEvent } from '../types';
+
+// 新行程：台北時間 14:00-15:00
+const pending: PendingEvent = {
+  summary: '開會',
+  start: '2025-09-01T14:00:00+08:00',
+  end: '2025-09-01T15:00:00+08:00',
+};
+
+function timed(summary: string, start: string, end: string, extra: any = {}) {
+  return { summary, start: { dateTime: `2025-09-01T${start}:00+08:00` }, end: { dateTime: `2025-09-01T${end}:00+08:00` }, ...extra };
+}
+
+describe('findConflicts', () => {
+  test('時間重疊的行程算衝突', () => {
+    const conflicts = findConflicts([timed('讀書會', '13:30', '14:30'), timed('家教', '14:15', '14:45'), timed('整天的課', '09:00', '18:00')], pending);
+    assert.deepEqual(conflicts.map(conflict => conflict.summary), ['讀書會', '家教', '整天的課']);
+    assert.deepEqual(conflicts[0], { summary: '讀書會', start: '2025-09-01T13:30:00+08:00', end: '2025-09-01T14:30:00+08:00' });
+  });
+
+  test('只是頭尾相接不算衝突', () => {
+    assert.deepEqual(findConflicts([timed('午餐', '13:00', '14:00'), timed('下課', '15:00', '16:00')], pending), []);
+  });
+
+  test('全天、標示為「有空」與已取消的行程不算衝突', () => {
+    const events = [
+      { summary: '生日', start: { date: '2025-09-01' }, end: { date: '2025-09-02' } },
+      timed('自習 (有空)', '14:00', '15:00', { transparency: 'transparent' }),
+      timed('已取消', '14:00', '15:00', { status: 'cancelled' }),
+    ];
+    assert.deepEqual(findConflicts(events, pending), []);
+  });
+
+  test('沒有標題的行程以 (無標題) 顯示', () => {
+    const { summary, ...untitled } = timed('', '14:00', '15:00');
+    assert.equal(findConflicts([untitled], pending)[0].summary, '(無標題)');
+  });
+});
+
+describe('信心門檻', () => {
+  afterEach(() => {
+    delete process.env.CREATE_EVENT_MIN_CONFIDENCE;
+    mock.restoreAll();
+  });
+
+  test('預設為 0.6，可以用環境變數調整', () => {
+    assert.equal(getCreateEventMinConfidence(), 0.6);
+    process.env.CREATE_EVENT_MIN_CONFIDENCE = '0.8';
+    assert.equal(getCreateEventMinConfidence(), 0.8);
+  });
+
+  test('設定錯誤時使用預設值，不會關閉確認', () => {
+    mock.method(console, 'warn', () => {});
+    for (const value of ['abc', '1.5', '-1']) {
+      process.env.CREATE_EVENT_MIN_CONFIDENCE = value;
+      assert.equal(getCreateEventMinConfidence(), 0.6, value);
+    }
+    process.env.CREATE_EVENT_MIN_CONFIDENCE = 'abc';
+    assert.equal(isLowConfidence(0.5), true);
+  });
+
+  test('信心低於門檻時需要確認，沒有提供信心時不需要', () => {
+    assert.equal(isLowConfidence(0.59), true);
+    assert.equal(isLowConfidence(0.6), false);
+    assert.equal(isLowConfidence(undefined), false);
+  });
+});
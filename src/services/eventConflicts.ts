@@ -0,0 +1,57 @@
+// src/services/eventConflicts.ts
+
+import { PendingEvent } from '../types';
+
+// --- 新增單一行程前的確認 ---
+// 使用者說「明天下午兩點開會」時，先檢查這段時間行事曆上是否已經有其他行程；
+// 時間重疊，或 AI 對自己的解析沒有把握時，先請使用者確認，而不是直接寫進行事曆。
+
+// 幫衝突的行程找替代時段時，往後找的天數
+export const SUGGESTION_HORIZON_DAYS = 7;
+
+// 信心門檻沒有設定或設定錯誤時使用的預設值
+const DEFAULT_CREATE_EVENT_MIN_CONFIDENCE = 0.6;
+
+// 與新行程時間重疊的既有行程
+export interface EventConflict {
+  summary: string;
+  start: string;   // ISO 8601
+  end: string;
+}
+
+/**
+ * AI 的解析信心低於這個值 (CREATE_EVENT_MIN_CONFIDENCE，預設 0.6) 時，新增行程前要先確認。
+ * 設定的不是 0 到 1 之間的數字時使用預設值，避免確認被意外關閉。
+ */
+export function getCreateEventMinConfidence(): number {
+  const value = parseFloat(process.env.CREATE_EVENT_MIN_CONFIDENCE || String(DEFAULT_CREATE_EVENT_MIN_CONFIDENCE));
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    console.warn(`⚠️ CREATE_EVENT_MIN_CONFIDENCE 設定錯誤 (${process.env.CREATE_EVENT_MIN_CONFIDENCE})，使用預設值 ${DEFAULT_CREATE_EVENT_MIN_CONFIDENCE}`);
+    return DEFAULT_CREATE_EVENT_MIN_CONFIDENCE;
+  }
+  return value;
+}
+
+/**
+ * AI 對新增行程的解析是否沒有把握，需要先請使用者確認。
+ * @param confidence AI 回傳的信心 (0-1)，沒有提供時視為有把握
+ */
+export function isLowConfidence(confidence: number | undefined): boolean {
+  return confidence !== undefined && confidence < getCreateEventMinConfidence();
+}
+
+/**
+ * 找出與新行程時間重疊的既有行程。
+ * 全天行程 (例如節日、生日) 與標示為「有空」的行程不會占用時間，不算衝突。
+ * @param events 查詢新行程時段內的既有行程
+ */
+export function findConflicts(events: any[], pending: PendingEvent): EventConflict[] {
+  const start = new Date(pending.start).getTime();
+  const end = new Date(pending.end).getTime();
+
+  return events
+    .filter(event => event.start?.dateTime && event.end?.dateTime)
+    .filter(event => event.status !== 'cancelled' && event.transparency !== 'transparent')
+    .filter(event => new Date(event.start.dateTime).getTime() < end && new Date(event.end.dateTime).getTime() > start)
+    .map(event => ({ summary: event.summary || '(無標題)', start: event.start.dateTime, end: event.end.dateTime }));
+}
@@ -0,0 +1,77 @@
+// src/services/eventDetails.ts
+
+import { EventDetails } from '../types';
+
+// --- 行程的詳細資訊 ---
+// 新增行程時，除了標題與時間，也會把地點、說明、參加者與通知一起寫進 Google Calendar。
+// 使用者傳送 LINE 的位置訊息時，會設為最近新增或修改的那個行程的地點。
+
+// Google Calendar 每個行程最多 5 個自訂通知，最早只能在 4 週前通知
+export const MAX_EVENT_REMINDERS = 5;
+export const MAX_REMINDER_MINUTES = 4 * 7 * 24 * 60;
+
+// LINE 位置訊息帶有的資訊
+export interface SharedLocation {
+  title?: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 將行程的詳細資訊轉成 Google Calendar 事件的欄位，只包含有提供的部分。
+ * 有自訂通知時改用這些通知，不再套用行事曆的預設通知。
+ */
+export function buildEventDetailFields(details: EventDetails): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (details.location) {
+    fields.location = details.location;
+  }
+  if (details.description) {
+    fields.description = details.description;
+  }
+  if (details.attendees?.length) {
+    fields.attendees = [...new Set(details.attendees)].map(email => ({ email }));
+  }
+  if (details.reminderMinutes?.length) {
+    const minutes = [...new Set(details.reminderMinutes)].sort((a, b) => a - b).slice(0, MAX_EVENT_REMINDERS);
+    fields.reminders = { useDefault: false, overrides: minutes.map(value => ({ method: 'popup', minutes: value })) };
+  }
+  return fields;
+}
+
+/**
+ * 從 Google Calendar 事件取出詳細資訊。使用行事曆預設通知的行程不列出通知。
+ */
+export function getEventDetails(event: any): EventDetails {
+  const details: EventDetails = {};
+  if (event.location) {
+    details.location = event.location;
+  }
+  if (event.description) {
+    details.description = event.description;
+  }
+  // 行程的建立者 (使用者本人) 也會出現在參加者中，不需要列出
+  const attendees = (event.attendees || []).filter((attendee: any) => attendee.email && !attendee.self);
+  if (attendees.length > 0) {
+    details.attendees = attendees.map((attendee: any) => attendee.email);
+  }
+  const popups = event.reminders?.useDefault ? [] : (event.reminders?.overrides || []).filter((reminder: any) => reminder.method === 'popup');
+  if (popups.length > 0) {
+    details.reminderMinutes = popups.map((reminder: any) => reminder.minutes);
+  }
+  return details;
+}
+
+/**
+ * 將位置訊息轉成行程的地點，例如「國立臺灣大學, 106台灣台北市大安區羅斯福路四段1號」。
+ * 在地圖上隨意選的點沒有名稱與地址，改用經緯度。
+ */
+export function formatSharedLocation(location: SharedLocation): string {
+  const title = location.title?.trim();
+  const address = location.address?.trim();
+  if (title && address) {
+    return address.includes(title) ? address : `${title}, ${address}`;
+  }
+  return title || address || `${location.latitude}, ${location.longitude}`;
+}
@@ -0,0 +1,128 @@
+// src/services/flashcardReview.ts
+
+import { getDefaultTimeZone, toZonedDateString } from '../utils/dateUtils';
+import { withQuickReplies } from '../utils/flexRenderer';
+import { BotReply, FlashcardGrade, FlashcardRef, QuickReplyButton } from '../types';
+import { FlashcardReviewState, createState, encodePostback } from './conversationState';
+import { CardSchedule, isCardDue, scheduleCard } from './spacedRepetition';
+import { KnowledgeNote, StorageService } from './storageService';
+
+// --- 每日卡片複習 ---
+// 筆記中的 flashcards 會依照 SM-2 排程，每天把到期的卡片整理成一輪複習，
+// 一次出一題：先看題目，再看答案，最後由使用者自我評分決定下次複習的日期。
+
+const GRADE_OPTIONS: { grade: FlashcardGrade; label: string; terms: string[] }[] = [
+  { grade: 'again', label: '😵 忘了', terms: ['again', '忘了', '忘記', '不會', '1'] },
+  { grade: 'hard', label: '😓 困難', terms: ['hard', '困難', '有點難', '2'] },
+  { grade: 'good', label: '🙂 記得', terms: ['good', '記得', '普通', '3'] },
+  { grade: 'easy', label: '😎 簡單', terms: ['easy', '簡單', '太簡單', '4'] },
+];
+
+/**
+ * 每輪複習最多的卡片數 (FLASHCARD_DAILY_LIMIT，預設 20 張)。
+ */
+export function getFlashcardDailyLimit(): number {
+  return parseInt(process.env.FLASHCARD_DAILY_LIMIT || '20', 10);
+}
+
+/**
+ * 今天的日期，卡片的排程都以使用者所在的時區計算。
+ */
+export function getReviewDate(now: Date = new Date(), timeZone: string = getDefaultTimeZone()): string {
+  return toZonedDateString(now, timeZone);
+}
+
+/**
+ * 從使用者的所有筆記中挑出今天要複習的卡片：已到期的卡片依到期日排在前面，沒複習過的新卡片排在後面。
+ */
+export function collectDueCards(notes: KnowledgeNote[], today: string, limit: number): FlashcardRef[] {
+  const dueCards: { ref: FlashcardRef; due: string }[] = [];
+
+  for (const note of notes) {
+    const flashcards = note.data.flashcards || [];
+    flashcards.forEach((card, cardIndex) => {
+      if (!isCardDue(card.review, today)) {
+        return;
+      }
+      dueCards.push({
+        ref: { noteId: note.note_id, cardIndex, question: card.question, answer: card.answer },
+        // 新卡片沒有到期日，排在所有已到期的卡片之後
+        due: card.review?.due ?? '9999-12-31',
+      });
+    });
+  }
+
+  return dueCards
+    .sort((a, b) => a.due.localeCompare(b.due))
+    .slice(0, limit)
+    .map(card => card.ref);
+}
+
+/**
+ * 把使用者今天要複習的卡片整理成一輪複習，並讓使用者進入等待評分的狀態。
+ * @returns 第一張卡片的題目；沒有到期的卡片時回傳 null
+ */
+export async function startFlashcardReview(storageService: StorageService, rowNumber: number, userId: number): Promise<BotReply | null> {
+  const notes = await storageService.getKnowledgeNotesByUserId(userId);
+  const cards = collectDueCards(notes, getReviewDate(), getFlashcardDailyLimit());
+  if (cards.length === 0) {
+    return null;
+  }
+
+  const state = createState('waiting_flashcard_grade', { cards, current: 0, revealed: false });
+  await storageService.setUserState(rowNumber, state);
+  return [`📚 今天有 ${cards.length} 張卡片要複習，我們一張一張來！`, ...[formatCardQuestion(state)].flat()];
+}
+
+/**
+ * 將使用者的評分套用到卡片上，更新存放在筆記中的排程。
+ * @returns 新的排程；筆記或卡片已不存在時回傳 null
+ */
+export async function gradeFlashcard(storageService: StorageService, card: FlashcardRef, grade: FlashcardGrade): Promise<CardSchedule | null> {
+  const knowledgeData = await storageService.getKnowledgeNoteById(card.noteId);
+  const flashcard = knowledgeData?.flashcards?.[card.cardIndex];
+  if (!flashcard) {
+    console.error(`[Flashcard] 找不到筆記 #${card.noteId} 的第 ${card.cardIndex + 1} 張卡片`);
+    return null;
+  }
+
+  flashcard.review = scheduleCard(flashcard.review, grade, getReviewDate());
+  await storageService.updateKnowledgeNoteData(card.noteId, knowledgeData);
+  return flashcard.review;
+}
+
+/**
+ * 從使用者的文字回覆中辨識評分，例如 "記得"、"3" 或 "good"。
+ */
+export function parseFlashcardGrade(message: string): FlashcardGrade | null {
+  const text = message.trim().toLowerCase();
+  const option = GRADE_OPTIONS.find(option => option.terms.includes(text));
+  return option ? option.grade : null;
+}
+
+export function formatCardQuestion(state: FlashcardReviewState): BotReply {
+  const card = state.cards[state.current];
+  const text = `🃏 第 ${state.current + 1} / ${state.cards.length} 張\n\n❓ ${card.question}\n\n想好答案後，按「顯示答案」或直接回覆您的答案。`;
+  return withQuickReplies(text, [
+    { label: '👀 顯示答案', data: encodePostback(state, { type: 'confirm' }), displayText: '顯示答案' },
+    stopButton(state),
+  ]);
+}
+
+export function formatCardAnswer(state: FlashcardReviewState): BotReply {
+  const card = state.cards[state.current];
+  const text = `💡 答案：\n${card.answer}\n\n您記得多少呢？請選擇：忘了 / 困難 / 記得 / 簡單`;
+  return withQuickReplies(text, [...gradeButtons(state), stopButton(state)]);
+}
+
+function gradeButtons(state: FlashcardReviewState): QuickReplyButton[] {
+  return GRADE_OPTIONS.map(option => ({
+    label: option.label,
+    data: encodePostback(state, { type: 'grade', grade: option.grade }),
+    displayText: option.label,
+  }));
+}
+
+function stopButton(state: FlashcardReviewState): QuickReplyButton {
+  return { label: '⏹️ 結束複習', data: encodePostback(state, { type: 'cancel' }), displayText: '結束複習' };
+}
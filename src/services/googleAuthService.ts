@@ -0,0 +1,185 @@
+// src/services/googleAuthService.ts
+
+import { google } from 'googleapis';
+import { OAuth2Client } from 'google-auth-library';
+import * as crypto from 'crypto';
+
+// 使用者連結 Google 帳號時要求的權限 (只需要行事曆)
+const USER_SCOPES = ['https://www.googleapis.com/auth/calendar'];
+
+// 連結網址的有效期限：1 小時
+const STATE_TTL_MS = 60 * 60 * 1000;
+
+// 從點擊連結到完成 Google 授權的期限：10 分鐘
+const AUTH_SESSION_TTL_MS = 10 * 60 * 1000;
+
+// 記錄在瀏覽器 cookie 中的一次性 nonce，callback 時必須與 state 對應
+export const AUTH_NONCE_COOKIE = 'google_oauth_nonce';
+
+// 進行中的授權流程，以送給 Google 的 state 為鍵
+interface PendingAuth {
+  lineUserId: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+const pendingAuths = new Map<string, PendingAuth>();
+
+/**
+ * 處理 Google OAuth 相關的邏輯：
+ * - 產生每位 LINE 使用者專屬的授權連結
+ * - 驗證 callback 帶回來的 state，避免被偽造，並確認是同一個瀏覽器完成授權
+ * - 用使用者的 refresh token 建立專屬的 OAuth2 客戶端
+ */
+export class GoogleAuthService {
+  /**
+   * OAuth callback 的完整網址，必須與 Google Cloud Console 中設定的一致。
+   */
+  static getRedirectUri(): string {
+    return `${process.env.PUBLIC_BASE_URL}/auth/google/callback`;
+  }
+
+  private static createBaseClient(): OAuth2Client {
+    return new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID!,
+      process.env.GOOGLE_CLIENT_SECRET!,
+      this.getRedirectUri()
+    );
+  }
+
+  /**
+   * 建立應用程式層級的認證物件 (給 Google Sheets 儲存後端使用)。
+   * 如果有設定 GOOGLE_REFRESH_TOKEN，就使用它作為 Sheet 擁有者的憑證。
+   */
+  static createAppAuthClient(): OAuth2Client {
+    const auth = this.createBaseClient();
+    if (process.env.GOOGLE_REFRESH_TOKEN) {
+      auth.setCredentials({
+        access_token: process.env.GOOGLE_ACCESS_TOKEN,
+        refresh_token: process.env.GOOGLE_REFRESH_TOKEN
+      });
+    }
+    return auth;
+  }
+
+  /**
+   * 用使用者儲存的 refresh token 建立專屬的 OAuth2 客戶端。
+   */
+  static createUserAuthClient(refreshToken: string): OAuth2Client {
+    const auth = this.createBaseClient();
+    auth.setCredentials({ refresh_token: refreshToken });
+    return auth;
+  }
+
+  /**
+   * 為某位 LINE 使用者產生「開始連結」的網址，這個網址會放在聊天訊息中。
+   */
+  static buildStartUrl(lineUserId: string): string {
+    const state = this.signState(lineUserId);
+    return `${process.env.PUBLIC_BASE_URL}/auth/google/start?state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * 使用者點擊連結後，開始一次授權流程。
+   * 產生一次性的 state 送給 Google，以及要存進瀏覽器 cookie 的 nonce；
+   * callback 時兩者必須對應，才能確認是點擊連結的同一個瀏覽器完成授權。
+   */
+  static beginAuthSession(lineUserId: string): { state: string; nonce: string; maxAgeMs: number } {
+    const now = Date.now();
+    for (const [state, pending] of pendingAuths) {
+      if (pending.expiresAt <= now) {
+        pendingAuths.delete(state);
+      }
+    }
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    pendingAuths.set(state, { lineUserId, nonce, expiresAt: now + AUTH_SESSION_TTL_MS });
+    return { state, nonce, maxAgeMs: AUTH_SESSION_TTL_MS };
+  }
+
+  /**
+   * 驗證 callback 帶回來的 state 與瀏覽器 cookie 中的 nonce。
+   * 每個 state 只能使用一次，無論驗證是否成功都會失效。
+   * @returns 驗證成功時回傳 LINE 使用者 ID，否則回傳 null
+   */
+  static consumeAuthSession(state: string, nonce: string | undefined): string | null {
+    const pending = pendingAuths.get(state);
+    if (!pending) {
+      return null;
+    }
+    pendingAuths.delete(state);
+
+    if (!nonce || pending.expiresAt <= Date.now()) {
+      return null;
+    }
+    const isValid = pending.nonce.length === nonce.length &&
+      crypto.timingSafeEqual(Buffer.from(pending.nonce), Buffer.from(nonce));
+    return isValid ? pending.lineUserId : null;
+  }
+
+  /**
+   * 產生 Google 的授權頁面網址。
+   * 使用 prompt: 'consent' 確保每次都能拿到 refresh token。
+   */
+  static generateAuthUrl(state: string): string {
+    return this.createBaseClient().generateAuthUrl({
+      access_type: 'offline',
+      scope: USER_SCOPES,
+      prompt: 'consent',
+      state: state
+    });
+  }
+
+  /**
+   * 用 callback 拿到的授權碼換取 refresh token。
+   */
+  static async exchangeCodeForRefreshToken(code: string): Promise<string> {
+    const { tokens } = await this.createBaseClient().getToken(code);
+    if (!tokens.refresh_token) {
+      throw new Error('Google 沒有回傳 refresh token，請移除應用程式授權後再試一次。');
+    }
+    return tokens.refresh_token;
+  }
+
+  /**
+   * 驗證聊天訊息中連結的簽章與有效期限。
+   * @returns 驗證成功時回傳 LINE 使用者 ID，否則回傳 null
+   */
+  static verifyState(state: string): string | null {
+    const [lineUserId, issuedAt, signature] = state.split('.');
+    if (!lineUserId || !issuedAt || !signature) {
+      return null;
+    }
+
+    const expected = this.sign(`${lineUserId}.${issuedAt}`);
+    const isValid = expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+    if (!isValid) {
+      return null;
+    }
+
+    if (Date.now() - parseInt(issuedAt, 10) > STATE_TTL_MS) {
+      return null;
+    }
+    return lineUserId;
+  }
+
+  /**
+   * 判斷錯誤是否代表使用者的授權已失效 (例如在 Google 帳號中撤銷了權限)。
+   */
+  static isAuthRevokedError(error: any): boolean {
+    const message = error?.response?.data?.error || error?.message || '';
+    return String(message).includes('invalid_grant');
+  }
+
+  private static signState(lineUserId: string): string {
+    const payload = `${lineUserId}.${Date.now()}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private static sign(payload: string): string {
+    const secret = process.env.OAUTH_STATE_SECRET || process.env.LINE_CHANNEL_SECRET!;
+    return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+  }
+}
@@ -2,24 +2,12 @@
 
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { KnowledgeNote, KnowledgeNoteData, LearningObjective, parseKnowledgeNoteData, NoteSourceType, ObjectiveChanges, StorageService, User, UserContext, UserSettings } from './storageService';
 
-// 定義 User 物件的型別，方便後續使用
-export interface User {
-  id: number;
-  line_user_id: string;
-  state_json: string | null;
-}
-
-export interface LearningObjective {
-  objective_id: number;
-  user_id: number;
-  title: string;
-  status: 'In Progress' | 'Completed' | 'On Hold';
-  due_date: string | null;
-  gcal_event_ids: string | null;
-}
-
-export class GoogleSheetService {
+// Google Sheets 單一儲存格最多 50,000 個字元，超過時整列都會寫入失敗
+const SHEET_CELL_MAX_LENGTH = 50000;
+
+export class GoogleSheetService implements StorageService {
   private sheets;
   private spreadsheetId = process.env.GOOGLE_SHEET_ID!;
 
@@ -91,12 +79,41 @@ export class GoogleSheetService {
       console.error(`[DB] 關聯失敗：找不到目標 #${objectiveId}`);
     }
 
+  /**
+   * 行程被重新建立後，把學習目標記錄的舊事件 ID 換成新的 ID，讓 F 欄保持正確。
+   */
+  async replaceObjectiveEventId(objectiveId: number, oldEventId: string, newEventId: string): Promise<void> {
+    const range = 'LearningObjectives!A:F';
+    const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
+    const rows = response.data.values || [];
+
+    for (let i = 1; i < rows.length; i++) {
+      if (parseInt(rows[i][0]) === objectiveId) {
+        const eventIds: string[] = (rows[i][5] || '').split(',').filter((id: string) => id);
+        const newEventIds = eventIds.includes(oldEventId)
+          ? eventIds.map(id => id === oldEventId ? newEventId : id)
+          : [...eventIds, newEventId];
+
+        await this.sheets.spreadsheets.values.update({
+          spreadsheetId: this.spreadsheetId,
+          range: `LearningObjectives!F${i + 1}`,
+          valueInputOption: 'RAW',
+          requestBody: { values: [[newEventIds.join(',')]] },
+        });
+
+        console.log(`[DB] 已將目標 #${objectiveId} 的事件 ${oldEventId} 更新為 ${newEventId}`);
+        return;
+      }
+    }
+    console.error(`[DB] 更新事件關聯失敗：找不到目標 #${objectiveId}`);
+  }
+
   /**
    * 根據 line_user_id 尋找或建立一個使用者。
    * @returns 回傳包含列號和使用者資料的物件。
    */
-  async findOrCreateUser(lineUserId: string): Promise<{ rowNumber: number; user: User }> {
-    const range = 'Users!A:D'; // 讀取 Users 分頁的 A 到 D 欄
+  async findOrCreateUser(lineUserId: string): Promise<UserContext> {
+    const range = 'Users!A:F'; // 讀取 Users 分頁的 A 到 F 欄
     const response = await this.sheets.spreadsheets.values.get({
       spreadsheetId: this.spreadsheetId,
       range: range,
@@ -109,7 +126,7 @@ export class GoogleSheetService {
         console.log(`[DB] 找到使用者: ${lineUserId} at row ${i + 1}`);
         return {
           rowNumber: i + 1,
-          user: { id: parseInt(rows[i][0]), line_user_id: rows[i][1], state_json: rows[i][3] || null },
+          user: { id: parseInt(rows[i][0]), line_user_id: rows[i][1], state_json: rows[i][3] || null, google_refresh_token: rows[i][4] || null, settings_json: rows[i][5] || null },
         };
       }
     }
@@ -117,7 +134,7 @@ export class GoogleSheetService {
     // 沒找到，新增使用者
     console.log(`[DB] 新使用者，建立中: ${lineUserId}`);
     const newUserId = rows.length; // 用目前的行數當作簡單的 ID
-    const newRow = [[newUserId, lineUserId, new Date().toISOString(), '']];
+    const newRow = [[newUserId, lineUserId, new Date().toISOString(), '', '', '']];
     const newRowNumber = rows.length + 1;
 
     await this.sheets.spreadsheets.values.append({
@@ -129,7 +146,7 @@ export class GoogleSheetService {
 
     return {
       rowNumber: newRowNumber,
-      user: { id: newUserId, line_user_id: lineUserId, state_json: null },
+      user: { id: newUserId, line_user_id: lineUserId, state_json: null, google_refresh_token: null, settings_json: null },
     };
   }
   
@@ -152,13 +169,47 @@ export class GoogleSheetService {
     });
   }
 
+  /**
+   * 儲存使用者連結的 Google 帳號 refresh token
+   * @param rowNumber 使用者在 Users 分頁中的列號
+   * @param refreshToken 要儲存的 refresh token，null 代表解除連結
+   */
+  async setUserGoogleToken(rowNumber: number, refreshToken: string | null): Promise<void> {
+    await this.sheets.spreadsheets.values.update({
+      spreadsheetId: this.spreadsheetId,
+      range: `Users!E${rowNumber}`, // 目標是 E 欄 (google_refresh_token)
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [[refreshToken || '']],
+      },
+    });
+  }
+
+  /**
+   * 儲存使用者的個人偏好設定 (例如行程提醒)
+   * @param rowNumber 使用者在 Users 分頁中的列號
+   * @param settings 完整的設定物件，會覆寫原本的設定
+   */
+  async setUserSettings(rowNumber: number, settings: UserSettings): Promise<void> {
+    await this.sheets.spreadsheets.values.update({
+      spreadsheetId: this.spreadsheetId,
+      range: `Users!F${rowNumber}`, // 目標是 F 欄 (settings_json)
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [[JSON.stringify(settings)]],
+      },
+    });
+  }
+
   /**
      * ✨ 新增：將分析後的知識筆記存入 Sheet
      * @param userId 我們資料庫中的使用者 ID
-     * @param knowledgeData 從 AI 分析圖片後得到的完整 JSON 物件
+     * @param knowledgeData 從 AI 分析圖片或文字後得到的完整 JSON 物件
+     * @param sourceType 筆記的來源：'image'、'text' 或 'url'
+     * @param rawContent 原始內容 (貼上的文字或網址)，沒有時用 source 標題代替
      * @returns 成功存入後，該筆記的新 ID
      */
-    async saveKnowledgeNote(userId: number, knowledgeData: any): Promise<number> {
+    async saveKnowledgeNote(userId: number, knowledgeData: KnowledgeNoteData, sourceType: NoteSourceType, rawContent?: string): Promise<number> {
         const range = 'KnowledgeNotes!A:F'; // 目標是 KnowledgeNotes 分頁
         
         // 取得目前的行數，用來當作簡單的 note_id
@@ -169,15 +220,15 @@ export class GoogleSheetService {
             noteId,                       // A: note_id
             userId,                       // B: user_id
             null,                         // C: objective_id (暫時留空)
-            'image',                      // D: source_type
-            knowledgeData.source || '',   // E: raw_content (用 source 標題代替)
+            sourceType,                   // D: source_type
+            (rawContent ?? (knowledgeData.source || '')).slice(0, SHEET_CELL_MAX_LENGTH), // E: raw_content
             JSON.stringify(knowledgeData) // F: structured_data_json (儲存完整的 JSON)
         ];
 
         await this.sheets.spreadsheets.values.append({
             spreadsheetId: this.spreadsheetId,
             range: range,
-            valueInputOption: 'USER_ENTERED',
+            valueInputOption: 'RAW', // 使用者貼上的內容可能以 = 開頭，不能被當成公式執行
             requestBody: { values: [newRow] },
         });
 
@@ -213,7 +264,7 @@ export class GoogleSheetService {
      * @param noteId 筆記的 ID
      * @returns 包含筆記資料的物件，或在找不到時回傳 null
      */
-    async getKnowledgeNoteById(noteId: number): Promise<any | null> {
+    async getKnowledgeNoteById(noteId: number): Promise<KnowledgeNoteData | null> {
         const range = 'KnowledgeNotes!A:F';
         const response = await this.sheets.spreadsheets.values.get({
             spreadsheetId: this.spreadsheetId,
@@ -226,7 +277,7 @@ export class GoogleSheetService {
             if (parseInt(rows[i][0]) === noteId) {
                 console.log(`[DB] 成功讀取筆記，ID: ${noteId}`);
                 // 回傳 F 欄的結構化 JSON，並解析它
-                return JSON.parse(rows[i][5]); 
+                return parseKnowledgeNoteData(rows[i][5]);
             }
         }
         
@@ -234,11 +285,66 @@ export class GoogleSheetService {
         return null; // 找不到
     }
 
+    /**
+     * 讀取某位使用者的所有知識筆記，依建立順序排列
+     * @param userId 我們資料庫中的使用者 ID
+     */
+    async getKnowledgeNotesByUserId(userId: number): Promise<KnowledgeNote[]> {
+        const range = 'KnowledgeNotes!A:F';
+        const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
+        const rows = response.data.values || [];
+        const notes: KnowledgeNote[] = [];
+
+        for (let i = 1; i < rows.length; i++) {
+            if (parseInt(rows[i][1]) !== userId || !rows[i][5]) {
+                continue;
+            }
+            const data = parseKnowledgeNoteData(rows[i][5]);
+            if (!data) {
+                console.error(`[DB] 筆記 #${rows[i][0]} 的內容無法解析，略過`);
+                continue;
+            }
+            notes.push({
+                note_id: parseInt(rows[i][0]),
+                user_id: userId,
+                objective_id: rows[i][2] ? parseInt(rows[i][2]) : null,
+                source_type: rows[i][3] || 'image',
+                raw_content: rows[i][4] || null,
+                data,
+            });
+        }
+        return notes;
+    }
+
+    /**
+     * 覆寫一則筆記的結構化內容 (例如更新 flashcards 的複習排程)
+     * @param noteId 筆記的 ID
+     * @param knowledgeData 完整的筆記 JSON 物件
+     */
+    async updateKnowledgeNoteData(noteId: number, knowledgeData: KnowledgeNoteData): Promise<void> {
+        const range = 'KnowledgeNotes!A:A';
+        const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
+        const rows = response.data.values || [];
+
+        for (let i = 1; i < rows.length; i++) {
+            if (parseInt(rows[i][0]) === noteId) {
+                await this.sheets.spreadsheets.values.update({
+                    spreadsheetId: this.spreadsheetId,
+                    range: `KnowledgeNotes!F${i + 1}`, // 目標是 F 欄 (structured_data_json)
+                    valueInputOption: 'RAW',
+                    requestBody: { values: [[JSON.stringify(knowledgeData)]] },
+                });
+                return;
+            }
+        }
+        console.error(`[DB] 更新失敗：找不到筆記 #${noteId}`);
+    }
+
     /**
      * ✨ 新增：獲取所有使用者
      */
     async getAllUsers(): Promise<User[]> {
-        const range = 'Users!A:D';
+        const range = 'Users!A:F';
         const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
         const rows = response.data.values || [];
         const users: User[] = [];
@@ -250,6 +356,8 @@ export class GoogleSheetService {
                     id: parseInt(rows[i][0]),
                     line_user_id: rows[i][1],
                     state_json: rows[i][3] || null,
+                    google_refresh_token: rows[i][4] || null,
+                    settings_json: rows[i][5] || null,
                 });
             }
         }
@@ -282,6 +390,88 @@ export class GoogleSheetService {
         return objectives;
     }
 
+    /**
+     * 根據 user_id 獲取其所有學習目標 (包含已完成與暫停的)
+     */
+    async getObjectivesByUserId(userId: number): Promise<LearningObjective[]> {
+        const range = 'LearningObjectives!A:F';
+        const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
+        const rows = response.data.values || [];
+        const objectives: LearningObjective[] = [];
+
+        for (let i = 1; i < rows.length; i++) {
+            const rowUserId = parseInt(rows[i][1]);
+            if (rowUserId === userId) {
+                objectives.push({
+                    objective_id: parseInt(rows[i][0]),
+                    user_id: rowUserId,
+                    title: rows[i][2],
+                    status: rows[i][3] || 'In Progress',
+                    due_date: rows[i][4] || null,
+                    gcal_event_ids: rows[i][5] || null,
+                });
+            }
+        }
+        return objectives;
+    }
+
+  /**
+   * 更新學習目標的標題、狀態或截止日期 (C 到 E 欄)
+   */
+  async updateObjective(objectiveId: number, changes: ObjectiveChanges): Promise<void> {
+      const range = 'LearningObjectives!A:F';
+      const response = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: range });
+      const rows = response.data.values || [];
+
+      for (let i = 1; i < rows.length; i++) {
+          if (parseInt(rows[i][0]) === objectiveId) {
+              const title = changes.title ?? rows[i][2];
+              const status = changes.status ?? rows[i][3];
+              const dueDate = changes.due_date !== undefined ? (changes.due_date || '') : (rows[i][4] || '');
+
+              await this.sheets.spreadsheets.values.update({
+                  spreadsheetId: this.spreadsheetId,
+                  range: `LearningObjectives!C${i + 1}:E${i + 1}`,
+                  valueInputOption: 'RAW',
+                  requestBody: { values: [[title, status, dueDate]] },
+              });
+
+              console.log(`[DB] 已更新目標 #${objectiveId}:`, changes);
+              return;
+          }
+      }
+      console.error(`[DB] 更新失敗：找不到目標 #${objectiveId}`);
+  }
+
+  /**
+   * 刪除學習目標，歸檔在底下的筆記會保留，只取消歸檔 (清空 C 欄)。
+   * 目標的列只清空 B 到 F 欄、保留 A 欄的 ID，新目標的編號才不會和被刪除的目標重複。
+   */
+  async deleteObjective(objectiveId: number): Promise<void> {
+      const objectiveResponse = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: 'LearningObjectives!A:A' });
+      const objectiveRows = objectiveResponse.data.values || [];
+      const objectiveIndex = objectiveRows.findIndex((row, index) => index > 0 && parseInt(row[0]) === objectiveId);
+      if (objectiveIndex < 0) {
+          console.error(`[DB] 刪除失敗：找不到目標 #${objectiveId}`);
+          return;
+      }
+
+      const noteResponse = await this.sheets.spreadsheets.values.get({ spreadsheetId: this.spreadsheetId, range: 'KnowledgeNotes!A:C' });
+      const noteRows = noteResponse.data.values || [];
+      const ranges = [`LearningObjectives!B${objectiveIndex + 1}:F${objectiveIndex + 1}`];
+      for (let i = 1; i < noteRows.length; i++) {
+          if (parseInt(noteRows[i][2]) === objectiveId) {
+              ranges.push(`KnowledgeNotes!C${i + 1}`);
+          }
+      }
+
+      await this.sheets.spreadsheets.values.batchClear({
+          spreadsheetId: this.spreadsheetId,
+          requestBody: { ranges },
+      });
+      console.log(`[DB] 已刪除目標 #${objectiveId}`);
+  }
+
   /**
    * ✨ 新方法 4：將一則筆記關聯到一個學習目標
    * @param noteId 要更新的筆記 ID
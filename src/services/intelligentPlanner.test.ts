@@ -0,0 +1,39 @@
+// src/services/intelligentPlanner.test.ts
+
+import { beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { IntelligentPlanner } from './intelligentPlanner';
+import { StubProvider } from './llm/stubProvider';
+
+describe('IntelligentPlanner 的格式修正', () => {
+  let stub: StubProvider;
+
+  beforeEach(() => {
+    stub = new StubProvider();
+    IntelligentPlanner.setProvider(stub);
+  });
+
+  test('圖片分析的輸出不合格時，修正的請求會再附上原本的圖片', async () => {
+    stub.script('analyze_image', '這不是 JSON', JSON.stringify({
+      action: 'clarify_or_reject',
+      params: { response: '圖片太模糊了' },
+    }));
+
+    const intent = await IntelligentPlanner.analyzeImageAndPlan([
+      { data: Buffer.from('page-1'), mimeType: 'image/png' },
+      { data: Buffer.from('page-2'), mimeType: 'image/png' },
+    ]);
+
+    assert.equal(intent.action, 'clarify_or_reject');
+    assert.deepEqual(stub.calls.map(call => call.imageCount), [2, 2]);
+  });
+
+  test('目標計畫修正後仍然沒有項目時，回傳給使用者的說明而不是空計畫', async () => {
+    stub.script('generate_plan', '{"plan": []}', '{"plan": []}');
+
+    const intent = await IntelligentPlanner.generatePlanForObjective('線性代數期中考');
+
+    assert.equal(intent.action, 'clarify_or_reject');
+    assert.equal(stub.calls.length, 2);
+  });
+});
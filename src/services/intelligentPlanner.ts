@@ -1,20 +1,131 @@
 // src/services/intelligentPlanner.ts
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// 透過環境變數初始化 Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import { z } from "zod";
+import { GenerateOptions, ImageInput, LLMProvider, createLLMProvider } from "./llm/llmProvider";
+import {
+  ChoiceResult,
+  ChoiceResultSchema,
+  ImageIntent,
+  ImageIntentSchema,
+  IntentOf,
+  KnowledgeIntent,
+  ModifiedPlanIntent,
+  ModifiedPlanIntentSchema,
+  PlanIntent,
+  PlanIntentSchema,
+  QuizGrade,
+  QuizGradeSchema,
+  QuizQuestions,
+  QuizQuestionsSchema,
+  ReconstructKnowledgeIntentSchema,
+  UserIntent,
+  UserIntentSchema,
+} from "./llm/intentSchemas";
+import { getDefaultTimeZone, toZonedISOString } from "../utils/dateUtils";
+import { KnowledgeNoteData } from "./storageService";
 
 export class IntelligentPlanner {
+  // 背後使用的模型供應者，第一次使用時才依環境變數建立
+  private static provider: LLMProvider | null = null;
+
+  /**
+   * 取得目前使用的模型供應者。
+   */
+  static getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createLLMProvider();
+      console.log(`🧠 使用 LLM 供應者: ${this.provider.name}`);
+    }
+    return this.provider;
+  }
+
+  /**
+   * 替換模型供應者，例如在開發或測試時注入 StubProvider。
+   */
+  static setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * 呼叫模型並用 schema 驗證回傳的 JSON。
+   * 第一次的輸出無法解析或不符合格式時，會把錯誤訊息送回模型修正一次；
+   * 修正後仍然不合格就拋出錯誤，由呼叫端決定後備的回覆。
+   */
+  private static async generateValidated<S extends z.ZodTypeAny>(
+    prompt: string,
+    schema: S,
+    options: GenerateOptions,
+    images: ImageInput[] = []
+  ): Promise<z.output<S>> {
+    const provider = this.getProvider();
+    const firstOutput = images.length > 0
+      ? await provider.generateFromImages(prompt, images, options)
+      : await provider.generateText(prompt, options);
+
+    const firstResult = this.parseAndValidate(firstOutput, schema);
+    if (firstResult.success) {
+      return firstResult.data;
+    }
+
+    console.warn(`⚠️ LLM 輸出格式不符 (${options.promptType})，嘗試請模型修正:`, firstResult.errors);
+    const repairPrompt = `
+      ${prompt}
+
+      ---
+      # 你上一次的輸出:
+      ${firstOutput}
+
+      # 上一次的輸出有以下問題:
+      ${firstResult.errors.map(error => `- ${error}`).join('\n      ')}
+
+      請修正這些問題，並只回傳符合以上規則的 JSON 物件，不要包含任何額外的文字。
+    `;
+    // 修正時要再附上原本的檔案，模型才看得到內容
+    const repairedOutput = images.length > 0
+      ? await provider.generateFromImages(repairPrompt, images, options)
+      : await provider.generateText(repairPrompt, options);
+
+    const repairedResult = this.parseAndValidate(repairedOutput, schema);
+    if (repairedResult.success) {
+      return repairedResult.data;
+    }
+    throw new Error(`LLM 輸出格式修正後仍不正確 (${options.promptType}): ${repairedResult.errors.join('; ')}`);
+  }
+
+  /**
+   * 清理 markdown 標籤、解析 JSON，並以 schema 驗證。
+   */
+  private static parseAndValidate<S extends z.ZodTypeAny>(
+    text: string,
+    schema: S
+  ): { success: true; data: z.output<S> } | { success: false; errors: string[] } {
+    // 清理 LLM 回傳的 JSON 字串，以防萬一它還是包含了 markdown 標籤
+    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJson);
+    } catch {
+      return { success: false, errors: ['輸出不是有效的 JSON'] };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+    const errors = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    return { success: false, errors };
+  }
+
   /**
    * 分析使用者輸入，並將其轉換為結構化的指令或計畫。
    * @param userInput 使用者從 LINE 輸入的原始訊息
-   * @returns 一個包含 action 和 params 的 JSON 物件
+   * @param timeZone 使用者所在的時區，相對時間 (例如「明天下午兩點」) 以這個時區計算
+   * @returns 經過格式驗證的使用者意圖
    */
-  static async understandAndPlan(userInput: string): Promise<any> {
-    // 修改後的程式碼
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
+  static async understandAndPlan(userInput: string, timeZone: string = getDefaultTimeZone()): Promise<UserIntent> {
     // 這段 Prompt 是整個智慧助理的靈魂，我們在這裡教 AI 如何思考。
     const prompt = `
       你是一個頂尖的個人助理，專門幫助使用者管理他們的學習計畫。你的工作是分析使用者的需求，並輸出一個標準化的 JSON 物件。
@@ -22,17 +133,27 @@ export class IntelligentPlanner {
 
       # 可用的工具 (actions):
       1.  **list_events**: 查詢行事曆上的事件。
-          - 觸發條件: 當使用者想知道某個時間點的行程時 (例如："今天有什麼事？", "查詢下週行程")。
-          - 必要參數: 'timeRange' ('today', 'tomorrow', 'week')。
+          - 觸發條件: 當使用者想知道某個時間點的行程時 (例如："今天有什麼事？", "查詢下週行程", "9/1 到 9/15 有什麼安排", "這個週末有空嗎")。
+          - 時間範圍 (二選一)：
+            - 'timeRange' ('today', 'tomorrow', 'week', 'month')：只適用於今天、明天、從現在起一週或一個月。
+            - 'startDate' 與 'endDate' ('YYYY-MM-DD'，包含結束日當天)：其他所有情況都用具體日期，例如「下週三」、「這個週末」(週六到週日)、「9/1 到 9/15」。只查一天時 'endDate' 可以省略。
+          - 可選參數: 'keyword' (只看標題、地點或說明中包含這個關鍵字的行程，例如 "小考")。
+          - 可選參數: 'objectiveTitle' (只看某個學習目標底下的行程；沒有提到時間時不要提供任何時間範圍，會列出該目標的所有行程)。
+          - 可選參數: 'eventType' ('all_day' 只看全天行程，'timed' 只看有具體時間的行程)。
 
       2.  create_event: 建立一個單獨的、明確的行事曆事件。
           - 觸發條件: 使用者明確指示要新增一個有時間和標題的事件。
           - 必要參數: 'summary' (事件標題), 'startTime' (ISO 8601 格式的時間)。
+          - 可選參數: 'confidence' (0 到 1 的數字，代表你對標題與時間理解正確的把握)。使用者的說法有歧義時 (例如沒說上午還是下午、「下禮拜」不確定是哪一天)，請給 0.5 以下的分數，系統會先請使用者確認。
+          - 可選參數: 'location' (地點)、'description' (說明或備註)、'attendees' (要邀請的參加者 email 陣列，只能使用使用者明確提供的 email)、'reminderMinutes' (行程開始前幾分鐘跳出通知的陣列，例如「前一天和 30 分鐘前通知我」是 [1440, 30]，最多 5 個)。
+          - 注意：在新增行程的同時提到的提醒或通知，請放在 'reminderMinutes'；只有單獨調整提醒設定時才使用 set_reminder。
+          - 可選參數: 'recurrence' (週期性行程，例如「每週二四」、「每天早上」)：{ 'frequency': 'daily' | 'weekly' | 'monthly', 'interval' (每幾天/週/月一次，預設 1), 'byWeekday' (每週的哪幾天，'MO' 到 'SU' 的陣列), 'until' (最後一天，'YYYY-MM-DD'), 'count' (總共幾次) }。此時 'startTime' 必須是第一次發生的時間；「到期末為止」這類說法請換算成 'until'。
           - 規則：如果使用者的規劃請求中，提到了某個學習目標 (用引號標出，例如 "幫我規劃『OpenVINO 競賽』")，你必須在 JSON 中額外增加一個 'objectiveTitle' 欄位，其值為該目標的標題。
 
       3.  **plan_generic_task**: ✨ 當使用者提出一個模糊的、不含特定目標標題的複雜規劃請求時。
           - 觸發條件: "幫我規劃下週的讀書計畫", "我該如何準備期末考？"
           - 必要參數: 'plan' (一個陣列，包含 { summary, duration_hours })。
+          - 使用者有提到時，計畫項目也可以帶有 'location'、'description'、'attendees' 與 'reminderMinutes'，格式與 create_event 相同。
 
 
       4.  **clarify_or_reject**: 當使用者意圖不明，或提出無法處理的需求時使用。
@@ -42,6 +163,8 @@ export class IntelligentPlanner {
       5.  **delete_event**: 刪除一個已存在的行事曆事件。
           - 觸發條件: 使用者明確指示要刪除或取消某個行程 (例如："刪除明天的會議", "取消下週三的讀書會")。
           - 必要參數: 'query' (用來搜尋要刪除的事件的關鍵字)。
+          - 可選參數: 'occurrenceDate' (使用者指定了某一天的行程時，該日期的 'YYYY-MM-DD'，例如「取消這週二的線代複習」)。
+          - 可選參數: 'scope' (週期性行程的範圍：'instance' 只有這一次，'series' 整個系列；使用者沒有明確說時不要提供，系統會詢問)。
 
       6. **create_learning_objective**: 當使用者想要建立一個新的長期學習目標或專案時。
           - 觸發條件: "建立一個學習目標...", "新增一個專案叫...", "我想開始準備..."
@@ -57,10 +180,58 @@ export class IntelligentPlanner {
           - 觸發條件: "把這個歸檔到『期末考』", "這是 OpenVINO 的筆記"
           - 必要參數: 'objectiveTitle' (目標的標題)。
 
+      9. **update_event**: 修改或改期一個已存在的行事曆事件。
+          - 觸發條件: 使用者想要更改某個行程的時間、標題、地點或說明 (例如："把明天的演算法小考改到後天下午", "讀書會改在圖書館")。
+          - 必要參數: 'query' (用來搜尋要修改的事件的關鍵字)。
+          - 必要參數: 'changes' (一個物件，只包含使用者要求修改的欄位：'summary', 'startTime', 'endTime', 'location', 'description')。
+          - 如果使用者只說了新的開始時間而沒有說結束時間，**不要**提供 'endTime'，系統會自動保留原本的時長。
+          - 可選參數: 'occurrenceDate' 與 'scope'，用法與 delete_event 相同 (例如「以後的線代複習都改到晚上九點」的 'scope' 是 'series')。
+
+      10. **set_reminder**: 設定行程開始前的 LINE 提醒，或關閉提醒。
+          - 觸發條件: "行程開始前 30 分鐘提醒我", "關掉所有提醒", "『期末考』的行程提前一小時提醒我"
+          - 必要參數: 'enabled' (true 代表開啟或調整提醒，false 代表關閉提醒)。
+          - 可選參數: 'minutesBefore' (提前幾分鐘提醒，整數，例如一小時就是 60)。
+          - 可選參數: 'objectiveTitle' (只針對某個學習目標的行程設定時才提供；針對所有行程時不要提供)。
+
+      11. **start_quiz**: 使用者想要根據筆記內容進行測驗。
+          - 觸發條件: "考我", "出幾題考考我", "用『期末考』的筆記考我"
+          - 可選參數: 'objectiveTitle' (只有使用者指定了某個學習目標時才提供，會用該目標底下的所有筆記出題；只說「考我」時不要提供)。
+
+      12. **list_objectives**: 使用者想查看自己所有的學習目標與進度。
+          - 觸發條件: "我有哪些目標？", "列出我的學習目標", "目標進度如何？"
+          - 不需要任何參數。
+
+      13. **update_objective**: 修改一個已存在的學習目標，包含標記完成、暫停、恢復進行、改名或更改截止日期。
+          - 觸發條件: "『期末考』已經完成了", "先暫停『OpenVINO 競賽』", "把『期末考』改名為『期末考衝刺』", "『期末考』的截止日期改到 6/20"
+          - 必要參數: 'objectiveTitle' (目前的目標標題)。
+          - 必要參數: 'changes' (一個物件，只包含要修改的欄位)：
+            - 'title': 新的標題。
+            - 'status': 'Completed' (完成)、'On Hold' (暫停) 或 'In Progress' (恢復進行)。
+            - 'dueDate': 新的截止日期 ('YYYY-MM-DD' 格式)。
+
+      14. **delete_objective**: 使用者想刪除一個學習目標。
+          - 觸發條件: "刪除『期末考』這個目標", "不要『OpenVINO 競賽』這個目標了"
+          - 必要參數: 'objectiveTitle' (目標的標題)。
+          - 是否一併刪除相關行程會另外詢問使用者，這裡不需要判斷。
+
+      15. **list_notes**: 使用者想查看或搜尋以前整理過的知識筆記。
+          - 觸發條件: "我的筆記", "列出『期末考』的筆記", "找一下跟 TCP 有關的筆記"
+          - 可選參數: 'objectiveTitle' (只看某個學習目標底下的筆記時才提供)。
+          - 可選參數: 'keyword' (要搜尋的概念或關鍵字，例如 "TCP"、"排程演算法"；只是想看最近的筆記時不要提供)。
+
+      16. **open_note**: 使用者想重新打開某一份筆記，繼續做摘要、心智圖或測驗。
+          - 觸發條件: "打開筆記 #12", "看第 5 號筆記"
+          - 必要參數: 'noteId' (筆記編號，整數)。
+
+      17. **set_timezone**: 使用者告訴你他所在的地區或時區改變了 (例如出國、搬家)。
+          - 觸發條件: "我現在在東京", "時區改成紐約", "我回台灣了"
+          - 必要參數: 'timeZone' (IANA 時區名稱，例如 "Asia/Tokyo"、"America/New_York"、"Asia/Taipei")。
+
       # ⭐⭐⭐ 重要規則：時間處理 ⭐⭐⭐
       - 當你需要提供 'dueDate' 時，必須是 'YYYY-MM-DD' 格式。
       - 當你需要提供 'startTime' 或 'endTime' 時，你 **必須** 計算出確切的 ISO 8601 標準時間字串 (例如："2025-07-30T19:00:00.000+08:00")。
-      - 當前時間是：${new Date().toISOString()}
+      - 使用者所在的時區是 ${timeZone}，當地的現在時間是：${toZonedISOString(new Date(), timeZone)}
+      - 「今天」、「明天」、「今晚」等相對時間都以使用者當地的日期計算，輸出的時間也要使用上面這個時區的偏移量。
       - **絕對不可以使用** 任何形式的佔位符 (例如："【請填入...】") 或相對時間描述 (例如："今晚7點") 作為時間值。你必須完成最終的計算。
 
       # 輸出規則:
@@ -108,7 +279,34 @@ export class IntelligentPlanner {
         "action": "create_event",
         "params": {
           "summary": "跟 David 開會",
-          "startTime": "2025-07-30T14:00:00.000+08:00"
+          "startTime": "2025-07-30T14:00:00.000+08:00",
+          "confidence": 0.95
+        }
+      }
+
+      ## 輸入: "週五晚上7點在圖書館讀書會，邀請 amy@example.com，前一天和 30 分鐘前通知我"
+      ## 輸出:
+      {
+        "action": "create_event",
+        "params": {
+          "summary": "讀書會",
+          "startTime": "2025-08-01T19:00:00.000+08:00",
+          "location": "圖書館",
+          "attendees": ["amy@example.com"],
+          "reminderMinutes": [1440, 30],
+          "confidence": 0.9
+        }
+      }
+
+      ## 輸入: "每週二四晚上8點複習線代，到 9/30 為止"
+      ## 輸出:
+      {
+        "action": "create_event",
+        "params": {
+          "summary": "複習線代",
+          "startTime": "2025-07-31T20:00:00.000+08:00",
+          "recurrence": { "frequency": "weekly", "byWeekday": ["TU", "TH"], "until": "2025-09-30" },
+          "confidence": 0.9
         }
       }
 
@@ -129,20 +327,90 @@ export class IntelligentPlanner {
             "query": "團隊會議"
         }
       }
+
+      ## 輸入: "『完成 OpenVINO 競賽的準備』的行程提前一小時提醒我"
+      ## 輸出:
+      {
+        "action": "set_reminder",
+        "params": {
+            "enabled": true,
+            "minutesBefore": 60,
+            "objectiveTitle": "完成 OpenVINO 競賽的準備"
+        }
+      }
+
+      ## 輸入: "用『期末考』的筆記考考我"
+      ## 輸出:
+      {
+        "action": "start_quiz",
+        "params": {
+            "objectiveTitle": "期末考"
+        }
+      }
+
+      ## 輸入: "找找看『期末考』裡跟死結有關的筆記"
+      ## 輸出:
+      {
+        "action": "list_notes",
+        "params": {
+            "objectiveTitle": "期末考",
+            "keyword": "死結"
+        }
+      }
+
+      ## 輸入: "先暫停『完成 OpenVINO 競賽的準備』，截止日期延到 9/30"
+      ## 輸出:
+      {
+        "action": "update_objective",
+        "params": {
+            "objectiveTitle": "完成 OpenVINO 競賽的準備",
+            "changes": {
+                "status": "On Hold",
+                "dueDate": "2025-09-30"
+            }
+        }
+      }
+
+      ## 輸入: "9/1 到 9/15 有哪些小考？"
+      ## 輸出:
+      {
+        "action": "list_events",
+        "params": {
+            "startDate": "2025-09-01",
+            "endDate": "2025-09-15",
+            "keyword": "小考"
+        }
+      }
+
+      ## 輸入: "我這個月在東京交換"
+      ## 輸出:
+      {
+        "action": "set_timezone",
+        "params": {
+            "timeZone": "Asia/Tokyo"
+        }
+      }
+
+      ## 輸入: "把演算法小考改到後天下午三點"
+      ## 輸出:
+      {
+        "action": "update_event",
+        "params": {
+            "query": "演算法小考",
+            "changes": {
+                "startTime": "2025-07-31T15:00:00.000+08:00"
+            }
+        }
+      }
       ---
       好了，現在請分析以下使用者的最新輸入，並只回傳 JSON 物件:
       "${userInput}"
     `;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      // 清理並解析 LLM 回傳的 JSON 字串，以防萬一它還是包含了 markdown 標籤
-      const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(cleanJson);
+      return await this.generateValidated(prompt, UserIntentSchema, { tier: 'fast', json: true, promptType: 'understand' });
     } catch (error) {
-      console.error("呼叫 Gemini API 時發生錯誤:", error);
+      console.error("呼叫 LLM 時發生錯誤:", error);
       return {
         action: 'clarify_or_reject',
         params: { response: '抱歉，我的 AI 大腦暫時短路了，請稍後再試一次。' }
@@ -151,9 +419,9 @@ export class IntelligentPlanner {
   }
   /**
    * ✨ 新方法：專門為一個已知的目標標題，生成一個詳細的學習計畫
+   * 生成失敗時回傳 clarify_or_reject，由呼叫端直接告訴使用者
    */
-  static async generatePlanForObjective(objectiveTitle: string): Promise<any> {
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
+  static async generatePlanForObjective(objectiveTitle: string): Promise<PlanIntent | IntentOf<'clarify_or_reject'>> {
       const prompt = `
         你是一個專業的計畫拆解專家。你的任務是為使用者的一個具體學習目標，生成一個包含多個步驟的詳細計畫。
 
@@ -177,26 +445,25 @@ export class IntelligentPlanner {
         現在，請為以上學習目標生成計畫。
       `;
       try {
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          const text = response.text().replace(/```json/g, '').replace(/```/g, '').trim();
-          return JSON.parse(text);
+          return await this.generateValidated(prompt, PlanIntentSchema, { tier: 'fast', json: true, promptType: 'generate_plan' });
       } catch (error) {
           console.error("生成目標計畫時出錯:", error);
-          // 返回一個空的計畫作為後備
-          return { action: 'plan_complex_task', plan: [] };
+          return {
+            action: 'clarify_or_reject',
+            params: { response: `抱歉，我暫時無法為「${objectiveTitle}」規劃學習計畫，請稍後再試一次。` }
+          };
       }
   }
     /**
    * 當使用者面對一個選項列表時，解析他們做出的選擇。
    * @param selectionRequest 使用者的回覆，例如 "第一個", "2 and 3", "all"
    * @param numberOfOptions 列表中的選項總數
+   * @param actionLabel 使用者正在對這些行程進行的動作，例如 '刪除' 或 '修改'
    * @returns 一個包含所選索引的陣列 (例如 [0, 2]) 或一個關鍵字 ('all', 'none')
    */
-  static async parseDeletionChoice(selectionRequest: string, numberOfOptions: number): Promise<{ selection: number[] | 'all' | 'none' }> {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
+  static async parseDeletionChoice(selectionRequest: string, numberOfOptions: number, actionLabel: string = '刪除'): Promise<ChoiceResult> {
     const prompt = `
-      你的任務是解析使用者在一個選項列表中的選擇。使用者正在決定要刪除哪些行事曆行程。
+      你的任務是解析使用者在一個選項列表中的選擇。使用者正在決定要${actionLabel}哪些行事曆行程。
 
       # 選項總數: ${numberOfOptions}
 
@@ -205,8 +472,8 @@ export class IntelligentPlanner {
       # 你的任務:
       1.  分析使用者的回覆，判斷他們選擇了哪些項目。
       2.  如果使用者選擇了具體的數字，回傳一個從 0 開始的索引陣列。記住，使用者說的 "1" 對應到索引 0。
-      3.  如果使用者表示要全部刪除，回傳 "all"。
-      4.  如果使用者表示取消或一個都不刪，回傳 "none"。
+      3.  如果使用者表示要全部${actionLabel}，或在只有一個選項時表示同意 (例如 "是"、"好")，回傳 "all"。
+      4.  如果使用者表示取消或一個都不要${actionLabel}，回傳 "none"。
       5.  你的回應必須是以下格式的 JSON 物件: { "selection": [...] } 或 { "selection": "all" } 或 { "selection": "none" }。
       6.  絕對不能包含任何額外的文字或註解。
 
@@ -221,10 +488,7 @@ export class IntelligentPlanner {
     `;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const cleanJson = response.text().replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(cleanJson);
+      return await this.generateValidated(prompt, ChoiceResultSchema, { tier: 'fast', json: true, promptType: 'parse_choice' });
     } catch (error) {
       console.error("解析刪除選項時出錯:", error);
       return { selection: 'none' }; // 出錯時預設為不刪除，以策安全
@@ -235,11 +499,9 @@ export class IntelligentPlanner {
    * 根據使用者提出的修改要求，來調整一個已經存在的計畫。
    * @param originalPlan 先前 AI 產生的原始計畫 JSON 物件
    * @param modificationRequest 使用者提出的修改指令
-   * @returns 一個包含新計畫的 JSON 物件
+   * @returns 修改後的計畫，或模型無法理解時的 clarify_or_reject
    */
-  static async modifyPlan(originalPlan: any, modificationRequest: string): Promise<any> {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash-latest" });
-
+  static async modifyPlan(originalPlan: any, modificationRequest: string): Promise<ModifiedPlanIntent> {
     // 這個 Prompt 專門用於修改任務
     const prompt = `
       你是一個精確的個人助理，你的任務是修改一個既有的行事曆計畫。
@@ -278,21 +540,10 @@ export class IntelligentPlanner {
     `;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      const parsedJson = JSON.parse(cleanJson);
-      if (Array.isArray(parsedJson)) {
-            return { action: 'plan_complex_task', plan: parsedJson };
-        }
-        if (!parsedJson.action) {
-            parsedJson.action = 'plan_complex_task';
-        }
-        return parsedJson;
-
+      // 只回傳陣列或漏掉 action 的輸出，會在 schema 中補齊為 plan_complex_task
+      return await this.generateValidated(prompt, ModifiedPlanIntentSchema, { tier: 'fast', json: true, promptType: 'modify_plan' });
     } catch (error) {
-      console.error("呼叫 Gemini API 進行修改時發生錯誤:", error);
+      console.error("呼叫 LLM 進行修改時發生錯誤:", error);
       return {
         action: 'clarify_or_reject',
         params: { response: '抱歉，我在修改計畫時遇到了一些困難，請您重新提出一次完整的規劃需求。' }
@@ -301,14 +552,16 @@ export class IntelligentPlanner {
   }
   
   /**
-   * 分析一張圖片的內容，並根據內容規劃行動或轉錄文字。
-   * @param imageBuffer 使用者上傳圖片的 Buffer 資料
-   * @returns 一個包含 action 和 params 的 JSON 物件
+   * 分析使用者上傳的文件 (一或多張圖片、PDF)，並根據內容規劃行動或轉錄文字。
+   * 多個頁面會一起交給模型，視為同一份文件。
+   * @param pages 依上傳順序排列的頁面 (圖片或 PDF 的 Buffer 與格式)
+   * @param timeZone 使用者所在的時區，用來判斷文件中沒寫年份、月份的日期
+   * @returns 經過格式驗證的分析結果
+   * @throws 呼叫模型失敗或輸出格式修正後仍不正確時拋出錯誤，由背景工作負責重試
    */
-  static async analyzeImageAndPlan(imageBuffer: Buffer): Promise<any> {
-    // 使用支援視覺的多模態模型
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" }); 
-
+  static async analyzeImageAndPlan(pages: ImageInput[], timeZone: string = getDefaultTimeZone()): Promise<ImageIntent> {
+    const now = toZonedISOString(new Date(), timeZone);
+    const currentMonth = new Date().toLocaleDateString('en-US', { timeZone, year: 'numeric', month: 'long' });
     const prompt = `
       # Advanced Learning Content Assistant (V2 - High Accuracy Mode)
 
@@ -329,12 +582,18 @@ export class IntelligentPlanner {
       - Use one of the actions: **reconstruct_knowledge**, **create_event**, **plan_complex_task**.
       - **For 'plan_complex_task', every object in the 'plan' array MUST have a 'summary' AND a 'date' key.**
       - If the event time is specified on the image, extract it as part of the \`startTime\` (full ISO 8601 format). If no specific time or duration is mentioned for an event, add a \`"duration_hours": 1\` field to the event object by default.
-
+      - If the image states where an event takes place (e.g. an exam room or venue), add it as \`location\`.
+${pages.length > 1 || pages.some(page => page.mimeType === 'application/pdf') ? `
+      ## Multi-page Documents:
+      - You are given ${pages.length} file(s) (photos and/or PDF) that belong to **one document**, in upload order. A PDF may contain many pages.
+      - Read **every page** before answering and return **one** JSON object for the whole document.
+      - Collect the events from all pages into a single 'plan'. A deadline repeated on several pages (e.g. in a schedule table and again in the grading section) must appear only once.
+` : ''}
       # Contextual Information:
-      - The user is currently viewing their calendar for **August 2025**. Use this month as the primary context for any dates that are ambiguous (e.g., "the 15th" means "August 15th, 2025").
-      - Current absolute time: ${new Date().toISOString()}
+      - The user's current month is **${currentMonth}**. Use this month as the primary context for any dates that are ambiguous (e.g., "the 15th" means the 15th of ${currentMonth}).
+      - The user's time zone is ${timeZone}. Any \`startTime\` you output must use this zone's UTC offset.
 
-      # Current Time (for relative dates): ${new Date().toISOString()}
+      # Current Time (user's local time, for relative dates): ${now}
 
       # Examples:
         
@@ -400,39 +659,62 @@ export class IntelligentPlanner {
       Analyze the provided input (image or text) and return a JSON object formatted for the specified action and tool.
     `;
 
-    try {
-      // 這是多模態請求的格式：一個文字部分，一個圖片部分
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: imageBuffer.toString("base64"),
-            mimeType: "image/jpeg", // or "image/png"
-          },
-        },
-      ]);
-      
-      const response = await result.response;
-      const text = response.text();
-      const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(cleanJson);
-
-    } catch (error) {
-      console.error("呼叫 Gemini Vision API 時發生錯誤:", error);
-      return {
-        action: 'clarify_or_reject',
-        params: { response: '抱歉，我無法成功辨識這張圖片的內容，請您換一張圖片或直接用文字告訴我需求。' }
-      };
-    }
+    // 使用支援視覺的多模態模型
+    return await this.generateValidated(
+      prompt,
+      ImageIntentSchema,
+      { tier: 'pro', json: true, promptType: 'analyze_image' },
+      pages
+    );
   }
 
 
   /**
-   * 對已經結構化的知識進行二次加工，例如生成心智圖、測驗等。
+   * 把使用者貼上的文字或網頁內容整理成結構化的知識筆記，格式與圖片筆記相同。
+   * @param text 課堂文字或網頁的純文字內容
+   * @param sourceUrl 內容來自網頁時的網址
+   * @throws 呼叫模型失敗或輸出格式修正後仍不正確時拋出錯誤，由背景工作負責重試
    */
-  static async processKnowledge(knowledgeData: any, goal: string): Promise<string> {
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" }); 
+  static async analyzeTextKnowledge(text: string, sourceUrl?: string): Promise<KnowledgeIntent> {
+    const prompt = `
+      # Learning Content Assistant (Text Mode)
+
+      You are an expert-level assistant that turns raw study material into structured notes.
+      The material below was ${sourceUrl ? `extracted from the web page ${sourceUrl}, so ignore navigation menus, ads and other page chrome` : 'pasted by the user, for example lecture notes or a textbook section'}.
+
+      ## Rules:
+      1.  Focus on the core learning content. Keep the language of the material (e.g. Traditional Chinese stays Traditional Chinese).
+      2.  'source' must be a short title describing the material (e.g. "作業系統 Ch5 行程排程").
+      3.  Extract the key 'concepts', a 'summary' of 3-6 bullet points, 3-8 'flashcards' and 2-3 'reflection' questions.
+      4.  Only add 'furtherReading' links when you are confident they exist.
 
+      ## JSON Output Format:
+      {
+        "action": "reconstruct_knowledge",
+        "source": "Circuits Lecture",
+        "concepts": ["電壓 (Voltage)", "電流 (Current)"],
+        "summary": ["Ohm's Law states that V = I * R."],
+        "flashcards": [
+            {"question": "What does Ohm's Law state?", "answer": "Voltage equals current multiplied by resistance (V = I * R)."}
+        ],
+        "reflection": ["How can Ohm's Law be applied to real-world circuits?"]
+      }
+
+      ## Material:
+      ---
+      ${text}
+      ---
+
+      Return only the JSON object.
+    `;
+
+    return await this.generateValidated(prompt, ReconstructKnowledgeIntentSchema, { tier: 'pro', json: true, promptType: 'analyze_text' });
+  }
+
+  /**
+   * 對已經結構化的知識進行二次加工，例如生成心智圖、測驗等。
+   */
+  static async processKnowledge(knowledgeData: KnowledgeNoteData, goal: string): Promise<string> {
       const prompt = `
         你是一位頂尖的教育科技專家與圖表生成大師。你已經有了一份結構化的知識資料，現在你的任務是根據使用者的最終目標，將這份資料轉換成特定格式的成品。
 
@@ -482,7 +764,6 @@ export class IntelligentPlanner {
         ---
         ## 2. 其他任務規則
 
-        - **如果目標是「測驗 (Quiz)」或「考我」**: 根據知識內容，設計 3-5 個有深度的簡答題。
         - **如果目標是「學習卡片 (Flashcards)」**: 將核心概念和定義，轉換成 "名詞: 解釋" 的格式列表。
         - **如果目標是「摘要 (Summary)」**: 用 150 字以內的流暢文字，對整個知識主題進行總結。
         
@@ -495,22 +776,86 @@ export class IntelligentPlanner {
       `;
 
       try {
-        const result = await model.generateContent(prompt);
-        return result.response.text();
+        return await this.getProvider().generateText(prompt, { tier: 'pro', promptType: 'process_knowledge' });
       } catch (error) {
         console.error("二次知識加工時發生錯誤:", error);
         return "抱歉，我在處理您的請求時遇到了一些困難，請稍後再試。";
       }
   }
 
+  /**
+   * 根據一則或多則筆記出測驗題，每題都附上參考答案與出題的筆記索引。
+   * @param notesData 每則筆記的結構化資料，題目的 noteIndex 對應這個陣列的索引
+   * @param questionCount 要出的題數
+   */
+  static async generateQuizQuestions(notesData: KnowledgeNoteData[], questionCount: number): Promise<QuizQuestions> {
+      const prompt = `
+        你是一位經驗豐富的老師。你的任務是根據學生的筆記內容出一份簡答題測驗，一次只會問學生一題。
+
+        # 學生的筆記 (每則筆記的索引標在前面):
+        ${notesData.map((data, index) => `## 筆記 ${index}\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``).join('\n\n        ')}
+
+        # 你的任務與規則:
+        1. 出 ${questionCount} 道簡答題，題目必須能只靠筆記內容回答，不要考筆記中沒有的細節。
+        2. 優先考核心概念與觀念理解，避免只考名詞背誦；有多則筆記時，題目要平均分配到各則筆記。
+        3. 每道題目都要附上 'referenceAnswer' (簡潔的參考答案，50 字以內) 和 'noteIndex' (出題的筆記索引)。
+
+        # 輸出格式範例:
+        {
+          "questions": [
+            { "noteIndex": 0, "question": "行程在什麼情況下會從 Running 進入 Waiting 狀態？", "referenceAnswer": "當行程需要等待 I/O 或某個事件完成時。" }
+          ]
+        }
+        ---
+        現在，請只回傳 JSON 物件。
+      `;
+
+      return this.generateValidated(prompt, QuizQuestionsSchema, { tier: 'pro', json: true, promptType: 'generate_quiz' });
+  }
+
+  /**
+   * 依照筆記內容為使用者的答案評分 (0-100 分)，並給予簡短的回饋。
+   * @param knowledgeData 出題的筆記資料
+   * @param question 題目
+   * @param referenceAnswer 出題時產生的參考答案
+   * @param answer 使用者的回答
+   */
+  static async gradeQuizAnswer(knowledgeData: KnowledgeNoteData | null, question: string, referenceAnswer: string, answer: string): Promise<QuizGrade> {
+      const prompt = `
+        你是一位公正且友善的老師，正在批改學生的簡答題。請以學生的筆記內容為標準評分。
+
+        # 學生的筆記:
+        \`\`\`json
+        ${JSON.stringify(knowledgeData, null, 2)}
+        \`\`\`
+
+        # 題目: "${question}"
+        # 參考答案: "${referenceAnswer}"
+        # 學生的回答: "${answer}"
+
+        # 評分規則:
+        1. 'score' 為 0 到 100 的整數：完全正確 90-100，大致正確但漏掉重點 60-89，只答對一小部分 20-59，錯誤或答非所問 0-19。
+        2. 只要意思正確就給分，不要求與參考答案逐字相同。
+        3. 'feedback' 用繁體中文，60 字以內：先說明對或錯，答錯或不完整時點出缺少的重點。
+
+        # 輸出格式範例:
+        { "score": 70, "feedback": "方向正確！不過還少了「等待 I/O 完成」這個關鍵原因。" }
+        ---
+        現在，請只回傳 JSON 物件。
+      `;
+
+      return this.generateValidated(prompt, QuizGradeSchema, { tier: 'fast', json: true, promptType: 'grade_quiz' });
+  }
+
 
     /**
    * 將 AI 初步分析的不完整計畫，與使用者提供的修正文字進行合併。
    * @param partialPlan AI 產生的、可能缺少日期的計畫 JSON
    * @param userCorrection 使用者回覆的補充資訊
+   * @param timeZone 使用者所在的時區
+   * @returns 合併後的完整計畫，合併失敗時回傳 null
    */
-  static async mergePlanWithCorrection(partialPlan: any, userCorrection: string): Promise<any> {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" });
+  static async mergePlanWithCorrection(partialPlan: any, userCorrection: string, timeZone: string = getDefaultTimeZone()): Promise<PlanIntent | null> {
     const prompt = `
       你是一個細心的助理。你的任務是將一份不完整的行程草案，用使用者提供的補充資訊來完善它。
 
@@ -529,19 +874,17 @@ export class IntelligentPlanner {
       4.  JSON 結構應與原始草案保持一致。
       5.  直接輸出 JSON，不要有任何額外文字。
 
-      # 當前時間 (用於計算相對日期): ${new Date().toISOString()}
+      # 使用者所在的時區: ${timeZone} (輸出的 startTime 要使用這個時區的偏移量)
+      # 使用者當地的現在時間 (用於計算相對日期): ${toZonedISOString(new Date(), timeZone)}
       ---
       請合併資訊並產出完整的計畫 JSON。
     `;
     
     try {
-      const result = await model.generateContent(prompt);
-      const cleanJson = result.response.text().replace(/```json/g, '').replace(/```/g, '').trim();
-      return JSON.parse(cleanJson);
+      return await this.generateValidated(prompt, PlanIntentSchema, { tier: 'pro', json: true, promptType: 'merge_correction' });
     } catch (error) {
       console.error("合併使用者修正時出錯:", error);
-      // 返回原始計畫，並附上錯誤提示
-      return { ...partialPlan, error: "合併修正時發生錯誤" };
+      return null;
     }
   }
 }
\ No newline at end of file
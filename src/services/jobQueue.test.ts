@@ -0,0 +1,148 @@
+// src/services/jobQueue.test.ts
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JobQueue, JobQueueOptions } from './jobQueue';
+import { Job, JobStore } from './jobStore';
+
+const START = new Date('2025-08-01T00:00:00.000Z');
+
+// 時間固定在 START，由測試用 mock.timers.tick() 推進；輪詢的計時器維持真實時間
+const options: JobQueueOptions = { maxAttempts: 3, baseDelayMs: 60_000, pollIntervalMs: 5, doneRetentionMs: 24 * 60 * 60 * 1000 };
+
+// 等待佇列在背景處理到指定的狀態
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  assert.ok(condition(), '等待背景工作逾時');
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue | null = null;
+
+  // 佇列在背景不斷輸出執行紀錄，測試時不需要
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      mock.method(console, method, () => {});
+    }
+  });
+
+  afterEach(async () => {
+    await queue?.stop();
+    queue = null;
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  test('失敗時以指數退避重試，重試用盡後移到死信清單並通知', async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    const store = new JobStore(':memory:');
+    queue = new JobQueue(store, options);
+    queue.register('analyze_text', async () => {
+      throw new Error('AI 暫時無法回應');
+    });
+    const deadJobs: Job[] = [];
+    queue.onDeadLetter(async job => {
+      deadJobs.push(job);
+    });
+    queue.start();
+
+    const { id } = queue.enqueue('analyze_text', 'U1', { type: 'text', text: '...' });
+    const job = () => store.getById(id)!;
+
+    await waitFor(() => job().status === 'pending' && job().attempts === 1);
+    assert.equal(job().next_run_at, '2025-08-01T00:01:00.000Z');
+    assert.equal(job().last_error, 'AI 暫時無法回應');
+
+    mock.timers.tick(60_000);
+    await waitFor(() => job().attempts === 2 && job().status === 'pending');
+    assert.equal(job().next_run_at, '2025-08-01T00:03:00.000Z');
+
+    // 還沒到重試時間時不會執行
+    mock.timers.tick(119_000);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(job().attempts, 2);
+
+    mock.timers.tick(1_000);
+    await waitFor(() => job().status === 'dead');
+    assert.equal(job().attempts, 3);
+    assert.deepEqual(deadJobs.map(dead => dead.id), [id]);
+    assert.deepEqual(queue.listDeadJobs().map(dead => dead.id), [id]);
+  });
+
+  test('啟動時接續上次執行到一半的工作', async () => {
+    const store = new JobStore(':memory:');
+    const { id } = store.add('analyze_image', 'U1', { items: [] });
+    // 模擬程式在執行工作時被關閉
+    assert.equal(store.claimNext()?.status, 'running');
+
+    const handled: number[] = [];
+    queue = new JobQueue(store, options);
+    queue.register('analyze_image', async job => {
+      handled.push(job.id);
+    });
+    queue.start();
+
+    await waitFor(() => store.getById(id)!.status === 'done');
+    assert.deepEqual(handled, [id]);
+    assert.equal(store.getById(id)!.attempts, 2);
+  });
+
+  test('checkpoint 記下的內容會保留到下一次重試', async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    const store = new JobStore(':memory:');
+    queue = new JobQueue(store, options);
+    const seenPayloads: any[] = [];
+    queue.register('analyze_text', async job => {
+      seenPayloads.push(job.payload);
+      if (job.attempts === 1) {
+        queue!.checkpoint(job, { reply: '筆記 #1 已儲存' });
+        throw new Error('推送失敗');
+      }
+    });
+    queue.start();
+
+    const { id } = queue.enqueue('analyze_text', 'U1', { type: 'text', text: '...' });
+    await waitFor(() => store.getById(id)!.attempts === 1 && store.getById(id)!.status === 'pending');
+    mock.timers.tick(60_000);
+    await waitFor(() => store.getById(id)!.status === 'done');
+
+    assert.deepEqual(seenPayloads, [
+      { type: 'text', text: '...' },
+      { type: 'text', text: '...', reply: '筆記 #1 已儲存' },
+    ]);
+  });
+
+  test('清除完成超過保留期限的工作，死信清單中的工作保留', async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    const store = new JobStore(':memory:');
+    const done = store.add('analyze_image', 'U1', { items: ['很大的圖片'] });
+    store.claimNext();
+    store.markDone(done.id);
+    const dead = store.add('analyze_image', 'U1', { items: [] });
+    store.claimNext();
+    store.markDead(dead.id, 'AI 暫時無法回應');
+
+    mock.timers.tick(25 * 60 * 60 * 1000);
+    queue = new JobQueue(store, options);
+    queue.register('analyze_text', async () => {});
+    queue.start();
+    assert.equal(store.getById(done.id), null);
+    assert.equal(store.getById(dead.id)!.status, 'dead');
+
+    // 剛完成的工作還在保留期限內
+    const { id } = queue.enqueue('analyze_text', 'U1', {});
+    await waitFor(() => store.getById(id)?.status === 'done');
+  });
+
+  test('未知的工作類型直接移到死信清單', async () => {
+    const store = new JobStore(':memory:');
+    queue = new JobQueue(store, options);
+    queue.start();
+
+    const { id } = queue.enqueue('unknown', 'U1', {});
+    await waitFor(() => store.getById(id)!.status === 'dead');
+    assert.match(store.getById(id)!.last_error!, /未知的工作類型/);
+  });
+});
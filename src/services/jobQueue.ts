@@ -0,0 +1,187 @@
+// src/services/jobQueue.ts
+
+import { Job, JobStore } from './jobStore';
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+// 重試用盡時的通知，例如推送錯誤訊息給使用者
+export type DeadLetterHandler = (job: Job, error: unknown) => Promise<void>;
+
+export interface JobQueueOptions {
+  maxAttempts: number;     // 包含第一次執行在內的最多嘗試次數
+  baseDelayMs: number;     // 第 n 次重試前等待 baseDelayMs * 2^(n-1)
+  pollIntervalMs: number;
+  doneRetentionMs: number; // 已完成的工作保留多久後清除
+}
+
+/**
+ * 從環境變數讀取背景工作的設定。
+ */
+export function getJobQueueOptions(): JobQueueOptions {
+  return {
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+    baseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000'),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000'),
+    doneRetentionMs: parseInt(process.env.JOB_DONE_RETENTION_HOURS || '24') * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * 持久化的背景工作佇列。
+ * - 工作先寫入 JobStore 再執行，程式重啟後會自動接續
+ * - 失敗時以指數退避重試，重試用盡後移到死信清單
+ * - 一次只執行一個工作，避免同時對 AI 發出太多請求
+ */
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+  private stopping = false;
+  private deadLetterHandler?: DeadLetterHandler;
+
+  constructor(private store: JobStore, private options: JobQueueOptions = getJobQueueOptions()) {}
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  onDeadLetter(handler: DeadLetterHandler): void {
+    this.deadLetterHandler = handler;
+  }
+
+  /**
+   * 加入一個新工作，並立刻嘗試執行。
+   */
+  enqueue(type: string, lineUserId: string, payload: object): Job {
+    const job = this.store.add(type, lineUserId, payload);
+    console.log(`[Job] 已加入工作 #${job.id} (${type})`);
+    this.poll();
+    return job;
+  }
+
+  /**
+   * 把使用者短時間內連續送來的項目合併成同一個工作 (payload 為 { items })，例如一次傳好幾張圖片。
+   * 工作會在最後一個項目加入 windowMs 毫秒後才執行，期間再加入的項目都會併入同一個工作。
+   * @param maxItems 一個工作最多的項目數，滿了之後會開始新的工作
+   * @returns 工作，以及這個項目是否開始了一個新的工作
+   */
+  enqueueBatched(type: string, lineUserId: string, item: unknown, windowMs: number, maxItems: number): { job: Job; created: boolean } {
+    const runAt = new Date(Date.now() + windowMs);
+    const waiting = this.store.findWaiting(type, lineUserId);
+    if (waiting && Array.isArray(waiting.payload.items) && waiting.payload.items.length < maxItems) {
+      const payload = { ...waiting.payload, items: [...waiting.payload.items, item] };
+      if (this.store.updateWaiting(waiting.id, payload, runAt)) {
+        console.log(`[Job] 工作 #${waiting.id} (${type}) 加入第 ${payload.items.length} 個項目`);
+        return { job: { ...waiting, payload, next_run_at: runAt.toISOString() }, created: false };
+      }
+    }
+
+    const job = this.store.add(type, lineUserId, { items: [item] }, runAt);
+    console.log(`[Job] 已加入工作 #${job.id} (${type})，${windowMs / 1000} 秒後執行`);
+    return { job, created: true };
+  }
+
+  /**
+   * 開始處理佇列，並接續上次未完成的工作。
+   */
+  start(): void {
+    const resumed = this.store.requeueRunning();
+    if (resumed > 0) {
+      console.log(`[Job] 接續 ${resumed} 個上次中斷的工作`);
+    }
+    this.pruneDoneJobs();
+    this.stopping = false;
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.poll();
+    console.log('✅ 背景工作佇列已啟動');
+  }
+
+  /**
+   * 停止取出新工作，並等待執行中的工作完成。
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.inFlight) {
+      console.log('[Job] 等待執行中的工作完成...');
+      await this.inFlight;
+    }
+    this.store.close();
+    console.log('🔌 背景工作佇列已停止');
+  }
+
+  /**
+   * 在執行中的工作記下已經完成的步驟 (合併進 payload)，
+   * 重試時處理函式可以依此略過不能重複執行的步驟，例如儲存筆記。
+   */
+  checkpoint(job: Job, patch: object): void {
+    job.payload = { ...job.payload, ...patch };
+    this.store.updatePayload(job.id, job.payload);
+  }
+
+  listDeadJobs(limit?: number): Job[] {
+    return this.store.listDead(limit);
+  }
+
+  private pruneDoneJobs(): void {
+    const pruned = this.store.pruneDone(new Date(Date.now() - this.options.doneRetentionMs));
+    if (pruned > 0) {
+      console.log(`[Job] 已清除 ${pruned} 個完成超過保留期限的工作`);
+    }
+  }
+
+  private poll(): void {
+    if (this.stopping || this.inFlight) {
+      return;
+    }
+    const job = this.store.claimNext();
+    if (!job) {
+      return;
+    }
+
+    this.inFlight = this.run(job).finally(() => {
+      this.inFlight = null;
+      // 繼續處理下一個已到期的工作
+      this.poll();
+    });
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      console.error(`[Job] 未知的工作類型: ${job.type}`);
+      this.store.markDead(job.id, `未知的工作類型: ${job.type}`);
+      return;
+    }
+
+    try {
+      console.log(`[Job] 執行工作 #${job.id} (${job.type})，第 ${job.attempts} 次嘗試`);
+      await handler(job);
+      this.store.markDone(job.id);
+      console.log(`[Job] 工作 #${job.id} 完成`);
+      this.pruneDoneJobs();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < this.options.maxAttempts) {
+        const delayMs = this.options.baseDelayMs * 2 ** (job.attempts - 1);
+        console.warn(`[Job] 工作 #${job.id} 失敗，${delayMs / 1000} 秒後重試:`, message);
+        this.store.markRetry(job.id, message, new Date(Date.now() + delayMs));
+        return;
+      }
+
+      console.error(`[Job] 工作 #${job.id} 重試 ${job.attempts} 次仍失敗，移到死信清單:`, error);
+      this.store.markDead(job.id, message);
+      if (this.deadLetterHandler) {
+        try {
+          await this.deadLetterHandler(job, error);
+        } catch (notifyError) {
+          console.error(`[Job] 通知工作 #${job.id} 失敗時發生錯誤:`, notifyError);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,174 @@
+// src/services/jobStore.ts
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// pending：等待執行 (包含等待重試) / running：執行中 / done：完成 / dead：重試用盡，移到死信清單
+export type JobStatus = 'pending' | 'running' | 'done' | 'dead';
+
+export interface Job {
+  id: number;
+  type: string;
+  line_user_id: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  next_run_at: string;     // ISO 8601，pending 的工作在這個時間之後才會被取出
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    line_user_id TEXT NOT NULL,
+    payload_json TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_run_at TEXT NOT NULL,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status, next_run_at);
+`;
+
+type JobRow = Omit<Job, 'payload'> & { payload_json: string };
+
+/**
+ * 背景工作的持久化儲存 (本地 SQLite 檔案)，讓程式重啟後還能接續未完成的工作。
+ */
+export class JobStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * @param runAt 最早的執行時間，預設為立刻執行
+   */
+  add(type: string, lineUserId: string, payload: object, runAt: Date = new Date()): Job {
+    const now = new Date().toISOString();
+    const result = this.db.prepare(
+      `INSERT INTO jobs (type, line_user_id, payload_json, status, attempts, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)`
+    ).run(type, lineUserId, JSON.stringify(payload), runAt.toISOString(), now, now);
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * 找出使用者還沒到執行時間、也從未執行過的同類型工作 (例如還在收集圖片的工作)。
+   */
+  findWaiting(type: string, lineUserId: string, now: Date = new Date()): Job | null {
+    const row = this.db.prepare(
+      `SELECT * FROM jobs WHERE type = ? AND line_user_id = ? AND status = 'pending' AND attempts = 0 AND next_run_at > ?
+       ORDER BY id DESC LIMIT 1`
+    ).get(type, lineUserId, now.toISOString()) as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  /**
+   * 更新還在等待中的工作的內容與執行時間。
+   * @returns 工作已經開始執行 (無法再修改) 時回傳 false
+   */
+  updateWaiting(id: number, payload: object, nextRunAt: Date): boolean {
+    return this.db.prepare(
+      `UPDATE jobs SET payload_json = ?, next_run_at = ?, updated_at = ? WHERE id = ? AND status = 'pending' AND attempts = 0`
+    ).run(JSON.stringify(payload), nextRunAt.toISOString(), new Date().toISOString(), id).changes > 0;
+  }
+
+  /**
+   * 更新工作的內容，例如記錄已經完成的步驟，讓重試時可以略過。
+   */
+  updatePayload(id: number, payload: object): void {
+    this.db.prepare(`UPDATE jobs SET payload_json = ?, updated_at = ? WHERE id = ?`)
+      .run(JSON.stringify(payload), new Date().toISOString(), id);
+  }
+
+  getById(id: number): Job | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  /**
+   * 取出一個已到執行時間的工作並標記為 running，沒有可執行的工作時回傳 null。
+   */
+  claimNext(now: Date = new Date()): Job | null {
+    const claim = this.db.transaction(() => {
+      const row = this.db.prepare(
+        `SELECT * FROM jobs WHERE status = 'pending' AND next_run_at <= ? ORDER BY next_run_at, id LIMIT 1`
+      ).get(now.toISOString()) as JobRow | undefined;
+      if (!row) {
+        return null;
+      }
+      this.db.prepare(
+        `UPDATE jobs SET status = 'running', attempts = attempts + 1, updated_at = ? WHERE id = ?`
+      ).run(now.toISOString(), row.id);
+      return this.getById(row.id);
+    });
+    return claim();
+  }
+
+  markDone(id: number): void {
+    this.db.prepare(`UPDATE jobs SET status = 'done', last_error = NULL, updated_at = ? WHERE id = ?`)
+      .run(new Date().toISOString(), id);
+  }
+
+  /**
+   * 工作失敗，排定下一次重試的時間。
+   */
+  markRetry(id: number, error: string, nextRunAt: Date): void {
+    this.db.prepare(`UPDATE jobs SET status = 'pending', last_error = ?, next_run_at = ?, updated_at = ? WHERE id = ?`)
+      .run(error, nextRunAt.toISOString(), new Date().toISOString(), id);
+  }
+
+  /**
+   * 重試次數用盡，移到死信清單。
+   */
+  markDead(id: number, error: string): void {
+    this.db.prepare(`UPDATE jobs SET status = 'dead', last_error = ?, updated_at = ? WHERE id = ?`)
+      .run(error, new Date().toISOString(), id);
+  }
+
+  /**
+   * 程式上次結束時還在執行中的工作，重新放回佇列。
+   * @returns 被放回佇列的工作數量
+   */
+  requeueRunning(): number {
+    const now = new Date().toISOString();
+    return this.db.prepare(`UPDATE jobs SET status = 'pending', next_run_at = ?, updated_at = ? WHERE status = 'running'`)
+      .run(now, now).changes;
+  }
+
+  /**
+   * 清除完成時間早於 before 的已完成工作，避免資料表與其中的圖片、文件內容無限長大。
+   * 死信清單中的工作會保留，方便事後查看失敗原因。
+   * @returns 被清除的工作數量
+   */
+  pruneDone(before: Date): number {
+    return this.db.prepare(`DELETE FROM jobs WHERE status = 'done' AND updated_at < ?`).run(before.toISOString()).changes;
+  }
+
+  listDead(limit: number = 50): Job[] {
+    const rows = this.db.prepare(`SELECT * FROM jobs WHERE status = 'dead' ORDER BY updated_at DESC LIMIT ?`).all(limit) as JobRow[];
+    return rows.map(toJob);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toJob(row: JobRow): Job {
+  const { payload_json, ...rest } = row;
+  return { ...rest, payload: JSON.parse(payload_json) };
+}
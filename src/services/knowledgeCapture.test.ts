@@ -0,0 +1,157 @@
+// src/services/knowledgeCapture.test.ts
+
+import { afterEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as dns, LookupAddress } from 'dns';
+import { AddressInfo } from 'net';
+import { createServer } from 'http';
+import undici from 'undici';
+import { detectKnowledgeSource, fetchPageText, htmlToText, isPublicAddress, lookupPublicAddress } from './knowledgeCapture';
+
+// 網址都直接使用 IP，不需要真的查詢 DNS
+const PUBLIC_PAGE = 'http://93.184.216.34/article';
+
+function mockFetch(respond: (url: string) => Response) {
+  const requested: string[] = [];
+  mock.method(undici, 'fetch', async (input: URL | string) => {
+    requested.push(String(input));
+    return respond(String(input));
+  });
+  return requested;
+}
+
+describe('isPublicAddress', () => {
+  test('公開的 IPv4 與 IPv6 位址', () => {
+    assert.equal(isPublicAddress('93.184.216.34'), true);
+    assert.equal(isPublicAddress('2606:4700::1111'), true);
+  });
+
+  test('本機、內部網路與 metadata 服務的位址', () => {
+    for (const address of ['127.0.0.1', '10.0.0.5', '172.16.8.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  test('IPv4 對應的 IPv6 位址以其中的 IPv4 位址判斷', () => {
+    assert.equal(isPublicAddress('::ffff:127.0.0.1'), false);
+    assert.equal(isPublicAddress('::ffff:7f00:1'), false);
+    assert.equal(isPublicAddress('::ffff:93.184.216.34'), true);
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  function lookup(hostname: string, all: boolean): Promise<LookupAddress[] | string> {
+    return new Promise((resolve, reject) => {
+      lookupPublicAddress(hostname, { all }, (error: Error | null, address: LookupAddress[] | string) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(address);
+        }
+      });
+    });
+  }
+
+  test('解析到本機位址的主機名稱拒絕連線', async () => {
+    await assert.rejects(lookup('localhost', false), { code: 'EBLOCKEDADDRESS' });
+    await assert.rejects(lookup('localhost', true), { code: 'EBLOCKEDADDRESS' });
+  });
+
+  test('公開位址照常回傳，並依呼叫端要求回傳一個或全部位址', async () => {
+    assert.equal(await lookup('93.184.216.34', false), '93.184.216.34');
+    assert.deepEqual(await lookup('93.184.216.34', true), [{ address: '93.184.216.34', family: 4 }]);
+  });
+});
+
+describe('fetchPageText', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('不連到內部網路的網址', async () => {
+    const requested = mockFetch(() => new Response('secret'));
+    assert.equal(await fetchPageText('http://169.254.169.254/latest/meta-data/'), null);
+    assert.equal(await fetchPageText('http://[::1]:8080/'), null);
+    assert.deepEqual(requested, []);
+  });
+
+  test('檢查之後主機名稱改解析到內部位址 (DNS rebinding) 時也不會連線', async () => {
+    let hits = 0;
+    const server = createServer((_, res) => {
+      hits++;
+      res.end('secret');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      // 下載前的檢查拿到公開位址，實際連線時 localhost 解析到 127.0.0.1
+      mock.method(dns, 'lookup', async () => [{ address: '93.184.216.34', family: 4 }]);
+      const { port } = server.address() as AddressInfo;
+      assert.equal(await fetchPageText(`http://localhost:${port}/`), null);
+      assert.equal(hits, 0);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('每一次轉址都重新檢查目標位址', async () => {
+    const requested = mockFetch(() => new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/admin' } }));
+    assert.equal(await fetchPageText(PUBLIC_PAGE), null);
+    assert.deepEqual(requested, [PUBLIC_PAGE]);
+  });
+
+  test('跟隨轉址到公開的網頁', async () => {
+    const requested = mockFetch(url => url === PUBLIC_PAGE
+      ? new Response(null, { status: 301, headers: { location: '/moved' } })
+      : new Response('<html><body><p>線性代數</p></body></html>', { headers: { 'content-type': 'text/html' } }));
+    assert.equal(await fetchPageText(PUBLIC_PAGE), '線性代數');
+    assert.deepEqual(requested, [PUBLIC_PAGE, 'http://93.184.216.34/moved']);
+  });
+
+  test('只讀取前 2 MB 的內容', async () => {
+    mockFetch(() => new Response('a'.repeat(3 * 1024 * 1024), { headers: { 'content-type': 'text/plain' } }));
+    const text = await fetchPageText(PUBLIC_PAGE);
+    assert.equal(text?.length, 2 * 1024 * 1024);
+  });
+
+  test('伺服器錯誤時拋出錯誤讓背景工作重試，其他錯誤回傳 null', async () => {
+    mockFetch(() => new Response('', { status: 503 }));
+    await assert.rejects(fetchPageText(PUBLIC_PAGE), /HTTP 503/);
+
+    mock.restoreAll();
+    mockFetch(() => new Response('', { status: 404 }));
+    assert.equal(await fetchPageText(PUBLIC_PAGE), null);
+  });
+});
+
+describe('detectKnowledgeSource', () => {
+  const lecture = '特徵值與特徵向量：若 Av = λv 且 v 不為零向量，則 λ 為 A 的特徵值。'.repeat(10);
+
+  test('單獨的連結，或連結加上整理的指示，視為要整理的網頁', () => {
+    assert.deepEqual(detectKnowledgeSource('https://example.com/post'), { type: 'url', url: 'https://example.com/post' });
+    assert.deepEqual(detectKnowledgeSource('幫我整理 https://example.com/post'), { type: 'url', url: 'https://example.com/post' });
+    assert.equal(detectKnowledgeSource('明天下午三點開會'), null);
+  });
+
+  test('附上連結的行程或地點交給一般的請求處理', () => {
+    assert.equal(detectKnowledgeSource('明天下午三點開會 https://meet.google.com/abc-defg-hij'), null);
+    assert.equal(detectKnowledgeSource('週六在這裡集合 https://maps.app.goo.gl/xyz'), null);
+  });
+
+  test('開頭要求整理的長篇文字視為貼上的課堂內容', () => {
+    const message = `幫我整理成筆記：\n${lecture}`;
+    assert.deepEqual(detectKnowledgeSource(message), { type: 'text', text: message });
+  });
+
+  test('沒有要求整理的長篇訊息交給一般的請求處理', () => {
+    assert.equal(detectKnowledgeSource(lecture), null);
+    const request = '下週要準備期中考，' + '週一到週五每天晚上七點幫我排兩小時複習線性代數，'.repeat(15);
+    assert.ok(request.length >= 300);
+    assert.equal(detectKnowledgeSource(request), null);
+  });
+});
+
+describe('htmlToText', () => {
+  test('移除 script 與標籤，並還原 HTML 實體', () => {
+    assert.equal(htmlToText('<p>A &amp; B</p><script>alert(1)</script><div>C&nbsp;D</div>'), 'A & B\nC D');
+  });
+});
@@ -0,0 +1,247 @@
+// src/services/knowledgeCapture.ts
+
+import { LookupAddress, lookup as lookupCallback, promises as dns } from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Agent, Response, fetch } from 'undici';
+
+// --- 文字與網頁筆記 ---
+// 除了圖片之外，使用者也可以直接貼上一大段課堂文字，或傳一個網頁連結，
+// 由 AI 整理成和圖片筆記相同格式的結構化筆記 (概念、摘要、flashcards、反思問題)。
+
+// 連結之外最多還能附帶的文字長度，例如「幫我整理這篇」
+const URL_NOTE_MAX_EXTRA_LENGTH = 20;
+// 表示要整理成筆記的字詞；沒有這些字詞的訊息 (例如附上會議連結的行程) 交給一般的請求處理
+const CAPTURE_CUES = ['整理', '筆記', '摘要', '重點', '記下', '收藏', 'note', 'summar'];
+// 長篇文字只在開頭這幾個字中尋找上面的字詞，避免內容本身剛好出現這些字
+const CAPTURE_CUE_WINDOW = 20;
+// 下載網頁的逾時時間
+const FETCH_TIMEOUT_MS = 15000;
+// 最多跟隨的轉址次數
+const FETCH_MAX_REDIRECTS = 5;
+// 最多讀取的網頁大小，超過的部分直接捨棄 (交給 AI 的文字本來就有長度上限)
+const FETCH_MAX_BYTES = 2 * 1024 * 1024;
+
+// 不允許下載的位址：本機、內部網路、雲端主機的 metadata 服務 (169.254.169.254) 等，
+// 避免使用者傳來的連結被用來讀取伺服器內部的資源
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// 連線時才發現主機解析到不允許的位址 (例如 DNS rebinding) 時的錯誤代碼
+const BLOCKED_ADDRESS_ERROR = 'EBLOCKEDADDRESS';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'「」『』]+/gi;
+
+export type KnowledgeSource =
+  | { type: 'text'; text: string }
+  | { type: 'url'; url: string };
+
+/**
+ * 要求整理的文字至少要有這麼多字才會被當成要整理的筆記 (KNOWLEDGE_TEXT_MIN_LENGTH，預設 300 字)。
+ */
+export function getKnowledgeTextMinLength(): number {
+  return parseInt(process.env.KNOWLEDGE_TEXT_MIN_LENGTH || '300', 10);
+}
+
+/**
+ * 交給 AI 整理的文字上限，超過的部分會被截掉 (KNOWLEDGE_TEXT_MAX_LENGTH，預設 20000 字)。
+ */
+export function getKnowledgeTextMaxLength(): number {
+  return parseInt(process.env.KNOWLEDGE_TEXT_MAX_LENGTH || '20000', 10);
+}
+
+function hasCaptureCue(text: string): boolean {
+  const lower = text.toLowerCase();
+  return CAPTURE_CUES.some(cue => lower.includes(cue));
+}
+
+/**
+ * 判斷一則文字訊息是不是要整理成筆記的內容：
+ * - 只有一個連結，或連結加上「幫我整理這篇」這類簡短的指示時，視為要整理的網頁
+ * - 開頭明確要求整理 (例如「幫我整理成筆記：…」) 且長度超過門檻的文字，視為貼上的課堂內容
+ * 其他訊息即使帶有連結或很長 (例如附上會議連結的行程、詳細的排程需求)，都交給一般的請求處理。
+ * @returns 不是筆記內容時回傳 null，照一般的請求處理
+ */
+export function detectKnowledgeSource(message: string): KnowledgeSource | null {
+  const text = message.trim();
+  const urls = text.match(URL_PATTERN) || [];
+  if (urls.length === 1) {
+    const extra = text.replace(urls[0], '').trim();
+    if (!extra || (extra.length <= URL_NOTE_MAX_EXTRA_LENGTH && hasCaptureCue(extra))) {
+      return { type: 'url', url: urls[0] };
+    }
+  }
+  if (text.length >= getKnowledgeTextMinLength() && hasCaptureCue(text.slice(0, CAPTURE_CUE_WINDOW))) {
+    return { type: 'text', text };
+  }
+  return null;
+}
+
+/**
+ * 把 HTML 轉成純文字：移除 script/style 等不需要的區塊與所有標籤，並還原常見的 HTML 實體。
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6]|\/tr)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+/**
+ * 是否為可以對外連線的公開位址。
+ * IPv4 對應的 IPv6 位址 (例如 ::ffff:127.0.0.1) 會由 BlockList 以其中的 IPv4 位址判斷。
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 建立連線時使用的 DNS 查詢：只要主機名稱解析出任何不允許的位址就拒絕連線。
+ * 下載前的檢查和實際連線各自查詢一次 DNS，兩次的結果可能不同 (DNS rebinding)，
+ * 所以實際連線的位址也要在這裡檢查一次。
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      const blocked = Object.assign(new Error(`不允許連線的位址: ${hostname}`), { code: BLOCKED_ADDRESS_ERROR });
+      callback(blocked, '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// 下載網頁專用的連線設定，每一次連線 (包含每一次轉址) 都經過 lookupPublicAddress
+const PUBLIC_ONLY_DISPATCHER = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * 確認網址是 http(s)，且主機名稱解析出的所有位址都是公開位址。
+ * @throws DNS 查詢失敗時拋出錯誤，由背景工作負責重試
+ */
+async function isAllowedUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+}
+
+/**
+ * 讀取回應內容，最多 FETCH_MAX_BYTES 位元組，超過的部分捨棄。
+ */
+async function readBodyWithLimit(response: Response): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  while (received < FETCH_MAX_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    const chunk = value.subarray(0, FETCH_MAX_BYTES - received);
+    received += chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel();
+  console.warn(`✂️ 網頁超過 ${FETCH_MAX_BYTES / 1024 / 1024} MB，只讀取前面的部分`);
+  return text + decoder.decode();
+}
+
+/**
+ * 下載網頁並取出純文字內容。
+ * 每一次轉址都會重新檢查目標位址，實際連線時也只連到檢查過的公開位址，不會連到內部網路。
+ * @returns 網頁不存在、不允許存取、不是文字內容或沒有任何文字時回傳 null (重試也不會成功)
+ * @throws 網路錯誤或伺服器錯誤 (5xx) 時拋出錯誤，由背景工作負責重試
+ */
+export async function fetchPageText(url: string): Promise<string | null> {
+  let target = new URL(url);
+  let response: Response | null = null;
+  for (let redirects = 0; redirects <= FETCH_MAX_REDIRECTS; redirects++) {
+    if (!(await isAllowedUrl(target))) {
+      console.warn(`⚠️ 不允許讀取的網址: ${target.href}`);
+      return null;
+    }
+
+    try {
+      response = await fetch(target, {
+        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; LineLearningBot/1.0)' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        dispatcher: PUBLIC_ONLY_DISPATCHER,
+      });
+    } catch (error: any) {
+      if (error?.cause?.code === BLOCKED_ADDRESS_ERROR) {
+        console.warn(`⚠️ 不允許讀取的網址: ${target.href}`);
+        return null;
+      }
+      throw error;
+    }
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    await response.body?.cancel();
+    target = new URL(location, target);
+    response = null;
+  }
+
+  if (!response) {
+    console.warn(`⚠️ 網頁轉址超過 ${FETCH_MAX_REDIRECTS} 次: ${url}`);
+    return null;
+  }
+  if (response.status >= 500) {
+    throw new Error(`下載網頁失敗 (HTTP ${response.status}): ${url}`);
+  }
+  if (!response.ok) {
+    console.warn(`⚠️ 無法讀取網頁 (HTTP ${response.status}): ${url}`);
+    return null;
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/text\/|html|xml|json/i.test(contentType)) {
+    console.warn(`⚠️ 網頁不是文字內容 (${contentType}): ${url}`);
+    await response.body?.cancel();
+    return null;
+  }
+
+  const body = await readBodyWithLimit(response);
+  const text = /html/i.test(contentType) || /<html|<body/i.test(body) ? htmlToText(body) : body.trim();
+  return text || null;
+}
@@ -0,0 +1,49 @@
+// src/services/llm/geminiProvider.ts
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerateOptions, ImageInput, LLMProvider, ModelTier } from './llmProvider';
+
+/**
+ * Google Gemini 的轉接器 (預設的模型供應者)。
+ * 模型名稱可用 GEMINI_MODEL_FAST / GEMINI_MODEL_PRO 覆寫。
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const result = await this.getModel(options).generateContent(prompt);
+    return result.response.text();
+  }
+
+  async generateFromImages(prompt: string, images: ImageInput[], options: GenerateOptions = {}): Promise<string> {
+    // 這是多模態請求的格式：一個文字部分，接著每張圖片各一個部分
+    const result = await this.getModel({ tier: 'pro', ...options }).generateContent([
+      prompt,
+      ...images.map(image => ({
+        inlineData: {
+          data: image.data.toString('base64'),
+          mimeType: image.mimeType,
+        },
+      })),
+    ]);
+    return result.response.text();
+  }
+
+  private getModel(options: GenerateOptions) {
+    return this.genAI.getGenerativeModel({
+      model: this.getModelName(options.tier || 'fast'),
+      generationConfig: options.json ? { responseMimeType: 'application/json' } : undefined,
+    });
+  }
+
+  private getModelName(tier: ModelTier): string {
+    return tier === 'pro'
+      ? process.env.GEMINI_MODEL_PRO || 'gemini-1.5-pro-latest'
+      : process.env.GEMINI_MODEL_FAST || 'gemini-1.5-flash-latest';
+  }
+}
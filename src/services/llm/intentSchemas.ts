@@ -0,0 +1,315 @@
+// src/services/llm/intentSchemas.ts
+
+import { z } from 'zod';
+import { MAX_EVENT_REMINDERS, MAX_REMINDER_MINUTES } from '../eventDetails';
+
+// --- LLM 輸出的執行期格式定義 ---
+// IntelligentPlanner 會用這些 schema 驗證模型回傳的 JSON，
+// 驗證失敗時把錯誤訊息送回模型修正一次，通過後才交給 CalendarHandler 使用。
+
+// 模型常把「沒有值」寫成 null，這裡統一轉成 undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined);
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "必須是 'YYYY-MM-DD' 格式的日期");
+
+const DateTimeString = z.string().refine(
+  value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value)),
+  "必須是 ISO 8601 格式的時間字串，例如 '2025-07-30T19:00:00.000+08:00'"
+);
+
+const NonEmptyString = z.string().trim().min(1, '不能是空字串');
+
+export const RecurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: optional(z.coerce.number().int().positive('間隔必須是正整數')),
+  byWeekday: optional(z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']))),
+  until: optional(DateString),
+  count: optional(z.coerce.number().int().positive('次數必須是正整數')),
+});
+
+// 行程的地點、說明、參加者與通知，單一行程與計畫項目共用
+const EventDetailsSchema = z.object({
+  location: optional(z.string()),
+  description: optional(z.string()),
+  attendees: optional(z.array(z.string().trim().email('必須是有效的 email'))),
+  reminderMinutes: optional(
+    z.array(z.coerce.number().int().min(0).max(MAX_REMINDER_MINUTES, '最早只能在 4 週前通知'))
+      .max(MAX_EVENT_REMINDERS, `最多只能設定 ${MAX_EVENT_REMINDERS} 個通知`)
+  ),
+});
+
+export const PlanEventSchema = EventDetailsSchema.extend({
+  summary: NonEmptyString,
+  date: optional(DateString),
+  startTime: optional(DateTimeString),
+  duration_hours: optional(z.coerce.number().positive('時長必須大於 0')),
+  recurrence: optional(RecurrenceSchema),
+});
+
+export const EventChangesSchema = z.object({
+  summary: optional(NonEmptyString),
+  startTime: optional(DateTimeString),
+  endTime: optional(DateTimeString),
+  location: optional(z.string()),
+  description: optional(z.string()),
+});
+
+// --- understandAndPlan 可能回傳的意圖 ---
+
+const ListEventsIntentSchema = z.object({
+  action: z.literal('list_events'),
+  params: z.object({
+    // 有 startDate 時以起訖日期查詢，timeRange 會被忽略
+    timeRange: optional(z.enum(['today', 'tomorrow', 'week', 'month'])),
+    startDate: optional(DateString),
+    endDate: optional(DateString),
+    keyword: optional(NonEmptyString),
+    objectiveTitle: optional(NonEmptyString),
+    eventType: optional(z.enum(['all_day', 'timed'])),
+  }).default({}),
+});
+
+const CreateEventIntentSchema = z.object({
+  action: z.literal('create_event'),
+  params: EventDetailsSchema.extend({
+    summary: NonEmptyString,
+    startTime: DateTimeString,
+    endTime: optional(DateTimeString),
+    recurrence: optional(RecurrenceSchema),
+    // AI 對這次解析的信心 (0-1)，太低時新增前會先請使用者確認
+    confidence: optional(z.coerce.number().min(0).max(1)),
+  }),
+});
+
+const PlanComplexTaskIntentSchema = z.object({
+  action: z.literal('plan_complex_task'),
+  objectiveTitle: optional(NonEmptyString),
+  task_description: optional(z.string()),
+  plan: z.array(PlanEventSchema).min(1, '計畫至少要有一個項目'),
+});
+
+const PlanGenericTaskIntentSchema = z.object({
+  action: z.literal('plan_generic_task'),
+  plan: z.array(PlanEventSchema).min(1, '計畫至少要有一個項目'),
+});
+
+const ClarifyOrRejectIntentSchema = z.object({
+  action: z.literal('clarify_or_reject'),
+  params: z.object({
+    response: NonEmptyString,
+  }),
+});
+
+// 修改或刪除週期性行程時，使用者有明確說出範圍才提供，否則會另外詢問
+const RecurrenceScopeSchema = optional(z.enum(['instance', 'series']));
+
+const DeleteEventIntentSchema = z.object({
+  action: z.literal('delete_event'),
+  params: z.object({
+    query: NonEmptyString,
+    occurrenceDate: optional(DateString),
+    scope: RecurrenceScopeSchema,
+  }),
+});
+
+const UpdateEventIntentSchema = z.object({
+  action: z.literal('update_event'),
+  params: z.object({
+    query: NonEmptyString,
+    occurrenceDate: optional(DateString),
+    scope: RecurrenceScopeSchema,
+    changes: EventChangesSchema.default({}),
+  }),
+});
+
+const CreateLearningObjectiveIntentSchema = z.object({
+  action: z.literal('create_learning_objective'),
+  params: z.object({
+    title: NonEmptyString,
+    dueDate: optional(DateString),
+  }),
+});
+
+const PlanForObjectiveIntentSchema = z.object({
+  action: z.literal('plan_for_objective'),
+  params: z.object({
+    objectiveTitle: NonEmptyString,
+  }),
+});
+
+const LinkNoteToObjectiveIntentSchema = z.object({
+  action: z.literal('link_note_to_objective'),
+  params: z.object({
+    objectiveTitle: NonEmptyString,
+  }),
+});
+
+const SetReminderIntentSchema = z.object({
+  action: z.literal('set_reminder'),
+  params: z.object({
+    enabled: z.boolean(),
+    minutesBefore: optional(z.coerce.number().int().positive('提醒時間必須大於 0 分鐘')),
+    objectiveTitle: optional(NonEmptyString),
+  }),
+});
+
+const StartQuizIntentSchema = z.object({
+  action: z.literal('start_quiz'),
+  params: z.object({
+    objectiveTitle: optional(NonEmptyString),
+  }).default({}),
+});
+
+const ListObjectivesIntentSchema = z.object({
+  action: z.literal('list_objectives'),
+});
+
+const UpdateObjectiveIntentSchema = z.object({
+  action: z.literal('update_objective'),
+  params: z.object({
+    objectiveTitle: NonEmptyString,
+    changes: z.object({
+      title: optional(NonEmptyString),
+      status: optional(z.enum(['In Progress', 'Completed', 'On Hold'])),
+      dueDate: optional(DateString),
+    }).default({}),
+  }),
+});
+
+const DeleteObjectiveIntentSchema = z.object({
+  action: z.literal('delete_objective'),
+  params: z.object({
+    objectiveTitle: NonEmptyString,
+  }),
+});
+
+const ListNotesIntentSchema = z.object({
+  action: z.literal('list_notes'),
+  params: z.object({
+    objectiveTitle: optional(NonEmptyString),
+    keyword: optional(NonEmptyString),
+  }).default({}),
+});
+
+const OpenNoteIntentSchema = z.object({
+  action: z.literal('open_note'),
+  params: z.object({
+    noteId: z.coerce.number().int().positive('筆記編號必須是正整數'),
+  }),
+});
+
+const SetTimeZoneIntentSchema = z.object({
+  action: z.literal('set_timezone'),
+  params: z.object({
+    timeZone: NonEmptyString,
+  }),
+});
+
+export const UserIntentSchema = z.discriminatedUnion('action', [
+  ListEventsIntentSchema,
+  CreateEventIntentSchema,
+  PlanComplexTaskIntentSchema,
+  PlanGenericTaskIntentSchema,
+  ClarifyOrRejectIntentSchema,
+  DeleteEventIntentSchema,
+  UpdateEventIntentSchema,
+  CreateLearningObjectiveIntentSchema,
+  PlanForObjectiveIntentSchema,
+  LinkNoteToObjectiveIntentSchema,
+  SetReminderIntentSchema,
+  StartQuizIntentSchema,
+  ListObjectivesIntentSchema,
+  UpdateObjectiveIntentSchema,
+  DeleteObjectiveIntentSchema,
+  ListNotesIntentSchema,
+  OpenNoteIntentSchema,
+  SetTimeZoneIntentSchema,
+]);
+
+// --- 計畫的生成、修改與合併 ---
+
+// 模型有時只回傳計畫陣列，或漏掉 action 欄位，先補齊再驗證
+const normalizePlanOutput = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return { action: 'plan_complex_task', plan: value };
+  }
+  if (value && typeof value === 'object' && !('action' in value)) {
+    return { ...value, action: 'plan_complex_task' };
+  }
+  return value;
+};
+
+export const PlanIntentSchema = z.preprocess(normalizePlanOutput, PlanComplexTaskIntentSchema);
+
+export const ModifiedPlanIntentSchema = z.preprocess(
+  normalizePlanOutput,
+  z.discriminatedUnion('action', [PlanComplexTaskIntentSchema, ClarifyOrRejectIntentSchema])
+);
+
+// --- 選項解析 ---
+
+export const ChoiceResultSchema = z.object({
+  selection: z.union([
+    z.array(z.number().int().min(0, '索引從 0 開始')),
+    z.literal('all'),
+    z.literal('none'),
+  ]),
+});
+
+// --- 圖片分析 ---
+// 圖片中的活動可能缺少日期，會再請使用者補充，所以這裡的計畫項目不要求日期、也允許空陣列。
+
+export const ReconstructKnowledgeIntentSchema = z.object({
+  action: z.literal('reconstruct_knowledge'),
+  source: optional(z.string()),
+  concepts: optional(z.array(z.string())),
+  summary: optional(z.array(z.string())),
+  flashcards: optional(z.array(z.object({
+    question: NonEmptyString,
+    answer: NonEmptyString,
+  }))),
+}).passthrough(); // 其他欄位 (situation、reflection 等) 會原樣存進筆記
+
+const ImagePlanIntentSchema = z.object({
+  action: z.literal('plan_complex_task'),
+  source: optional(z.string()),
+  plan: z.array(PlanEventSchema),
+});
+
+const ImageCreateEventIntentSchema = z.object({
+  action: z.literal('create_event'),
+  params: PlanEventSchema,
+});
+
+export const ImageIntentSchema = z.discriminatedUnion('action', [
+  ReconstructKnowledgeIntentSchema,
+  ImagePlanIntentSchema,
+  ImageCreateEventIntentSchema,
+  ClarifyOrRejectIntentSchema,
+]);
+
+// --- 互動測驗 ---
+
+export const QuizQuestionsSchema = z.object({
+  questions: z.array(z.object({
+    noteIndex: z.coerce.number().int().min(0, '索引從 0 開始'),
+    question: NonEmptyString,
+    referenceAnswer: NonEmptyString,
+  })).min(1, '至少要有一道題目'),
+});
+
+export const QuizGradeSchema = z.object({
+  score: z.coerce.number().min(0, '分數最低為 0').max(100, '分數最高為 100').transform(score => Math.round(score)),
+  feedback: NonEmptyString,
+});
+
+export type UserIntent = z.infer<typeof UserIntentSchema>;
+export type PlanIntent = z.infer<typeof PlanIntentSchema>;
+export type ModifiedPlanIntent = z.infer<typeof ModifiedPlanIntentSchema>;
+export type ChoiceResult = z.infer<typeof ChoiceResultSchema>;
+export type ImageIntent = z.infer<typeof ImageIntentSchema>;
+export type KnowledgeIntent = z.infer<typeof ReconstructKnowledgeIntentSchema>;
+export type QuizQuestions = z.infer<typeof QuizQuestionsSchema>;
+export type QuizGrade = z.infer<typeof QuizGradeSchema>;
+export type IntentOf<A extends UserIntent['action']> = Extract<UserIntent, { action: A }>;
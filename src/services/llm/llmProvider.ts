@@ -0,0 +1,73 @@
+// src/services/llm/llmProvider.ts
+
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAiCompatibleProvider';
+import { StubProvider } from './stubProvider';
+
+/**
+ * 模型等級：
+ * - fast：回應快、便宜，適合意圖判斷、選項解析等簡單任務
+ * - pro：能力較強，適合圖片分析與知識加工
+ */
+export type ModelTier = 'fast' | 'pro';
+
+/**
+ * IntelligentPlanner 中每一種提示詞的類型，
+ * 離線的 StubProvider 會用它來挑選對應的罐頭回應。
+ */
+export type PromptType =
+  | 'understand'
+  | 'generate_plan'
+  | 'parse_choice'
+  | 'modify_plan'
+  | 'analyze_image'
+  | 'analyze_text'
+  | 'process_knowledge'
+  | 'merge_correction'
+  | 'generate_quiz'
+  | 'grade_quiz';
+
+export interface GenerateOptions {
+  tier?: ModelTier;
+  json?: boolean;          // 要求模型只輸出 JSON
+  promptType?: PromptType;
+}
+
+// 交給多模態模型的檔案，可以是圖片或 PDF (mimeType 為 'application/pdf')
+export interface ImageInput {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * 大型語言模型的共同介面，讓 IntelligentPlanner 不需要知道背後是哪一家的模型。
+ */
+export interface LLMProvider {
+  readonly name: string;
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+  generateFromImages(prompt: string, images: ImageInput[], options?: GenerateOptions): Promise<string>;
+}
+
+/**
+ * 根據環境變數 LLM_PROVIDER 建立對應的模型供應者。
+ * - 'gemini' (預設)：Google Gemini，需要 GEMINI_API_KEY
+ * - 'openai'：任何 OpenAI 相容的 API (例如本地的 Ollama)，由 OPENAI_BASE_URL 指定
+ * - 'stub'：不連網的罐頭回應，用於開發與測試
+ */
+export function createLLMProvider(): LLMProvider {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiProvider(process.env.GEMINI_API_KEY!);
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        process.env.OPENAI_API_KEY || ''
+      );
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`未知的 LLM_PROVIDER: ${provider} (可用值: gemini, openai, stub)`);
+  }
+}
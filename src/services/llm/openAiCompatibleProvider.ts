@@ -0,0 +1,75 @@
+// src/services/llm/openAiCompatibleProvider.ts
+
+import { GenerateOptions, ImageInput, LLMProvider, ModelTier } from './llmProvider';
+
+/**
+ * OpenAI 相容 API 的轉接器，可以接 OpenAI、本地的 Ollama、vLLM 等服務。
+ * 模型名稱可用 OPENAI_MODEL_FAST / OPENAI_MODEL_PRO 覆寫，
+ * 等待回應的時間上限可用 OPENAI_TIMEOUT_MS 調整 (預設 120 秒)。
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(private baseUrl: string, private apiKey: string) {}
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  async generateFromImages(prompt: string, images: ImageInput[], options: GenerateOptions = {}): Promise<string> {
+    const content = [
+      { type: 'text', text: prompt },
+      ...images.map((image, index) => {
+        const dataUrl = `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+        // 圖片以外的檔案 (例如 PDF) 要用 file 的格式傳送
+        return image.mimeType.startsWith('image/')
+          ? { type: 'image_url', image_url: { url: dataUrl } }
+          : { type: 'file', file: { filename: `document-${index + 1}.pdf`, file_data: dataUrl } };
+      }),
+    ];
+    return this.chat([{ role: 'user', content }], { tier: 'pro', ...options });
+  }
+
+  private async chat(messages: any[], options: GenerateOptions): Promise<string> {
+    // 服務卡住時不能一直等下去，否則同一位使用者之後的訊息都會在佇列中排隊
+    const timeoutMs = this.getTimeoutMs();
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.getModelName(options.tier || 'fast'),
+          messages,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error: any) {
+      if (error?.name === 'TimeoutError') {
+        throw new Error(`OpenAI 相容 API 超過 ${timeoutMs / 1000} 秒沒有回應`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new Error(`OpenAI 相容 API 回傳錯誤 ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  private getTimeoutMs(): number {
+    return parseInt(process.env.OPENAI_TIMEOUT_MS || '120000', 10);
+  }
+
+  private getModelName(tier: ModelTier): string {
+    return tier === 'pro'
+      ? process.env.OPENAI_MODEL_PRO || process.env.OPENAI_MODEL_FAST || 'llama3.1'
+      : process.env.OPENAI_MODEL_FAST || 'llama3.1';
+  }
+}
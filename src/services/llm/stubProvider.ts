@@ -0,0 +1,108 @@
+// src/services/llm/stubProvider.ts
+
+import * as fs from 'fs';
+import { GenerateOptions, ImageInput, LLMProvider, PromptType } from './llmProvider';
+
+// 罐頭回應可以是固定字串，也可以是根據提示詞動態產生的函式
+export type StubResponse = string | ((prompt: string) => string);
+
+// 沒有另外指定時使用的預設回應，讓整個流程在離線時也能跑完
+const DEFAULT_RESPONSES: Record<PromptType, StubResponse> = {
+  understand: JSON.stringify({
+    action: 'clarify_or_reject',
+    params: { response: '(離線模式) 我現在沒有連上 AI 大腦，這是一則預設回覆。' }
+  }),
+  generate_plan: JSON.stringify({
+    action: 'plan_complex_task',
+    plan: [
+      { summary: '步驟一：蒐集資料', duration_hours: 1 },
+      { summary: '步驟二：整理重點', duration_hours: 2 }
+    ]
+  }),
+  parse_choice: JSON.stringify({ selection: 'none' }),
+  modify_plan: JSON.stringify({
+    action: 'plan_complex_task',
+    plan: [{ summary: '步驟一：蒐集資料 (已調整)', duration_hours: 1 }]
+  }),
+  analyze_image: JSON.stringify({
+    action: 'reconstruct_knowledge',
+    source: '離線測試筆記',
+    concepts: ['概念 A', '概念 B'],
+    summary: ['這是離線模式產生的摘要。'],
+    flashcards: [{ question: '什麼是概念 A？', answer: '概念 A 是離線測試用的資料。' }]
+  }),
+  analyze_text: JSON.stringify({
+    action: 'reconstruct_knowledge',
+    source: '離線測試文章',
+    concepts: ['概念 A'],
+    summary: ['這是離線模式根據文字產生的摘要。'],
+    flashcards: [{ question: '什麼是概念 A？', answer: '概念 A 是離線測試用的資料。' }]
+  }),
+  process_knowledge: '(離線模式) 這是知識加工的預設輸出。',
+  merge_correction: JSON.stringify({
+    action: 'plan_complex_task',
+    plan: [{ summary: '離線測試活動', date: '2025-08-20' }]
+  }),
+  generate_quiz: JSON.stringify({
+    questions: [{ noteIndex: 0, question: '請說明概念 A 是什麼？', referenceAnswer: '概念 A 是離線測試用的資料。' }]
+  }),
+  grade_quiz: JSON.stringify({ score: 80, feedback: '(離線模式) 大致正確，可以再補充細節。' }),
+};
+
+/**
+ * 不連網、結果固定的模型供應者，用於開發與測試。
+ * - 預設回應可以用 LLM_STUB_FILE 指定的 JSON 檔 ({ "understand": "...", ... }) 覆寫
+ * - 也可以在程式中用 script() 排入一連串回應，依序取出，用完後回到預設回應
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  private responses: Record<PromptType, StubResponse>;
+  private queues = new Map<PromptType, StubResponse[]>();
+  // 記錄每一次呼叫，方便測試時檢查送出的提示詞
+  public readonly calls: { promptType: PromptType; prompt: string; imageCount: number }[] = [];
+
+  constructor(overrides: Partial<Record<PromptType, StubResponse>> = {}) {
+    this.responses = { ...DEFAULT_RESPONSES, ...StubProvider.loadFromFile(), ...overrides };
+  }
+
+  /**
+   * 為某種提示詞排入接下來要回傳的回應。
+   */
+  script(promptType: PromptType, ...responses: StubResponse[]): this {
+    const queue = this.queues.get(promptType) || [];
+    queue.push(...responses);
+    this.queues.set(promptType, queue);
+    return this;
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.respond(prompt, options, 0);
+  }
+
+  async generateFromImages(prompt: string, images: ImageInput[], options: GenerateOptions = {}): Promise<string> {
+    return this.respond(prompt, options, images.length);
+  }
+
+  private respond(prompt: string, options: GenerateOptions, imageCount: number): string {
+    const promptType = options.promptType || 'understand';
+    this.calls.push({ promptType, prompt, imageCount });
+
+    const response = this.queues.get(promptType)?.shift() ?? this.responses[promptType];
+    return typeof response === 'function' ? response(prompt) : response;
+  }
+
+  private static loadFromFile(): Partial<Record<PromptType, string>> {
+    const filePath = process.env.LLM_STUB_FILE;
+    if (!filePath) {
+      return {};
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    // 檔案中的值可以直接寫 JSON 物件，這裡統一轉成字串
+    const responses: Partial<Record<PromptType, string>> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      responses[key as PromptType] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return responses;
+  }
+}
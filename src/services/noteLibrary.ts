@@ -0,0 +1,96 @@
+// src/services/noteLibrary.ts
+
+import { normalizeText } from '../utils/fuzzyMatch';
+import { KnowledgeNote, KnowledgeNoteData, LearningObjective } from './storageService';
+
+// --- 筆記庫 ---
+// 讓使用者在筆記處理完之後，還能列出、搜尋並重新打開以前的筆記。
+
+// 列表一次最多顯示的筆記數
+const NOTE_LIST_LIMIT = 10;
+
+const SOURCE_ICONS: Record<string, string> = {
+  image: '🖼️',
+  text: '📝',
+  url: '🔗',
+};
+
+export interface NoteFilter {
+  objectiveId?: number;
+  keyword?: string;
+}
+
+/**
+ * 筆記的標題：AI 整理出的來源名稱，沒有時用第一個概念或筆記編號代替。
+ */
+export function getNoteTitle(note: KnowledgeNote): string {
+  return note.data.source || note.data.concepts?.[0] || `筆記 #${note.note_id}`;
+}
+
+/**
+ * 筆記的內容本身，不含複習排程與測驗紀錄，用於出題、評分與搜尋。
+ */
+export function getNoteContent(data: KnowledgeNoteData): KnowledgeNoteData {
+  const { quiz_history, ...content } = data;
+  return { ...content, flashcards: content.flashcards?.map(({ review, ...card }) => card) };
+}
+
+/**
+ * 依學習目標與關鍵字篩選筆記，最新的排在最前面。
+ * 關鍵字會比對整份筆記的內容 (來源、概念、摘要、卡片等)，不分大小寫與全形半形。
+ */
+export function filterNotes(notes: KnowledgeNote[], filter: NoteFilter): KnowledgeNote[] {
+  const keyword = filter.keyword ? normalizeText(filter.keyword) : '';
+
+  return notes
+    .filter(note => filter.objectiveId === undefined || note.objective_id === filter.objectiveId)
+    .filter(note => !keyword || normalizeText(JSON.stringify(getNoteContent(note.data))).includes(keyword))
+    .sort((a, b) => b.note_id - a.note_id);
+}
+
+/**
+ * 將筆記列表格式化成純文字，每則筆記附上編號，讓使用者可以用編號重新打開。
+ * @param notes 已經篩選、排序好的筆記
+ * @param heading 列表的標題，例如「最近的筆記」
+ */
+export function formatNoteList(notes: KnowledgeNote[], objectives: LearningObjective[], heading: string): string {
+  const shown = notes.slice(0, NOTE_LIST_LIMIT);
+  let response = `📚 ${heading} (共 ${notes.length} 份)：\n`;
+
+  for (const note of shown) {
+    const icon = SOURCE_ICONS[note.source_type] || '📄';
+    response += `\n#${note.note_id} ${icon} ${getNoteTitle(note)}\n`;
+
+    const concepts = note.data.concepts || [];
+    if (concepts.length > 0) {
+      response += `   - 重點: ${concepts.slice(0, 3).join('、')}${concepts.length > 3 ? '…' : ''}\n`;
+    }
+    const objective = objectives.find(objective => objective.objective_id === note.objective_id);
+    if (objective) {
+      response += `   - 📂 ${objective.title}\n`;
+    }
+  }
+
+  if (notes.length > shown.length) {
+    response += `\n(只顯示最新的 ${shown.length} 份，可以加上關鍵字或目標名稱縮小範圍)\n`;
+  }
+  response += `\n想重新打開某份筆記，請說「打開筆記 #${shown[0].note_id}」。`;
+  return response;
+}
+
+/**
+ * 重新打開筆記時的內容預覽：標題、重點概念與前幾點摘要。
+ */
+export function formatNotePreview(note: KnowledgeNote): string {
+  let response = `📖 筆記 #${note.note_id}：${getNoteTitle(note)}\n`;
+
+  const concepts = note.data.concepts || [];
+  if (concepts.length > 0) {
+    response += `\n🔑 重點概念：${concepts.join('、')}\n`;
+  }
+  const summary = note.data.summary || [];
+  if (summary.length > 0) {
+    response += `\n📝 摘要：\n- ${summary.slice(0, 5).join('\n- ')}\n`;
+  }
+  return response.trimEnd();
+}
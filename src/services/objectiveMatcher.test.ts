@@ -0,0 +1,69 @@
+// src/services/objectiveMatcher.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { matchObjective, parseObjectiveChoice } from './objectiveMatcher';
+import { LearningObjective } from './storageService';
+
+function objectives(...titles: string[]): LearningObjective[] {
+  return titles.map((title, index) => ({
+    objective_id: index + 1,
+    user_id: 1,
+    title,
+    status: 'In Progress',
+    due_date: null,
+    gcal_event_ids: null,
+  }));
+}
+
+describe('matchObjective', () => {
+  test('只有一個標題包含大部分查詢文字時直接選用', () => {
+    const result = matchObjective(objectives('完成 OpenVINO 競賽的準備', '線性代數期中考'), 'OpenVINO 競賽');
+    assert.equal(result.type, 'match');
+    assert.equal(result.type === 'match' && result.objective.title, '完成 OpenVINO 競賽的準備');
+  });
+
+  test('很短的查詢即使只有一個候選，也要讓使用者確認', () => {
+    const result = matchObjective(objectives('AI 繪圖競賽準備', '線性代數期中考'), 'AI');
+    assert.equal(result.type, 'ambiguous');
+    assert.deepEqual(result.type === 'ambiguous' && result.candidates.map(objective => objective.title), ['AI 繪圖競賽準備']);
+  });
+
+  test('多個標題都包含查詢文字時讓使用者選擇', () => {
+    // 第一個標題的分數遠高於第二個，但兩個都可能是使用者指的目標
+    const result = matchObjective(objectives('線性代數期中考', '英文作文', '準備線性代數作業與複習'), '線性代數');
+    assert.equal(result.type, 'ambiguous');
+    assert.deepEqual(
+      result.type === 'ambiguous' && result.candidates.map(objective => objective.title),
+      ['線性代數期中考', '準備線性代數作業與複習']
+    );
+  });
+
+  test('標題完全相同時優先選用', () => {
+    const result = matchObjective(objectives('線代期中考', '線代'), '線代');
+    assert.equal(result.type === 'match' && result.objective.title, '線代');
+  });
+
+  test('沒有相似的目標', () => {
+    assert.deepEqual(matchObjective(objectives('線代期中考'), '日文檢定'), { type: 'none' });
+  });
+});
+
+describe('parseObjectiveChoice', () => {
+  const candidates = [{ title: '線代期中考' }, { title: '線代作業' }];
+
+  test('辨識編號與中文數字', () => {
+    assert.equal(parseObjectiveChoice(candidates, '2'), 1);
+    assert.equal(parseObjectiveChoice(candidates, '第一個'), 0);
+    assert.equal(parseObjectiveChoice(candidates, '3'), null);
+  });
+
+  test('只有一個候選時回覆「是」代表選它', () => {
+    assert.equal(parseObjectiveChoice([{ title: '線代期中考' }], '是'), 0);
+    assert.equal(parseObjectiveChoice(candidates, '是'), null);
+  });
+
+  test('以部分標題選擇', () => {
+    assert.equal(parseObjectiveChoice(candidates, '期中考'), 0);
+  });
+});
@@ -0,0 +1,63 @@
+// src/services/objectiveMatcher.ts
+
+import { normalizeText, rankByTitle } from '../utils/fuzzyMatch';
+import { LearningObjective } from './storageService';
+
+// 分數達到這個值才算「很確定」，例如標題包含使用者說的文字
+const STRONG_SCORE = 0.85;
+// 低於這個值的目標不列入候選
+const MIN_SCORE = 0.4;
+// 最相似的目標要比第二名高出這麼多，才能直接選用
+const MIN_MARGIN = 0.1;
+// 讓使用者選擇時最多列出的候選數
+const MAX_CANDIDATES = 5;
+
+export type ObjectiveMatch =
+  | { type: 'match'; objective: LearningObjective }
+  | { type: 'ambiguous'; candidates: LearningObjective[] }
+  | { type: 'none' };
+
+/**
+ * 用模糊比對在使用者的學習目標中找出使用者指的是哪一個：
+ * - 標題完全相同，或只有一個很確定的結果時直接選用
+ * - 有多個可能的結果 (包括多個標題都含有使用者說的文字)，或唯一的結果不夠確定時，回傳候選讓使用者選擇
+ */
+export function matchObjective(objectives: LearningObjective[], query: string): ObjectiveMatch {
+  const ranked = rankByTitle(query, objectives, objective => objective.title, MIN_SCORE);
+  if (ranked.length === 0) {
+    return { type: 'none' };
+  }
+
+  const [best, second] = ranked;
+  const normalizedQuery = normalizeText(query);
+  const containing = ranked.filter(match => normalizeText(match.item.title).includes(normalizedQuery));
+  if (best.score === 1 || (best.score >= STRONG_SCORE && containing.length <= 1 && (!second || best.score - second.score >= MIN_MARGIN))) {
+    return { type: 'match', objective: best.item };
+  }
+  return { type: 'ambiguous', candidates: ranked.slice(0, MAX_CANDIDATES).map(match => match.item) };
+}
+
+const CHINESE_NUMERALS: Record<string, number> = { '一': 1, '二': 2, '三': 3, '四': 4, '五': 5 };
+const CONFIRM_TERMS = ['是', '對', '好', '沒錯', 'ok', 'yes'];
+
+/**
+ * 從使用者的文字回覆中辨識選了哪一個候選目標，例如 "2"、"第二個" 或目標的部分標題。
+ * @returns 候選目標的索引，無法判斷時回傳 null
+ */
+export function parseObjectiveChoice(candidates: { title: string }[], message: string): number | null {
+  const text = message.trim().toLowerCase();
+
+  // 只有一個候選時，回覆「是」就代表選它
+  if (candidates.length === 1 && CONFIRM_TERMS.includes(text)) {
+    return 0;
+  }
+
+  const numberMatch = text.match(/^第?\s*([0-9]+|[一二三四五])\s*(個|項)?$/);
+  if (numberMatch) {
+    const index = (CHINESE_NUMERALS[numberMatch[1]] ?? parseInt(numberMatch[1], 10)) - 1;
+    return index >= 0 && index < candidates.length ? index : null;
+  }
+
+  const [best, second] = rankByTitle(message, candidates.map((candidate, index) => ({ ...candidate, index })), candidate => candidate.title, STRONG_SCORE);
+  return best && (!second || best.score - second.score >= MIN_MARGIN) ? best.item.index : null;
+}
@@ -0,0 +1,157 @@
+// src/services/quizSession.ts
+
+import { withQuickReplies } from '../utils/flexRenderer';
+import { BotReply, QuickReplyButton, QuizQuestion, WeakTopic } from '../types';
+import { QuizSessionState, createState, encodePostback } from './conversationState';
+import { getReviewDate } from './flashcardReview';
+import { IntelligentPlanner } from './intelligentPlanner';
+import { QuizGrade } from './llm/intentSchemas';
+import { getNoteContent, getNoteTitle } from './noteLibrary';
+import { KnowledgeNote, StorageService } from './storageService';
+
+// --- 互動測驗 ---
+// 根據一則筆記或某個學習目標底下的所有筆記出題，一次問一題，
+// 使用者直接在聊天中作答，由 AI 依照筆記內容評分並給予回饋。
+// 每次作答的分數都記在筆記的 quiz_history 中，每週回顧會據此找出需要加強的主題。
+
+// 每則筆記保留的作答紀錄筆數
+const QUIZ_HISTORY_LIMIT = 20;
+// 判斷弱點時只看最近幾次的作答
+const RECENT_ATTEMPTS = 5;
+
+const SKIP_TERMS = ['跳過', 'skip', '不會', '不知道', 'pass'];
+
+// 存放在筆記 quiz_history 中的一次作答紀錄
+export interface QuizAttempt {
+  date: string;      // 作答日期 'YYYY-MM-DD'
+  question: string;
+  score: number;     // 0-100
+}
+
+/**
+ * 每次測驗的題數 (QUIZ_QUESTION_COUNT，預設 5 題)。
+ */
+export function getQuizQuestionCount(): number {
+  return parseInt(process.env.QUIZ_QUESTION_COUNT || '5', 10);
+}
+
+/**
+ * 最近的平均分數低於這個值的筆記視為需要加強 (QUIZ_WEAK_SCORE，預設 60 分)。
+ */
+export function getQuizWeakScore(): number {
+  return parseInt(process.env.QUIZ_WEAK_SCORE || '60', 10);
+}
+
+/**
+ * 請 AI 根據筆記出題，並讓使用者進入等待作答的狀態。
+ * 出題失敗時直接拋出錯誤，由呼叫端決定回覆。
+ * @returns 開場白與第一道題目
+ */
+export async function startQuiz(storageService: StorageService, rowNumber: number, notes: KnowledgeNote[]): Promise<BotReply> {
+  const questionCount = getQuizQuestionCount();
+  const result = await IntelligentPlanner.generateQuizQuestions(notes.map(note => getNoteContent(note.data)), questionCount);
+
+  const questions: QuizQuestion[] = result.questions
+    .filter(question => notes[question.noteIndex])
+    .slice(0, questionCount)
+    .map(question => ({
+      noteId: notes[question.noteIndex].note_id,
+      question: question.question,
+      referenceAnswer: question.referenceAnswer,
+    }));
+  if (questions.length === 0) {
+    throw new Error('AI 產生的題目都對應不到筆記');
+  }
+
+  const state = createState('waiting_quiz_answer', { questions, current: 0, scores: [] });
+  await storageService.setUserState(rowNumber, state);
+  const source = notes.length === 1 ? `「${getNoteTitle(notes[0])}」` : `${notes.length} 份筆記`;
+  return [`📝 測驗開始！我根據${source}出了 ${questions.length} 道題目，一次一題，直接回覆您的答案就可以了。`, ...[formatQuizQuestion(state)].flat()];
+}
+
+/**
+ * 請 AI 依照筆記內容為使用者的答案評分，並把分數記到筆記的作答紀錄中。
+ * 評分失敗時直接拋出錯誤，讓使用者可以再回答一次。
+ */
+export async function gradeQuizAnswer(storageService: StorageService, question: QuizQuestion, answer: string): Promise<QuizGrade> {
+  const knowledgeData = await storageService.getKnowledgeNoteById(question.noteId);
+  const grade = await IntelligentPlanner.gradeQuizAnswer(knowledgeData ? getNoteContent(knowledgeData) : null, question.question, question.referenceAnswer, answer);
+  await recordQuizAttempt(storageService, question, grade.score);
+  return grade;
+}
+
+/**
+ * 把一次作答的分數記到筆記的 quiz_history，只保留最近的紀錄。
+ */
+export async function recordQuizAttempt(storageService: StorageService, question: QuizQuestion, score: number): Promise<void> {
+  const knowledgeData = await storageService.getKnowledgeNoteById(question.noteId);
+  if (!knowledgeData) {
+    console.error(`[Quiz] 找不到筆記 #${question.noteId}，無法記錄測驗分數`);
+    return;
+  }
+
+  const history = knowledgeData.quiz_history || [];
+  history.push({ date: getReviewDate(), question: question.question, score });
+  knowledgeData.quiz_history = history.slice(-QUIZ_HISTORY_LIMIT);
+  await storageService.updateKnowledgeNoteData(question.noteId, knowledgeData);
+}
+
+/**
+ * 找出最近的平均分數低於門檻的筆記，分數最低的排在最前面。
+ */
+export function findWeakTopics(notes: KnowledgeNote[], threshold: number = getQuizWeakScore()): WeakTopic[] {
+  const weakTopics: WeakTopic[] = [];
+
+  for (const note of notes) {
+    const history = note.data.quiz_history || [];
+    const recent = history.slice(-RECENT_ATTEMPTS);
+    if (recent.length === 0) {
+      continue;
+    }
+    const averageScore = Math.round(recent.reduce((sum, attempt) => sum + attempt.score, 0) / recent.length);
+    if (averageScore < threshold) {
+      weakTopics.push({ noteId: note.note_id, title: getNoteTitle(note), averageScore, attempts: recent.length });
+    }
+  }
+
+  return weakTopics.sort((a, b) => a.averageScore - b.averageScore);
+}
+
+/**
+ * 使用者是否想跳過這一題，例如 "跳過"、"不知道"。
+ */
+export function isQuizSkip(message: string): boolean {
+  return SKIP_TERMS.includes(message.trim().toLowerCase());
+}
+
+export function formatQuizQuestion(state: QuizSessionState): BotReply {
+  const question = state.questions[state.current];
+  const text = `❓ 第 ${state.current + 1} / ${state.questions.length} 題\n\n${question.question}\n\n請直接回覆您的答案。`;
+  return withQuickReplies(text, quizButtons(state));
+}
+
+export function formatQuizFeedback(grade: QuizGrade, question: QuizQuestion): string {
+  const icon = grade.score >= 80 ? '🎯' : grade.score >= getQuizWeakScore() ? '👍' : '💪';
+  return `${icon} ${grade.score} 分\n${grade.feedback}\n\n💡 參考答案：${question.referenceAnswer}`;
+}
+
+export function formatSkippedQuestion(question: QuizQuestion): string {
+  return `🙈 沒關係，這題先跳過。\n\n💡 參考答案：${question.referenceAnswer}`;
+}
+
+export function formatQuizSummary(scores: number[]): string {
+  const average = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+  const comment = average >= 80
+    ? '表現得非常好，繼續保持！🎉'
+    : average >= getQuizWeakScore()
+      ? '大部分都掌握了，再複習一下參考答案會更穩！'
+      : '這份筆記還需要多加練習，每週回顧時我會提醒您再複習。';
+  return `🏁 測驗結束！共 ${scores.length} 題，平均 ${average} 分。\n${comment}`;
+}
+
+function quizButtons(state: QuizSessionState): QuickReplyButton[] {
+  return [
+    { label: '🙈 跳過這題', data: encodePostback(state, { type: 'confirm' }), displayText: '跳過' },
+    { label: '⏹️ 結束測驗', data: encodePostback(state, { type: 'cancel' }), displayText: '結束測驗' },
+  ];
+}
@@ -0,0 +1,113 @@
+// src/services/recurrence.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildRRule, collapseRecurringInstances, describeRecurrence, getOccurrenceHorizon, parseRRule, shiftChangesToSeries } from './recurrence';
+
+describe('buildRRule', () => {
+  test('每週固定幾天，結束日以使用者時區的當天結束計算', () => {
+    assert.equal(
+      buildRRule({ frequency: 'weekly', byWeekday: ['TH', 'TU', 'TU'], until: '2025-09-30' }, 'Asia/Taipei'),
+      'RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250930T155959Z'
+    );
+    assert.equal(
+      buildRRule({ frequency: 'weekly', until: '2025-09-30' }, 'America/New_York'),
+      'RRULE:FREQ=WEEKLY;UNTIL=20251001T035959Z'
+    );
+  });
+
+  test('間隔大於 1 時才加上 INTERVAL，有次數時不再加上結束日', () => {
+    assert.equal(buildRRule({ frequency: 'daily', interval: 1 }, 'Asia/Taipei'), 'RRULE:FREQ=DAILY');
+    assert.equal(
+      buildRRule({ frequency: 'monthly', interval: 2, count: 6, until: '2025-12-31' }, 'Asia/Taipei'),
+      'RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=6'
+    );
+  });
+
+  test('只有每週重複才使用 BYDAY', () => {
+    assert.equal(buildRRule({ frequency: 'daily', byWeekday: ['MO'] }, 'Asia/Taipei'), 'RRULE:FREQ=DAILY');
+  });
+});
+
+describe('parseRRule', () => {
+  test('可以解析 buildRRule 產生的規則', () => {
+    const recurrence = { frequency: 'weekly' as const, interval: 2, byWeekday: ['TU' as const, 'TH' as const], until: '2025-09-30' };
+    assert.deepEqual(parseRRule([buildRRule(recurrence, 'Asia/Taipei')], 'Asia/Taipei'), recurrence);
+  });
+
+  test('UNTIL 只有日期、BYDAY 帶有序數時也能解析', () => {
+    assert.deepEqual(parseRRule(['EXDATE:20250902', 'RRULE:FREQ=MONTHLY;BYDAY=1MO;UNTIL=20251231'], 'Asia/Taipei'), {
+      frequency: 'monthly',
+      byWeekday: ['MO'],
+      until: '2025-12-31',
+    });
+  });
+
+  test('不是週期性行程或不支援的頻率回傳 null', () => {
+    assert.equal(parseRRule(undefined, 'Asia/Taipei'), null);
+    assert.equal(parseRRule(['RRULE:FREQ=YEARLY'], 'Asia/Taipei'), null);
+  });
+});
+
+describe('describeRecurrence', () => {
+  test('轉成中文說明', () => {
+    assert.equal(describeRecurrence({ frequency: 'weekly', byWeekday: ['TH', 'TU'], until: '2025-09-30' }), '每週二、四，到 2025/9/30 為止');
+    assert.equal(describeRecurrence({ frequency: 'daily', interval: 2, count: 5 }), '每 2 天，共 5 次');
+    assert.equal(describeRecurrence({ frequency: 'weekly', interval: 2, byWeekday: ['MO'] }), '每 2 週的週一');
+    assert.equal(describeRecurrence({ frequency: 'monthly' }), '每月');
+  });
+});
+
+describe('getOccurrenceHorizon', () => {
+  test('有截止日期時算到截止日當天結束，否則算到一週後', () => {
+    assert.deepEqual(getOccurrenceHorizon('2025-09-30', 'Asia/Taipei'), new Date('2025-09-30T16:00:00.000Z'));
+    const now = new Date('2025-09-01T00:00:00.000Z');
+    assert.deepEqual(getOccurrenceHorizon(null, 'Asia/Taipei', now), new Date('2025-09-08T00:00:00.000Z'));
+  });
+});
+
+describe('collapseRecurringInstances', () => {
+  const occurrence = (id: string, start: string) => ({ id, recurringEventId: 'series', start: { dateTime: start } });
+  const single = { id: 'single', start: { dateTime: '2025-09-03T10:00:00Z' } };
+
+  test('同一個系列只保留下一次發生', () => {
+    const now = new Date('2025-09-03T12:00:00Z');
+    const events = [occurrence('s1', '2025-09-02T12:00:00Z'), single, occurrence('s2', '2025-09-04T12:00:00Z'), occurrence('s3', '2025-09-09T12:00:00Z')];
+    assert.deepEqual(collapseRecurringInstances(events, now).map(event => event.id), ['s2', 'single']);
+  });
+
+  test('所有發生都已經過去時保留最後一次', () => {
+    const now = new Date('2025-10-01T00:00:00Z');
+    const events = [occurrence('s1', '2025-09-02T12:00:00Z'), occurrence('s2', '2025-09-09T12:00:00Z')];
+    assert.deepEqual(collapseRecurringInstances(events, now).map(event => event.id), ['s2']);
+  });
+});
+
+describe('shiftChangesToSeries', () => {
+  const master = { start: { dateTime: '2025-09-02T20:00:00+08:00' } };
+
+  test('把某一次的時間修改換算成整個系列的修改', () => {
+    const instance = { start: { dateTime: '2025-09-16T20:00:00+08:00' } };
+    const changes = shiftChangesToSeries(
+      { summary: '複習線代', startTime: '2025-09-16T19:00:00+08:00', endTime: '2025-09-16T20:00:00+08:00' },
+      instance,
+      master
+    );
+    assert.deepEqual(changes, {
+      summary: '複習線代',
+      startTime: '2025-09-02T11:00:00.000Z',
+      endTime: '2025-09-02T12:00:00.000Z',
+    });
+  });
+
+  test('以這次發生被個別調整之前的時間計算', () => {
+    const moved = { start: { dateTime: '2025-09-16T21:00:00+08:00' }, originalStartTime: { dateTime: '2025-09-16T20:00:00+08:00' } };
+    const changes = shiftChangesToSeries({ startTime: '2025-09-16T19:00:00+08:00' }, moved, master);
+    assert.equal(changes.startTime, '2025-09-02T11:00:00.000Z');
+  });
+
+  test('全天的系列不換算', () => {
+    const changes = { startTime: '2025-09-16T19:00:00+08:00' };
+    assert.equal(shiftChangesToSeries(changes, { start: { date: '2025-09-16' } }, { start: { date: '2025-09-02' } }), changes);
+  });
+});
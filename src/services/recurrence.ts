@@ -0,0 +1,174 @@
+// src/services/recurrence.ts
+
+import { EventChanges, Recurrence, Weekday } from '../types';
+import { addDaysToDateString, formatDateString, toZonedDateString, zonedTimeToDate } from '../utils/dateUtils';
+
+// --- 週期性行程 ---
+// 「每週二四晚上 8 點複習線代，到期末為止」會建立成一個帶有 RRULE 的週期性行程，而不是一堆獨立的行程。
+// 用 singleEvents 查詢時，Google Calendar 會把系列展開成個別的發生，每一次都帶有 recurringEventId 指回整個系列；
+// 修改或刪除時可以只針對其中一次，也可以針對整個系列。
+
+const WEEKDAY_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: '一', TU: '二', WE: '三', TH: '四', FR: '五', SA: '六', SU: '日',
+};
+
+const FREQUENCY_RULES: Record<Recurrence['frequency'], string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+// 沒有截止日期的學習目標，週期性行程只計算到一週後
+const DEFAULT_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 將重複規則轉成 Google Calendar 使用的 RRULE，例如 "RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250620T155959Z"。
+ * @param timeZone 使用者所在的時區，結束日期以這個時區的當天結束計算
+ */
+export function buildRRule(recurrence: Recurrence, timeZone: string): string {
+  const parts = [`FREQ=${FREQUENCY_RULES[recurrence.frequency]}`];
+  if (recurrence.interval && recurrence.interval > 1) {
+    parts.push(`INTERVAL=${recurrence.interval}`);
+  }
+  if (recurrence.frequency === 'weekly' && recurrence.byWeekday?.length) {
+    parts.push(`BYDAY=${sortWeekdays(recurrence.byWeekday).join(',')}`);
+  }
+  if (recurrence.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  } else if (recurrence.until) {
+    // UNTIL 必須是 UTC 時間：取結束日當天的最後一秒，當天的那一次也會包含在內
+    const until = new Date(zonedTimeToDate(addDaysToDateString(recurrence.until, 1), 0, 0, timeZone).getTime() - 1000);
+    parts.push(`UNTIL=${until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * 解析 Google Calendar 事件上的 recurrence 欄位。
+ * @returns 重複規則；不是週期性行程或是不支援的頻率 (例如每年) 時回傳 null
+ */
+export function parseRRule(rules: string[] | undefined, timeZone: string): Recurrence | null {
+  const rule = rules?.find(line => line.startsWith('RRULE:'));
+  if (!rule) {
+    return null;
+  }
+
+  const fields = new Map(rule.slice('RRULE:'.length).split(';').map(part => part.split('=') as [string, string]));
+  const frequency = (Object.keys(FREQUENCY_RULES) as Recurrence['frequency'][]).find(key => FREQUENCY_RULES[key] === fields.get('FREQ'));
+  if (!frequency) {
+    return null;
+  }
+
+  const recurrence: Recurrence = { frequency };
+  const interval = parseInt(fields.get('INTERVAL') || '1', 10);
+  if (interval > 1) {
+    recurrence.interval = interval;
+  }
+  const byWeekday = (fields.get('BYDAY') || '')
+    .split(',')
+    .map(day => day.replace(/^[+-]?\d+/, '') as Weekday)
+    .filter(day => WEEKDAY_ORDER.includes(day));
+  if (byWeekday.length > 0) {
+    recurrence.byWeekday = byWeekday;
+  }
+  if (fields.get('COUNT')) {
+    recurrence.count = parseInt(fields.get('COUNT')!, 10);
+  }
+  const until = fields.get('UNTIL');
+  if (until) {
+    // UNTIL 可能是日期 (YYYYMMDD) 或 UTC 時間 (YYYYMMDDTHHMMSSZ)
+    const date = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+    recurrence.until = until.length > 8
+      ? toZonedDateString(new Date(`${date}T${until.slice(9, 11)}:${until.slice(11, 13)}:${until.slice(13, 15)}Z`), timeZone)
+      : date;
+  }
+  return recurrence;
+}
+
+/**
+ * 將重複規則轉成文字，例如「每週二、四，到 2025/6/20 為止」。
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const interval = recurrence.interval && recurrence.interval > 1 ? recurrence.interval : 1;
+  let text: string;
+  switch (recurrence.frequency) {
+    case 'daily':
+      text = interval > 1 ? `每 ${interval} 天` : '每天';
+      break;
+    case 'weekly': {
+      const days = recurrence.byWeekday?.length ? sortWeekdays(recurrence.byWeekday).map(day => WEEKDAY_LABELS[day]).join('、') : '';
+      text = interval > 1 ? `每 ${interval} 週${days ? `的週${days}` : ''}` : `每週${days}`;
+      break;
+    }
+    case 'monthly':
+      text = interval > 1 ? `每 ${interval} 個月` : '每月';
+      break;
+  }
+
+  if (recurrence.count) {
+    text += `，共 ${recurrence.count} 次`;
+  } else if (recurrence.until) {
+    text += `，到 ${formatDateString(recurrence.until)} 為止`;
+  }
+  return text;
+}
+
+/**
+ * 計算週期性行程要算到哪一天：學習目標有截止日期時算到截止日當天結束，否則算到一週後。
+ */
+export function getOccurrenceHorizon(dueDate: string | null | undefined, timeZone: string, now: Date = new Date()): Date {
+  return dueDate
+    ? zonedTimeToDate(addDaysToDateString(dueDate, 1), 0, 0, timeZone)
+    : new Date(now.getTime() + DEFAULT_HORIZON_MS);
+}
+
+/**
+ * 搜尋結果中，同一個系列只保留一次發生：優先保留下一次 (還沒開始的第一次)，都已經過去時保留最後一次。
+ * @param events 依開始時間排序的行程 (singleEvents 展開後的結果)
+ */
+export function collapseRecurringInstances(events: any[], now: Date = new Date()): any[] {
+  const startOf = (event: any) => new Date(event.start?.dateTime || event.start?.date).getTime();
+  const chosen = new Map<string, any>();
+  const result: any[] = [];
+
+  for (const event of events) {
+    const seriesId = event.recurringEventId;
+    if (!seriesId) {
+      result.push(event);
+      continue;
+    }
+    const current = chosen.get(seriesId);
+    if (!current) {
+      chosen.set(seriesId, event);
+      result.push(event);
+    } else if (startOf(current) < now.getTime()) {
+      // 目前保留的那次已經過去了，換成較晚的這一次
+      chosen.set(seriesId, event);
+      result[result.indexOf(current)] = event;
+    }
+  }
+  return result;
+}
+
+/**
+ * 把針對某一次發生的時間修改，換算成整個系列的修改。
+ * 例如系列原本每週二 20:00，使用者要把這週二的那次改到 19:00，整個系列就往前移一小時。
+ * @param instance 使用者選到的那一次發生
+ * @param master 整個系列 (週期性行程本身)
+ */
+export function shiftChangesToSeries(changes: EventChanges, instance: any, master: any): EventChanges {
+  // 這次發生原本 (被個別調整之前) 的開始時間，與系列第一次的差距
+  const originalStart = instance.originalStartTime?.dateTime || instance.start?.dateTime;
+  if (!originalStart || !master.start?.dateTime) {
+    return changes;
+  }
+  const offsetMs = new Date(master.start.dateTime).getTime() - new Date(originalStart).getTime();
+  const shift = (value?: string) => value ? new Date(new Date(value).getTime() + offsetMs).toISOString() : value;
+  return { ...changes, startTime: shift(changes.startTime), endTime: shift(changes.endTime) };
+}
+
+function sortWeekdays(days: Weekday[]): Weekday[] {
+  return [...new Set(days)].sort((a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b));
+}
@@ -0,0 +1,111 @@
+// src/services/reminderScheduler.test.ts
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ReminderScheduler, resolveLeadMinutes } from './reminderScheduler';
+import { ReminderStore } from './reminderStore';
+import { StorageService, User } from './storageService';
+import { GoogleCalendarService } from '../utils/mcpClient';
+import { BotReply } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2025-09-01T10:00:00Z');
+
+describe('resolveLeadMinutes', () => {
+  const settings = { leadMinutes: 30, objectives: { '1': 60, '2': null } };
+
+  test('學習目標的設定優先，其次是使用者的預設值，最後才是系統預設值', () => {
+    assert.equal(resolveLeadMinutes(settings, 1, 15), 60);
+    assert.equal(resolveLeadMinutes(settings, 3, 15), 30);
+    assert.equal(resolveLeadMinutes(settings, null, 15), 30);
+    assert.equal(resolveLeadMinutes(undefined, 1, 15), 15);
+  });
+
+  test('設定為 null 代表關閉提醒，不會退回預設值', () => {
+    assert.equal(resolveLeadMinutes(settings, 2, 15), null);
+    assert.equal(resolveLeadMinutes({ leadMinutes: null }, null, 15), null);
+    assert.equal(resolveLeadMinutes(undefined, null, null), null);
+  });
+});
+
+describe('ReminderScheduler', () => {
+  let store: ReminderStore;
+  let pushed: string[];
+  let failingSummaries: Set<string>;
+
+  const user: User = { id: 1, line_user_id: 'U-test-user', state_json: null, google_refresh_token: 'token', settings_json: null };
+
+  // 距離現在幾分鐘後開始的行程
+  function eventIn(id: string, minutes: number, extra: any = {}) {
+    const start = NOW.getTime() + minutes * MINUTE_MS;
+    return { id, summary: id, start: { dateTime: new Date(start).toISOString() }, end: { dateTime: new Date(start + 60 * MINUTE_MS).toISOString() }, ...extra };
+  }
+
+  function createScheduler(events: any[], objectives: { objective_id: number; gcal_event_ids: string }[] = [], settings?: object) {
+    const calendar = { timeZone: 'Asia/Taipei', listEventsBetween: async () => events } as unknown as GoogleCalendarService;
+    const storage = {
+      getAllUsers: async () => [{ ...user, settings_json: settings ? JSON.stringify(settings) : null }],
+      getActiveObjectivesByUserId: async () => objectives,
+    } as unknown as StorageService;
+    const push = async (_: string, reply: BotReply) => {
+      const text = String(reply);
+      const summary = text.match(/「(.+)」/)?.[1] || '';
+      if (failingSummaries.has(summary)) {
+        throw new Error('LINE push 失敗');
+      }
+      pushed.push(summary);
+    };
+    return new ReminderScheduler(store, storage, () => calendar, push, { scanIntervalMs: 60 * 60 * 1000, defaultLeadMinutes: 15 });
+  }
+
+  // 掃描一輪：stop() 會等待進行中的掃描完成
+  async function scanOnce(scheduler: ReminderScheduler): Promise<void> {
+    scheduler.start();
+    await scheduler.stop();
+  }
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    store = new ReminderStore(':memory:');
+    // 讓同一個 store 可以跨多輪掃描使用
+    mock.method(store, 'close', () => {});
+    pushed = [];
+    failingSummaries = new Set();
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+    store.close();
+  });
+
+  test('只提醒進入提醒時間內的行程，全天與已經開始的行程不提醒', async () => {
+    const events = [eventIn('快開始', 10), eventIn('還很久', 40), eventIn('已開始', -5), { id: '全天', summary: '全天', start: { date: '2025-09-01' }, end: { date: '2025-09-02' } }];
+    await scanOnce(createScheduler(events));
+    assert.deepEqual(pushed, ['快開始']);
+  });
+
+  test('學習目標的提醒時間也適用於週期性行程的每一次發生', async () => {
+    const events = [eventIn('讀書會', 50, { recurringEventId: 'series' }), eventIn('其他', 50)];
+    await scanOnce(createScheduler(events, [{ objective_id: 7, gcal_event_ids: 'series' }], { reminders: { objectives: { '7': 60 } } }));
+    assert.deepEqual(pushed, ['讀書會']);
+  });
+
+  test('已送出的提醒不會重複送出', async () => {
+    const scheduler = createScheduler([eventIn('快開始', 10)]);
+    await scanOnce(scheduler);
+    await scanOnce(scheduler);
+    assert.deepEqual(pushed, ['快開始']);
+  });
+
+  test('推送失敗時取消標記讓下一輪重試，並繼續提醒其他行程', async () => {
+    failingSummaries.add('第一個');
+    const scheduler = createScheduler([eventIn('第一個', 5), eventIn('第二個', 10)]);
+    await scanOnce(scheduler);
+    assert.deepEqual(pushed, ['第二個']);
+
+    failingSummaries.clear();
+    await scanOnce(scheduler);
+    assert.deepEqual(pushed, ['第二個', '第一個']);
+  });
+});
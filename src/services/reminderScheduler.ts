@@ -0,0 +1,181 @@
+// src/services/reminderScheduler.ts
+
+import { GoogleCalendarService } from '../utils/mcpClient';
+import { getEventTimeLabel } from '../utils/responseFormatter';
+import { BotReply } from '../types';
+import { GoogleAuthService } from './googleAuthService';
+import { ReminderStore } from './reminderStore';
+import { ReminderSettings, StorageService, User, parseUserSettings } from './storageService';
+
+// 使用者只說「開啟提醒」而沒有指定時間，且系統預設為不提醒時使用的分鐘數
+export const FALLBACK_LEAD_MINUTES = 15;
+
+export interface ReminderSchedulerOptions {
+  scanIntervalMs: number;
+  defaultLeadMinutes: number | null;   // 使用者沒有設定過時的提醒時間，null 代表預設不提醒
+}
+
+/**
+ * 從環境變數讀取行程提醒的設定。
+ */
+export function getReminderSchedulerOptions(): ReminderSchedulerOptions {
+  const defaultLeadMinutes = parseInt(process.env.REMINDER_DEFAULT_MINUTES || '15');
+  return {
+    scanIntervalMs: parseInt(process.env.REMINDER_SCAN_INTERVAL_MS || '60000'),
+    defaultLeadMinutes: defaultLeadMinutes > 0 ? defaultLeadMinutes : null,
+  };
+}
+
+/**
+ * 決定某個行程要提前幾分鐘提醒：學習目標的設定優先，其次是使用者的預設值，最後才是系統預設值。
+ * @param objectiveId 行程所屬的學習目標，沒有時為 null
+ * @returns 提前的分鐘數，null 代表不提醒
+ */
+export function resolveLeadMinutes(settings: ReminderSettings | undefined, objectiveId: number | null, defaultLeadMinutes: number | null): number | null {
+  const objectiveSetting = objectiveId !== null ? settings?.objectives?.[String(objectiveId)] : undefined;
+  if (objectiveSetting !== undefined) {
+    return objectiveSetting;
+  }
+  if (settings?.leadMinutes !== undefined) {
+    return settings.leadMinutes;
+  }
+  return defaultLeadMinutes;
+}
+
+/**
+ * 行程提醒排程器。
+ * 定期掃描每位已連結 Google 帳號的使用者即將開始的行程，
+ * 在開始前指定的分鐘數透過 LINE 推送提醒；已送出的提醒記錄在 ReminderStore，重啟後不會重複提醒。
+ */
+export class ReminderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(
+    private store: ReminderStore,
+    private storageService: StorageService,
+    private getCalendar: (user: User) => GoogleCalendarService | null,
+    private push: (lineUserId: string, reply: BotReply) => Promise<void>,
+    private options: ReminderSchedulerOptions = getReminderSchedulerOptions()
+  ) {}
+
+  start(): void {
+    this.timer = setInterval(() => this.tick(), this.options.scanIntervalMs);
+    this.tick();
+    console.log('✅ 行程提醒排程器已啟動');
+  }
+
+  /**
+   * 停止排程，並等待進行中的掃描完成。
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.inFlight) {
+      await this.inFlight;
+    }
+    this.store.close();
+    console.log('🔌 行程提醒排程器已停止');
+  }
+
+  private tick(): void {
+    // 上一輪還沒掃完就跳過，避免同一則提醒被兩輪掃描同時送出
+    if (this.inFlight) {
+      return;
+    }
+    this.inFlight = this.scan()
+      .catch(error => console.error('[Reminder] 掃描行程失敗:', error))
+      .finally(() => {
+        this.inFlight = null;
+      });
+  }
+
+  private async scan(): Promise<void> {
+    const now = new Date();
+    const users = await this.storageService.getAllUsers();
+
+    for (const user of users) {
+      try {
+        await this.scanUser(user, now);
+      } catch (error) {
+        if (GoogleAuthService.isAuthRevokedError(error)) {
+          // 使用者下次傳訊息時會被要求重新連結，這裡只略過
+          console.warn(`[Reminder] 使用者 ${user.id} 的 Google 授權已失效，略過提醒`);
+        } else {
+          console.error(`[Reminder] 處理使用者 ${user.id} 的提醒失敗:`, error);
+        }
+      }
+    }
+
+    // 已經開始超過一天的行程不會再被提醒，清掉紀錄避免資料表無限長大
+    this.store.prune(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+  }
+
+  private async scanUser(user: User, now: Date): Promise<void> {
+    const calendar = this.getCalendar(user);
+    if (!calendar) {
+      return;
+    }
+
+    const settings = parseUserSettings(user.settings_json).reminders;
+    const objectiveSettings = Object.values(settings?.objectives || {});
+    const leadCandidates = [resolveLeadMinutes(settings, null, this.options.defaultLeadMinutes), ...objectiveSettings]
+      .filter((minutes): minutes is number => typeof minutes === 'number' && minutes > 0);
+    if (leadCandidates.length === 0) {
+      return; // 所有提醒都關閉了
+    }
+
+    // 事件 ID -> 所屬的學習目標
+    const objectiveByEventId = new Map<string, number>();
+    for (const objective of await this.storageService.getActiveObjectivesByUserId(user.id)) {
+      for (const eventId of (objective.gcal_event_ids || '').split(',').filter(id => id)) {
+        objectiveByEventId.set(eventId, objective.objective_id);
+      }
+    }
+
+    const maxLeadMinutes = Math.max(...leadCandidates);
+    const events = await calendar.listEventsBetween(now, new Date(now.getTime() + maxLeadMinutes * 60 * 1000));
+
+    for (const event of events) {
+      // 全天事件沒有明確的開始時間，不提醒
+      if (!event.start?.dateTime) {
+        continue;
+      }
+      const start = new Date(event.start.dateTime);
+      if (start <= now) {
+        continue;
+      }
+
+      // 週期性事件的每次發生有各自的 ID，學習目標記錄的是整個系列的 ID
+      const objectiveId = objectiveByEventId.get(event.id) ?? objectiveByEventId.get(event.recurringEventId) ?? null;
+      const leadMinutes = resolveLeadMinutes(settings, objectiveId, this.options.defaultLeadMinutes);
+      if (!leadMinutes || start.getTime() - leadMinutes * 60 * 1000 > now.getTime()) {
+        continue;
+      }
+
+      // 先標記再推送：即使推送途中程式重啟，也不會重複提醒
+      if (!this.store.markSent(user.line_user_id, event.id, start)) {
+        continue;
+      }
+      try {
+        await this.push(user.line_user_id, this.formatReminder(event, start, now, calendar.timeZone));
+        console.log(`[Reminder] 已提醒使用者 ${user.id}: ${event.summary}`);
+      } catch (error) {
+        // 取消標記讓下一輪再試，並繼續提醒其他行程
+        this.store.unmarkSent(user.line_user_id, event.id, start);
+        console.error(`[Reminder] 推送提醒給使用者 ${user.id} 失敗: ${event.summary}`, error);
+      }
+    }
+  }
+
+  private formatReminder(event: any, start: Date, now: Date, timeZone: string): string {
+    const minutesLeft = Math.max(1, Math.round((start.getTime() - now.getTime()) / (60 * 1000)));
+    let message = `⏰ 提醒您，「${event.summary || '(無標題)'}」將在 ${minutesLeft} 分鐘後開始\n🕐 ${getEventTimeLabel(event, timeZone)}`;
+    if (event.location) {
+      message += `\n📍 ${event.location}`;
+    }
+    return message;
+  }
+}
@@ -0,0 +1,63 @@
+// src/services/reminderStore.ts
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sent_reminders (
+    line_user_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    start_time TEXT NOT NULL,
+    sent_at TEXT NOT NULL,
+    PRIMARY KEY (line_user_id, event_id, start_time)
+  );
+`;
+
+/**
+ * 記錄已送出的行程提醒 (本地 SQLite 檔案)，讓程式重啟後不會重複提醒。
+ * 以「事件 ID + 開始時間」為鍵，行程改期後會重新提醒一次。
+ */
+export class ReminderStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * 標記一則提醒為已送出。
+   * @returns 第一次標記時回傳 true，已經送過則回傳 false
+   */
+  markSent(lineUserId: string, eventId: string, startTime: Date): boolean {
+    const result = this.db.prepare(
+      'INSERT OR IGNORE INTO sent_reminders (line_user_id, event_id, start_time, sent_at) VALUES (?, ?, ?, ?)'
+    ).run(lineUserId, eventId, startTime.toISOString(), new Date().toISOString());
+    return result.changes > 0;
+  }
+
+  /**
+   * 推送失敗時取消標記，下一輪掃描會再試一次。
+   */
+  unmarkSent(lineUserId: string, eventId: string, startTime: Date): void {
+    this.db.prepare('DELETE FROM sent_reminders WHERE line_user_id = ? AND event_id = ? AND start_time = ?')
+      .run(lineUserId, eventId, startTime.toISOString());
+  }
+
+  /**
+   * 清除開始時間早於 before 的紀錄，這些行程已經不會再被提醒。
+   * @returns 被清除的紀錄數量
+   */
+  prune(before: Date): number {
+    return this.db.prepare('DELETE FROM sent_reminders WHERE start_time < ?').run(before.toISOString()).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
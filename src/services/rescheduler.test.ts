@@ -0,0 +1,65 @@
+// src/services/rescheduler.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyReschedule } from './rescheduler';
+import { GoogleCalendarService } from '../utils/mcpClient';
+import { StorageService } from './storageService';
+import { RescheduleItem } from '../types';
+
+const item: RescheduleItem = {
+  eventId: 'old-event',
+  objectiveId: 1,
+  summary: '複習線性代數',
+  originalStart: '2025-09-01T19:00:00+08:00',
+  start: '2025-09-03T11:00:00.000Z',
+  end: '2025-09-03T13:00:00.000Z',
+};
+
+function googleError(code: number, message = `HTTP ${code}`) {
+  return Object.assign(new Error(message), { code });
+}
+
+// 修改行程時拋出指定的錯誤，並記錄重新建立的行程與換掉的事件 ID
+function setup(patchError: Error) {
+  const created: string[] = [];
+  const replaced: string[][] = [];
+  const calendar = {
+    timeZone: 'Asia/Taipei',
+    patchEvent: async () => { throw patchError; },
+    createEvent: async (event: any) => {
+      created.push(event.summary);
+      return { id: 'new-event' };
+    },
+  } as unknown as GoogleCalendarService;
+  const storage = {
+    replaceObjectiveEventId: async (_: number, oldId: string, newId: string) => { replaced.push([oldId, newId]); },
+  } as unknown as StorageService;
+  return { calendar, storage, created, replaced };
+}
+
+describe('applyReschedule', () => {
+  test('原本的行程已被刪除時重新建立，並換掉學習目標記錄的事件 ID', async () => {
+    for (const code of [404, 410]) {
+      const { calendar, storage, created, replaced } = setup(googleError(code));
+      assert.deepEqual(await applyReschedule(calendar, storage, [item]), { moved: [item], failed: [] });
+      assert.deepEqual(created, ['複習線性代數']);
+      assert.deepEqual(replaced, [['old-event', 'new-event']]);
+    }
+  });
+
+  test('暫時性的錯誤不重新建立，避免多出重複的行程', async () => {
+    for (const error of [googleError(503), googleError(429), new Error('socket hang up')]) {
+      const { calendar, storage, created, replaced } = setup(error);
+      assert.deepEqual(await applyReschedule(calendar, storage, [item]), { moved: [], failed: [item] });
+      assert.deepEqual(created, []);
+      assert.deepEqual(replaced, []);
+    }
+  });
+
+  test('授權失效時拋出錯誤，讓使用者重新連結', async () => {
+    const { calendar, storage, created } = setup(googleError(400, 'invalid_grant'));
+    await assert.rejects(applyReschedule(calendar, storage, [item]), /invalid_grant/);
+    assert.deepEqual(created, []);
+  });
+});
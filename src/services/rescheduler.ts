@@ -0,0 +1,102 @@
+// src/services/rescheduler.ts
+
+import { GoogleCalendarService } from '../utils/mcpClient';
+import { RescheduleItem } from '../types';
+import { GoogleAuthService } from './googleAuthService';
+import { StorageService } from './storageService';
+
+// 過期任務重新安排的範圍：從明天起的一週內
+const RESCHEDULE_HORIZON_DAYS = 7;
+
+// 屬於某個學習目標的過期行程
+export interface OverdueTask {
+  event: any;
+  objectiveId: number;
+}
+
+export interface RescheduleProposal {
+  items: RescheduleItem[];     // 找到新時段的任務
+  unscheduled: string[];       // 一週內找不到空檔的任務標題
+}
+
+export interface RescheduleResult {
+  moved: RescheduleItem[];
+  failed: RescheduleItem[];
+}
+
+/**
+ * 為過期的任務在接下來一週找出新的空檔，時長沿用原本的行程 (全天事件視為 1 小時)。
+ */
+export async function proposeReschedule(calendar: GoogleCalendarService, tasks: OverdueTask[]): Promise<RescheduleProposal> {
+  const durations = tasks.map(({ event }) => {
+    if (!event.start?.dateTime || !event.end?.dateTime) {
+      return 1;
+    }
+    const hours = (new Date(event.end.dateTime).getTime() - new Date(event.start.dateTime).getTime()) / (60 * 60 * 1000);
+    return hours > 0 ? hours : 1;
+  });
+  const slots = await calendar.findSlotsWithinDays(durations, RESCHEDULE_HORIZON_DAYS);
+
+  const proposal: RescheduleProposal = { items: [], unscheduled: [] };
+  tasks.forEach(({ event, objectiveId }, index) => {
+    const slot = slots[index];
+    if (!slot) {
+      proposal.unscheduled.push(event.summary);
+      return;
+    }
+    proposal.items.push({
+      eventId: event.id,
+      objectiveId,
+      summary: event.summary,
+      originalStart: event.start.dateTime || event.start.date,
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+    });
+  });
+  return proposal;
+}
+
+/**
+ * 把過期的任務移到新的時段。
+ * 優先直接修改原本的行程 (事件 ID 不變)；原本的行程已被刪除 (404/410) 時，重新建立一個，
+ * 並把學習目標記錄的事件 ID 換成新的 ID。其他錯誤不重新建立，避免原本的行程還在卻多出一個複本。
+ * @throws 授權失效時拋出錯誤，讓呼叫端請使用者重新連結
+ */
+export async function applyReschedule(calendar: GoogleCalendarService, storageService: StorageService, items: RescheduleItem[]): Promise<RescheduleResult> {
+  const result: RescheduleResult = { moved: [], failed: [] };
+
+  for (const item of items) {
+    const start = { dateTime: item.start, timeZone: calendar.timeZone };
+    const end = { dateTime: item.end, timeZone: calendar.timeZone };
+
+    try {
+      // 原本是全天事件時，要清掉 date 才能改成有具體時間的行程
+      await calendar.patchEvent(item.eventId, { start: { ...start, date: null }, end: { ...end, date: null } });
+      result.moved.push(item);
+      continue;
+    } catch (error: any) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
+      if (error?.code !== 404 && error?.code !== 410) {
+        console.error(`無法重新安排事件: "${item.summary}"`, error);
+        result.failed.push(item);
+        continue;
+      }
+      console.warn(`[GCAL] 事件 ${item.eventId} 已被刪除，改為重新建立`);
+    }
+
+    try {
+      const createdEvent = await calendar.createEvent({ summary: item.summary, start, end });
+      await storageService.replaceObjectiveEventId(item.objectiveId, item.eventId, createdEvent.id);
+      result.moved.push(item);
+    } catch (error) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
+      console.error(`無法重新安排事件: "${item.summary}"`, error);
+      result.failed.push(item);
+    }
+  }
+  return result;
+}
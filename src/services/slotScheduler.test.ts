@@ -0,0 +1,113 @@
+// src/services/slotScheduler.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SchedulingOptions, TimeInterval, assignSlots, findGapInDay, getCandidateDays } from './slotScheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 2025-08-01 (週五) 晚上，從下週一開始排
+const options: SchedulingOptions = {
+  timeZone: 'Asia/Taipei',
+  workStartHour: 9,
+  workEndHour: 18,
+  includeWeekends: false,
+  horizonDays: 14,
+  now: new Date('2025-08-01T12:00:00Z'),
+};
+
+// 台北時間的某天幾點幾分
+function taipei(day: string, time: string): Date {
+  return new Date(`${day}T${time}:00+08:00`);
+}
+
+function interval(day: string, start: string, end: string): TimeInterval {
+  return { start: taipei(day, start), end: taipei(day, end) };
+}
+
+describe('findGapInDay', () => {
+  test('沒有行程時從可安排時段的開頭排入', () => {
+    assert.deepEqual(findGapInDay('2025-08-04', 2 * HOUR_MS, [], options), interval('2025-08-04', '09:00', '11:00'));
+  });
+
+  test('跳過已占用的時段，並對齊到 30 分鐘', () => {
+    const busy = [interval('2025-08-04', '09:00', '10:15')];
+    assert.deepEqual(findGapInDay('2025-08-04', HOUR_MS, busy, options), interval('2025-08-04', '10:30', '11:30'));
+  });
+
+  test('行程之間的空檔足夠時排在中間', () => {
+    const busy = [interval('2025-08-04', '09:00', '10:00'), interval('2025-08-04', '12:00', '18:00')];
+    assert.deepEqual(findGapInDay('2025-08-04', 2 * HOUR_MS, busy, options), interval('2025-08-04', '10:00', '12:00'));
+  });
+
+  test('剩下的時間不夠時回傳 null', () => {
+    const busy = [interval('2025-08-04', '09:00', '17:00')];
+    assert.equal(findGapInDay('2025-08-04', 2 * HOUR_MS, busy, options), null);
+  });
+
+  test('當天已經過去的時間不會排入', () => {
+    const now = taipei('2025-08-04', '13:10');
+    assert.deepEqual(findGapInDay('2025-08-04', HOUR_MS, [], { ...options, now }), interval('2025-08-04', '13:30', '14:30'));
+  });
+});
+
+describe('assignSlots', () => {
+  const days = ['2025-08-04', '2025-08-05', '2025-08-06', '2025-08-07'];
+
+  test('平均分散到所有候選日', () => {
+    const slots = assignSlots([1, 1], [], days, options, true);
+    assert.deepEqual(slots, [interval('2025-08-04', '09:00', '10:00'), interval('2025-08-06', '09:00', '10:00')]);
+  });
+
+  test('不分散時每天依序排入一項', () => {
+    const slots = assignSlots([1, 1, 1], [], days, options, false);
+    assert.deepEqual(slots.map(slot => slot?.start), [
+      taipei('2025-08-04', '09:00'),
+      taipei('2025-08-05', '09:00'),
+      taipei('2025-08-06', '09:00'),
+    ]);
+  });
+
+  test('目標日期排滿時往後找，之後的日期也滿了就從頭找', () => {
+    const fullDay = (day: string) => interval(day, '09:00', '18:00');
+
+    const movedLater = assignSlots([1, 1], [fullDay('2025-08-06')], days, options, true);
+    assert.deepEqual(movedLater, [interval('2025-08-04', '09:00', '10:00'), interval('2025-08-07', '09:00', '10:00')]);
+
+    const wrapped = assignSlots([1, 1, 1], [fullDay('2025-08-06'), fullDay('2025-08-07')], days, options, false);
+    assert.deepEqual(wrapped, [
+      interval('2025-08-04', '09:00', '10:00'),
+      interval('2025-08-05', '09:00', '10:00'),
+      interval('2025-08-04', '10:00', '11:00'),
+    ]);
+  });
+
+  test('同一批項目不會排進彼此的時段', () => {
+    const slots = assignSlots([3, 3, 3], [], ['2025-08-04'], options, true);
+    assert.deepEqual(slots, [
+      interval('2025-08-04', '09:00', '12:00'),
+      interval('2025-08-04', '12:00', '15:00'),
+      interval('2025-08-04', '15:00', '18:00'),
+    ]);
+  });
+
+  test('完全找不到空檔的項目為 null', () => {
+    const slots = assignSlots([10], [], days, options, true);
+    assert.deepEqual(slots, [null]);
+  });
+});
+
+describe('getCandidateDays', () => {
+  test('從明天開始，並跳過週末', () => {
+    const days = getCandidateDays({ ...options, horizonDays: 7 });
+    assert.deepEqual(days, ['2025-08-04', '2025-08-05', '2025-08-06', '2025-08-07', '2025-08-08']);
+  });
+
+  test('有截止日期時只排到截止日前一天', () => {
+    assert.deepEqual(getCandidateDays(options, '2025-08-07'), ['2025-08-04', '2025-08-05', '2025-08-06']);
+  });
+
+  test('截止日就是明天時保留截止日當天', () => {
+    assert.deepEqual(getCandidateDays({ ...options, includeWeekends: true }, '2025-08-02'), ['2025-08-02']);
+  });
+});
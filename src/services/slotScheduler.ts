@@ -0,0 +1,149 @@
+// src/services/slotScheduler.ts
+
+import {
+  addDaysToDateString,
+  getDefaultTimeZone,
+  getWeekdayOfDateString,
+  toZonedDateString,
+  zonedTimeToDate
+} from '../utils/dateUtils';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface SchedulingOptions {
+  timeZone: string;
+  workStartHour: number;   // 每天最早可以排入的時間 (當地時間)
+  workEndHour: number;     // 每天最晚必須結束的時間 (當地時間)
+  includeWeekends: boolean;
+  horizonDays: number;     // 沒有截止日期時，往後找空檔的天數
+  now: Date;
+}
+
+// 排程時間對齊到 30 分鐘，讓行程看起來比較整齊
+const SLOT_ALIGNMENT_MS = 30 * 60 * 1000;
+
+/**
+ * 從環境變數讀取排程設定。
+ * - SCHEDULE_WORK_START_HOUR / SCHEDULE_WORK_END_HOUR：可安排的時段 (預設 9 - 18 點)
+ * - SCHEDULE_INCLUDE_WEEKENDS：是否可以排在週末 (預設否)
+ * - SCHEDULE_HORIZON_DAYS：沒有截止日期時往後找的天數 (預設 14 天)
+ */
+export function getSchedulingOptions(timeZone: string = getDefaultTimeZone()): SchedulingOptions {
+  return {
+    timeZone,
+    workStartHour: parseInt(process.env.SCHEDULE_WORK_START_HOUR || '9', 10),
+    workEndHour: parseInt(process.env.SCHEDULE_WORK_END_HOUR || '18', 10),
+    includeWeekends: process.env.SCHEDULE_INCLUDE_WEEKENDS === 'true',
+    horizonDays: parseInt(process.env.SCHEDULE_HORIZON_DAYS || '14', 10),
+    now: new Date()
+  };
+}
+
+/**
+ * 計算規劃的候選日期 (從明天開始)。
+ * 有截止日期時，只會排在截止日之前；截止日太近時，至少保留截止日當天。
+ * @param dueDate 學習目標的截止日期 ('YYYY-MM-DD')
+ * @returns 候選日期字串陣列 ('YYYY-MM-DD')
+ */
+export function getCandidateDays(options: SchedulingOptions, dueDate?: string | null): string[] {
+  const today = toZonedDateString(options.now, options.timeZone);
+  const firstDay = addDaysToDateString(today, 1);
+  const lastDay = dueDate && dueDate > firstDay
+    ? addDaysToDateString(dueDate, -1)
+    : dueDate === firstDay
+      ? firstDay
+      : addDaysToDateString(today, options.horizonDays);
+
+  const days: string[] = [];
+  for (let day = firstDay; day <= lastDay; day = addDaysToDateString(day, 1)) {
+    const weekday = getWeekdayOfDateString(day);
+    if (!options.includeWeekends && (weekday === 0 || weekday === 6)) continue;
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * 取得候選日期涵蓋的完整查詢範圍，用來向 Google Calendar 查詢 free/busy。
+ */
+export function getPlanningWindow(days: string[], options: SchedulingOptions): TimeInterval {
+  return {
+    start: zonedTimeToDate(days[0], options.workStartHour, 0, options.timeZone),
+    end: zonedTimeToDate(days[days.length - 1], options.workEndHour, 0, options.timeZone)
+  };
+}
+
+/**
+ * 為每個項目找出實際的空檔。
+ * 項目會平均分散在候選日期中 (有截止日期時，會分散到截止日前)；
+ * 若目標日期沒有足夠的空檔，會往後找，再找不到則從頭找起。
+ * @param durationsHours 每個項目需要的時長 (小時)
+ * @param busy 行事曆上已經被占用的時段
+ * @param days getCandidateDays 算出的候選日期
+ * @param spreadEvenly true 時平均分散到所有候選日，false 時每天一項依序排入
+ * @returns 與 durationsHours 對應的時段，找不到空檔的項目為 null
+ */
+export function assignSlots(
+  durationsHours: number[],
+  busy: TimeInterval[],
+  days: string[],
+  options: SchedulingOptions,
+  spreadEvenly: boolean
+): (TimeInterval | null)[] {
+  const occupied = [...busy];
+  const results: (TimeInterval | null)[] = [];
+
+  durationsHours.forEach((hours, index) => {
+    const durationMs = (hours || 1) * 60 * 60 * 1000;
+    const targetIndex = spreadEvenly
+      ? Math.floor(index * days.length / durationsHours.length)
+      : Math.min(index, days.length - 1);
+
+    // 先從目標日期往後找，再從最前面找到目標日期為止
+    const searchOrder = [...days.slice(targetIndex), ...days.slice(0, targetIndex)];
+    let slot: TimeInterval | null = null;
+    for (const day of searchOrder) {
+      slot = findGapInDay(day, durationMs, occupied, options);
+      if (slot) break;
+    }
+
+    if (slot) {
+      occupied.push(slot);
+    }
+    results.push(slot);
+  });
+
+  return results;
+}
+
+/**
+ * 在某一天的可安排時段中，找出第一個足夠長的空檔。
+ */
+export function findGapInDay(day: string, durationMs: number, occupied: TimeInterval[], options: SchedulingOptions): TimeInterval | null {
+  const dayStart = zonedTimeToDate(day, options.workStartHour, 0, options.timeZone);
+  const dayEnd = zonedTimeToDate(day, options.workEndHour, 0, options.timeZone);
+
+  let cursor = alignUp(Math.max(dayStart.getTime(), options.now.getTime()));
+  const blocking = occupied
+    .filter(interval => interval.end.getTime() > dayStart.getTime() && interval.start.getTime() < dayEnd.getTime())
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (const interval of blocking) {
+    if (interval.start.getTime() - cursor >= durationMs) {
+      break;
+    }
+    cursor = Math.max(cursor, alignUp(interval.end.getTime()));
+  }
+
+  if (dayEnd.getTime() - cursor >= durationMs) {
+    return { start: new Date(cursor), end: new Date(cursor + durationMs) };
+  }
+  return null;
+}
+
+function alignUp(timeMs: number): number {
+  return Math.ceil(timeMs / SLOT_ALIGNMENT_MS) * SLOT_ALIGNMENT_MS;
+}
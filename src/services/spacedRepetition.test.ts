@@ -0,0 +1,52 @@
+// src/services/spacedRepetition.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CardSchedule, isCardDue, scheduleCard } from './spacedRepetition';
+
+const TODAY = '2025-08-01';
+
+describe('scheduleCard', () => {
+  test('新卡片記得時明天複習，第二次隔 6 天，之後依難易係數拉長', () => {
+    const first = scheduleCard(undefined, 'good', TODAY);
+    assert.deepEqual(first, { ease: 2.5, intervalDays: 1, repetitions: 1, due: '2025-08-02', lastReviewed: TODAY });
+
+    const second = scheduleCard(first, 'good', first.due);
+    assert.equal(second.intervalDays, 6);
+    assert.equal(second.due, '2025-08-08');
+
+    const third = scheduleCard(second, 'good', second.due);
+    assert.equal(third.intervalDays, 15);
+    assert.equal(third.repetitions, 3);
+    assert.equal(third.due, '2025-08-23');
+  });
+
+  test('評分越高，難易係數越高', () => {
+    assert.equal(scheduleCard(undefined, 'easy', TODAY).ease, 2.6);
+    assert.equal(scheduleCard(undefined, 'hard', TODAY).ease, 2.36);
+    assert.equal(scheduleCard(undefined, 'again', TODAY).ease, 2.18);
+  });
+
+  test('忘了時連續答對次數歸零，明天再複習', () => {
+    const learned: CardSchedule = { ease: 2.5, intervalDays: 15, repetitions: 3, due: TODAY, lastReviewed: '2025-07-17' };
+    const forgotten = scheduleCard(learned, 'again', TODAY);
+    assert.equal(forgotten.repetitions, 0);
+    assert.equal(forgotten.intervalDays, 1);
+    assert.equal(forgotten.due, '2025-08-02');
+  });
+
+  test('難易係數不會低於 1.3', () => {
+    const hardCard: CardSchedule = { ease: 1.4, intervalDays: 1, repetitions: 0, due: TODAY, lastReviewed: '2025-07-31' };
+    assert.equal(scheduleCard(hardCard, 'again', TODAY).ease, 1.3);
+  });
+});
+
+describe('isCardDue', () => {
+  test('新卡片與到期的卡片都需要複習', () => {
+    const schedule = scheduleCard(undefined, 'good', TODAY);
+    assert.equal(isCardDue(undefined, TODAY), true);
+    assert.equal(isCardDue(schedule, TODAY), false);
+    assert.equal(isCardDue(schedule, '2025-08-02'), true);
+    assert.equal(isCardDue(schedule, '2025-08-10'), true);
+  });
+});
@@ -0,0 +1,68 @@
+// src/services/spacedRepetition.ts
+
+import { addDaysToDateString } from '../utils/dateUtils';
+import { FlashcardGrade } from '../types';
+
+// 單張卡片的 SM-2 排程，存放在筆記 flashcards[i].review 中
+export interface CardSchedule {
+  ease: number;          // 難易係數 (E-Factor)，最低 1.3
+  intervalDays: number;  // 距離下次複習的天數
+  repetitions: number;   // 連續答對的次數，答錯時歸零
+  due: string;           // 下次複習的日期 'YYYY-MM-DD'
+  lastReviewed: string;  // 上次複習的日期 'YYYY-MM-DD'
+}
+
+// 新卡片的初始難易係數
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// 評分對應到 SM-2 的 0-5 分，低於 3 分視為沒有記住
+const GRADE_QUALITY: Record<FlashcardGrade, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * 依照 SM-2 演算法，根據這次的評分算出卡片的下一次複習排程。
+ * @param schedule 卡片目前的排程，新卡片為 undefined
+ * @param today 今天的日期 'YYYY-MM-DD' (使用者所在時區)
+ */
+export function scheduleCard(schedule: CardSchedule | undefined, grade: FlashcardGrade, today: string): CardSchedule {
+  const quality = GRADE_QUALITY[grade];
+  const previousEase = schedule?.ease ?? INITIAL_EASE;
+  const ease = Math.max(MIN_EASE, previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (quality < 3) {
+    // 沒記住：從頭開始，明天再複習一次
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = (schedule?.repetitions ?? 0) + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round((schedule?.intervalDays ?? 1) * ease);
+    }
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    due: addDaysToDateString(today, intervalDays),
+    lastReviewed: today,
+  };
+}
+
+/**
+ * 卡片是否需要在今天複習：從沒複習過的新卡片，或排程日期已到的卡片。
+ */
+export function isCardDue(schedule: CardSchedule | undefined, today: string): boolean {
+  return !schedule || schedule.due <= today;
+}
@@ -0,0 +1,261 @@
+// src/services/sqliteStorageService.ts
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KnowledgeNote, KnowledgeNoteData, LearningObjective, parseKnowledgeNoteData, NoteSourceType, ObjectiveChanges, StorageService, User, UserContext, UserSettings } from './storageService';
+
+// 資料表結構與 Google Sheets 的分頁欄位一一對應
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    line_user_id TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    state_json TEXT,
+    google_refresh_token TEXT,
+    settings_json TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS learning_objectives (
+    objective_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'In Progress',
+    due_date TEXT,
+    gcal_event_ids TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_objectives_user ON learning_objectives (user_id, status);
+
+  CREATE TABLE IF NOT EXISTS knowledge_notes (
+    note_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    objective_id INTEGER,
+    source_type TEXT NOT NULL,
+    raw_content TEXT,
+    structured_data_json TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_notes_user ON knowledge_notes (user_id);
+`;
+
+/**
+ * 以本地 SQLite 檔案實作的儲存服務。
+ * 適合在沒有 Google Sheet 的環境下開發、測試或執行排程任務。
+ */
+export class SqliteStorageService implements StorageService {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  /**
+   * 為舊版資料庫補上後來新增的欄位
+   */
+  private migrate(): void {
+    const userColumns = (this.db.prepare('PRAGMA table_info(users)').all() as { name: string }[]).map(c => c.name);
+    if (!userColumns.includes('google_refresh_token')) {
+      this.db.exec('ALTER TABLE users ADD COLUMN google_refresh_token TEXT');
+    }
+    if (!userColumns.includes('settings_json')) {
+      this.db.exec('ALTER TABLE users ADD COLUMN settings_json TEXT');
+    }
+  }
+
+  /**
+   * 根據 line_user_id 尋找或建立一個使用者。
+   * SQLite 沒有列號的概念，因此 rowNumber 直接使用 user id。
+   */
+  async findOrCreateUser(lineUserId: string): Promise<UserContext> {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO users (line_user_id, created_at, state_json) VALUES (?, ?, NULL)'
+    );
+    const result = insert.run(lineUserId, new Date().toISOString());
+    if (result.changes > 0) {
+      console.log(`[DB] 新使用者，建立中: ${lineUserId}`);
+    }
+
+    const row = this.db.prepare('SELECT id, line_user_id, state_json, google_refresh_token, settings_json FROM users WHERE line_user_id = ?').get(lineUserId) as User;
+    return { rowNumber: row.id, user: row };
+  }
+
+  async setUserState(rowNumber: number, state: object | null): Promise<void> {
+    const value = state ? JSON.stringify(state) : null;
+    this.db.prepare('UPDATE users SET state_json = ? WHERE id = ?').run(value, rowNumber);
+  }
+
+  async setUserGoogleToken(rowNumber: number, refreshToken: string | null): Promise<void> {
+    this.db.prepare('UPDATE users SET google_refresh_token = ? WHERE id = ?').run(refreshToken, rowNumber);
+  }
+
+  async setUserSettings(rowNumber: number, settings: UserSettings): Promise<void> {
+    this.db.prepare('UPDATE users SET settings_json = ? WHERE id = ?').run(JSON.stringify(settings), rowNumber);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.prepare('SELECT id, line_user_id, state_json, google_refresh_token, settings_json FROM users ORDER BY id').all() as User[];
+  }
+
+  async createLearningObjective(userId: number, title: string, dueDate: string | null = null): Promise<LearningObjective> {
+    const result = this.db.prepare(
+      "INSERT INTO learning_objectives (user_id, title, status, due_date, gcal_event_ids) VALUES (?, ?, 'In Progress', ?, NULL)"
+    ).run(userId, title, dueDate);
+
+    const objectiveId = Number(result.lastInsertRowid);
+    console.log(`[DB] 已為使用者 ${userId} 建立新目標 #${objectiveId}: ${title}`);
+    return {
+      objective_id: objectiveId,
+      user_id: userId,
+      title: title,
+      status: 'In Progress',
+      due_date: dueDate,
+      gcal_event_ids: null
+    };
+  }
+
+  async linkEventToObjective(objectiveId: number, eventId: string): Promise<void> {
+    const result = this.db.prepare(`
+      UPDATE learning_objectives
+      SET gcal_event_ids = CASE WHEN gcal_event_ids IS NULL OR gcal_event_ids = '' THEN ? ELSE gcal_event_ids || ',' || ? END
+      WHERE objective_id = ?
+    `).run(eventId, eventId, objectiveId);
+
+    if (result.changes === 0) {
+      console.error(`[DB] 關聯失敗：找不到目標 #${objectiveId}`);
+      return;
+    }
+    console.log(`[DB] 已將事件 ${eventId} 關聯到目標 #${objectiveId}`);
+  }
+
+  async replaceObjectiveEventId(objectiveId: number, oldEventId: string, newEventId: string): Promise<void> {
+    const row = this.db.prepare('SELECT gcal_event_ids FROM learning_objectives WHERE objective_id = ?')
+      .get(objectiveId) as { gcal_event_ids: string | null } | undefined;
+    if (!row) {
+      console.error(`[DB] 更新事件關聯失敗：找不到目標 #${objectiveId}`);
+      return;
+    }
+
+    const eventIds = (row.gcal_event_ids || '').split(',').filter(id => id);
+    const newEventIds = eventIds.includes(oldEventId)
+      ? eventIds.map(id => id === oldEventId ? newEventId : id)
+      : [...eventIds, newEventId];
+    this.db.prepare('UPDATE learning_objectives SET gcal_event_ids = ? WHERE objective_id = ?').run(newEventIds.join(','), objectiveId);
+    console.log(`[DB] 已將目標 #${objectiveId} 的事件 ${oldEventId} 更新為 ${newEventId}`);
+  }
+
+  async findObjectiveByTitle(userId: number, title: string): Promise<LearningObjective | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM learning_objectives WHERE user_id = ? AND title = ? LIMIT 1'
+    ).get(userId, title) as LearningObjective | undefined;
+
+    if (!row) {
+      console.log(`[DB] 找不到目標: ${title}`);
+      return null;
+    }
+    return row;
+  }
+
+  async getActiveObjectivesByUserId(userId: number): Promise<LearningObjective[]> {
+    return this.db.prepare(
+      "SELECT * FROM learning_objectives WHERE user_id = ? AND status = 'In Progress' ORDER BY objective_id"
+    ).all(userId) as LearningObjective[];
+  }
+
+  async getObjectivesByUserId(userId: number): Promise<LearningObjective[]> {
+    return this.db.prepare(
+      'SELECT * FROM learning_objectives WHERE user_id = ? ORDER BY objective_id'
+    ).all(userId) as LearningObjective[];
+  }
+
+  async updateObjective(objectiveId: number, changes: ObjectiveChanges): Promise<void> {
+    const columns = (['title', 'status', 'due_date'] as const).filter(column => changes[column] !== undefined);
+    if (columns.length === 0) {
+      return;
+    }
+
+    const result = this.db.prepare(
+      `UPDATE learning_objectives SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE objective_id = ?`
+    ).run(...columns.map(column => changes[column]), objectiveId);
+    if (result.changes === 0) {
+      console.error(`[DB] 更新失敗：找不到目標 #${objectiveId}`);
+      return;
+    }
+    console.log(`[DB] 已更新目標 #${objectiveId}:`, changes);
+  }
+
+  /**
+   * 刪除學習目標，歸檔在底下的筆記會保留，只取消歸檔。
+   */
+  async deleteObjective(objectiveId: number): Promise<void> {
+    const deleteAll = this.db.transaction(() => {
+      this.db.prepare('UPDATE knowledge_notes SET objective_id = NULL WHERE objective_id = ?').run(objectiveId);
+      return this.db.prepare('DELETE FROM learning_objectives WHERE objective_id = ?').run(objectiveId);
+    });
+    if (deleteAll().changes === 0) {
+      console.error(`[DB] 刪除失敗：找不到目標 #${objectiveId}`);
+      return;
+    }
+    console.log(`[DB] 已刪除目標 #${objectiveId}`);
+  }
+
+  async saveKnowledgeNote(userId: number, knowledgeData: KnowledgeNoteData, sourceType: NoteSourceType, rawContent?: string): Promise<number> {
+    const result = this.db.prepare(
+      'INSERT INTO knowledge_notes (user_id, objective_id, source_type, raw_content, structured_data_json) VALUES (?, NULL, ?, ?, ?)'
+    ).run(userId, sourceType, rawContent ?? (knowledgeData.source || ''), JSON.stringify(knowledgeData));
+
+    const noteId = Number(result.lastInsertRowid);
+    console.log(`[DB] 已成功儲存筆記，ID: ${noteId}`);
+    return noteId;
+  }
+
+  async getKnowledgeNoteById(noteId: number): Promise<KnowledgeNoteData | null> {
+    const row = this.db.prepare(
+      'SELECT structured_data_json FROM knowledge_notes WHERE note_id = ?'
+    ).get(noteId) as { structured_data_json: string } | undefined;
+
+    if (!row) {
+      console.error(`[DB] 找不到筆記，ID: ${noteId}`);
+      return null;
+    }
+    return parseKnowledgeNoteData(row.structured_data_json);
+  }
+
+  async getKnowledgeNotesByUserId(userId: number): Promise<KnowledgeNote[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM knowledge_notes WHERE user_id = ? ORDER BY note_id'
+    ).all(userId) as (Omit<KnowledgeNote, 'data'> & { structured_data_json: string })[];
+
+    const notes: KnowledgeNote[] = [];
+    for (const { structured_data_json, ...note } of rows) {
+      const data = parseKnowledgeNoteData(structured_data_json);
+      if (!data) {
+        console.error(`[DB] 筆記 #${note.note_id} 的內容無法解析，略過`);
+        continue;
+      }
+      notes.push({ ...note, data });
+    }
+    return notes;
+  }
+
+  async updateKnowledgeNoteData(noteId: number, knowledgeData: KnowledgeNoteData): Promise<void> {
+    const result = this.db.prepare('UPDATE knowledge_notes SET structured_data_json = ? WHERE note_id = ?')
+      .run(JSON.stringify(knowledgeData), noteId);
+    if (result.changes === 0) {
+      console.error(`[DB] 更新失敗：找不到筆記 #${noteId}`);
+    }
+  }
+
+  async linkNoteToObjective(noteId: number, objectiveId: number): Promise<void> {
+    const result = this.db.prepare('UPDATE knowledge_notes SET objective_id = ? WHERE note_id = ?').run(objectiveId, noteId);
+    if (result.changes === 0) {
+      console.error(`[DB] 歸檔失敗：找不到筆記 #${noteId}`);
+      return;
+    }
+    console.log(`[DB] 已成功將筆記 #${noteId} 歸檔到目標 #${objectiveId}`);
+  }
+}
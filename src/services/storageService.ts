@@ -0,0 +1,205 @@
+// src/services/storageService.ts
+
+import { OAuth2Client } from 'google-auth-library';
+import { GoogleSheetService } from './googleSheetService';
+import { SqliteStorageService } from './sqliteStorageService';
+import { getDefaultTimeZone, isValidTimeZone } from '../utils/dateUtils';
+import { KnowledgeIntent } from './llm/intentSchemas';
+import { CardSchedule } from './spacedRepetition';
+import { QuizAttempt } from './quizSession';
+
+// 定義 User 物件的型別，方便後續使用
+export interface User {
+  id: number;
+  line_user_id: string;
+  state_json: string | null;
+  google_refresh_token: string | null;
+  settings_json: string | null;
+}
+
+// 行程提醒設定：分鐘數為 null 代表關閉提醒
+export interface ReminderSettings {
+  leadMinutes?: number | null;                     // 所有行程的預設提醒時間
+  objectives?: Record<string, number | null>;      // 針對個別學習目標 (key 為 objective_id) 的設定，優先於預設值
+}
+
+// 使用者的個人偏好設定，以 JSON 形式存在 settings_json 欄位
+export interface UserSettings {
+  reminders?: ReminderSettings;
+  timeZone?: string;                               // IANA 時區名稱，例如 'Asia/Tokyo'
+  recentEvent?: { eventId: string; summary: string };  // 最近新增或修改的行程，傳送位置訊息時會設為它的地點
+}
+
+/**
+ * 解析使用者的設定 JSON，空值或格式錯誤時回傳空設定。
+ */
+export function parseUserSettings(json: string | null): UserSettings {
+  if (!json) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 使用者所在的時區：沒有設定 (或設定已失效) 時使用預設時區。
+ */
+export function getUserTimeZone(user: User): string {
+  const timeZone = parseUserSettings(user.settings_json).timeZone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone();
+}
+
+export type ObjectiveStatus = 'In Progress' | 'Completed' | 'On Hold';
+
+export interface LearningObjective {
+  objective_id: number;
+  user_id: number;
+  title: string;
+  status: ObjectiveStatus;
+  due_date: string | null;
+  gcal_event_ids: string | null;
+}
+
+// 學習目標可以修改的欄位，只會更新有提供的欄位 (due_date 為 null 代表清除截止日期)
+export interface ObjectiveChanges {
+  title?: string;
+  status?: ObjectiveStatus;
+  due_date?: string | null;
+}
+
+// 筆記的來源：圖片、貼上的文字或網頁連結
+export type NoteSourceType = 'image' | 'text' | 'url';
+
+// 筆記中的一張 flashcard，複習過的卡片會帶有 SM-2 排程
+export interface NoteFlashcard {
+  question: string;
+  answer: string;
+  review?: CardSchedule;
+}
+
+// 筆記的結構化內容 (structured_data_json)：AI 整理出的重點，加上卡片的複習排程與測驗紀錄
+export interface KnowledgeNoteData {
+  action: KnowledgeIntent['action'];
+  source?: string;
+  concepts?: string[];
+  summary?: string[];
+  flashcards?: NoteFlashcard[];
+  quiz_history?: QuizAttempt[];
+  [field: string]: unknown;   // AI 整理出的其他欄位 (situation、reflection 等)
+}
+
+// 一則知識筆記，data 為解析後的 structured_data_json
+export interface KnowledgeNote {
+  note_id: number;
+  user_id: number;
+  objective_id: number | null;
+  source_type: string;
+  raw_content: string | null;
+  data: KnowledgeNoteData;
+}
+
+/**
+ * 解析筆記的 structured_data_json。
+ * 舊版或格式不符的欄位會被忽略 (例如缺少答案的卡片)，無法解析時回傳 null。
+ */
+export function parseKnowledgeNoteData(json: string | null | undefined): KnowledgeNoteData | null {
+  if (!json) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const data = parsed as Record<string, unknown>;
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+  return {
+    ...data,
+    action: 'reconstruct_knowledge',
+    source: typeof data.source === 'string' ? data.source : undefined,
+    concepts: strings(data.concepts),
+    summary: strings(data.summary),
+    flashcards: Array.isArray(data.flashcards) ? data.flashcards.filter(isNoteFlashcard) : undefined,
+    quiz_history: Array.isArray(data.quiz_history) ? data.quiz_history.filter(isQuizAttempt) : undefined,
+  };
+}
+
+function isNoteFlashcard(value: any): value is NoteFlashcard {
+  return Boolean(value) && typeof value.question === 'string' && typeof value.answer === 'string'
+    && (value.review === undefined || (typeof value.review === 'object' && typeof value.review?.due === 'string'));
+}
+
+function isQuizAttempt(value: any): value is QuizAttempt {
+  return Boolean(value) && typeof value.date === 'string' && typeof value.score === 'number';
+}
+
+/**
+ * findOrCreateUser 回傳的使用者上下文。
+ * rowNumber 是後端用來定位該使用者的鍵值 (Sheets 為列號，SQLite 為 user id)，
+ * 呼叫端只需原封不動地傳回 setUserState 即可。
+ */
+export interface UserContext {
+  rowNumber: number;
+  user: User;
+}
+
+/**
+ * 資料儲存層的共同介面。
+ * 所有使用者、學習目標與知識筆記的讀寫都透過這個介面進行，
+ * 實作可以是 Google Sheets 或本地 SQLite 檔案。
+ */
+export interface StorageService {
+  findOrCreateUser(lineUserId: string): Promise<UserContext>;
+  setUserState(rowNumber: number, state: object | null): Promise<void>;
+  setUserGoogleToken(rowNumber: number, refreshToken: string | null): Promise<void>;
+  setUserSettings(rowNumber: number, settings: UserSettings): Promise<void>;
+  getAllUsers(): Promise<User[]>;
+
+  createLearningObjective(userId: number, title: string, dueDate?: string | null): Promise<LearningObjective>;
+  linkEventToObjective(objectiveId: number, eventId: string): Promise<void>;
+  replaceObjectiveEventId(objectiveId: number, oldEventId: string, newEventId: string): Promise<void>;
+  findObjectiveByTitle(userId: number, title: string): Promise<LearningObjective | null>;
+  getActiveObjectivesByUserId(userId: number): Promise<LearningObjective[]>;
+  getObjectivesByUserId(userId: number): Promise<LearningObjective[]>;
+  updateObjective(objectiveId: number, changes: ObjectiveChanges): Promise<void>;
+  deleteObjective(objectiveId: number): Promise<void>;
+
+  saveKnowledgeNote(userId: number, knowledgeData: KnowledgeNoteData, sourceType: NoteSourceType, rawContent?: string): Promise<number>;
+  getKnowledgeNoteById(noteId: number): Promise<KnowledgeNoteData | null>;
+  getKnowledgeNotesByUserId(userId: number): Promise<KnowledgeNote[]>;
+  updateKnowledgeNoteData(noteId: number, knowledgeData: KnowledgeNoteData): Promise<void>;
+  linkNoteToObjective(noteId: number, objectiveId: number): Promise<void>;
+}
+
+/**
+ * 根據環境變數 STORAGE_BACKEND 建立對應的儲存服務。
+ * - 'sheets' (預設)：使用 Google Sheets，需要 GOOGLE_SHEET_ID 與 GOOGLE_REFRESH_TOKEN
+ * - 'sqlite'：使用本地 SQLite 檔案，路徑由 SQLITE_DB_PATH 指定
+ * @param auth Google 認證物件，僅 Sheets 後端需要
+ */
+export function createStorageService(auth: OAuth2Client): StorageService {
+  const backend = (process.env.STORAGE_BACKEND || 'sheets').toLowerCase();
+
+  switch (backend) {
+    case 'sqlite': {
+      const dbPath = process.env.SQLITE_DB_PATH || './data/bot.db';
+      console.log(`[DB] 使用 SQLite 儲存後端: ${dbPath}`);
+      return new SqliteStorageService(dbPath);
+    }
+    case 'sheets': {
+      console.log('[DB] 使用 Google Sheets 儲存後端');
+      return new GoogleSheetService(auth);
+    }
+    default:
+      throw new Error(`未知的 STORAGE_BACKEND: ${backend} (可用值: sheets, sqlite)`);
+  }
+}
@@ -0,0 +1,75 @@
+// src/tasks/flashcards.ts (每日卡片複習，由排程每天執行一次)
+
+import { LineHandler } from '../handlers/lineHandler';
+import { createStorageService } from '../services/storageService';
+import { GoogleAuthService } from '../services/googleAuthService';
+import { isStateExpired, parseState } from '../services/conversationState';
+import { startFlashcardReview } from '../services/flashcardReview';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// --- 環境變數載入 ---
+const envPath = path.resolve(__dirname, '..', '..', 'config', '.env');
+dotenv.config({ path: envPath });
+
+// --- 輔助函式 ---
+const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+
+// --- 服務初始化 (保持獨立) ---
+function initializeServices() {
+    console.log('🔧 (Task) 初始化所有服務...');
+    // 推送訊息只需要 Access Token，Secret 可以是空字串
+    const lineHandler = new LineHandler(process.env.LINE_CHANNEL_ACCESS_TOKEN!, '');
+    const storageService = createStorageService(GoogleAuthService.createAppAuthClient());
+    console.log('✅ (Task) 所有服務初始化完畢。');
+    return { lineHandler, storageService };
+}
+
+
+// --- 核心邏輯 ---
+async function runFlashcardReview() {
+    const { lineHandler, storageService } = initializeServices();
+
+    console.log('🚀 (Task) 開始推送每日卡片複習...');
+    const allUsers = await storageService.getAllUsers();
+    console.log(`👥 (Task) 找到 ${allUsers.length} 位使用者需要檢查。`);
+
+    for (const user of allUsers) {
+        try {
+            const { rowNumber, user: latestUser } = await storageService.findOrCreateUser(user.line_user_id);
+
+            // 使用者正在進行其他操作時不打擾他，隨時可以說「複習卡片」自己開始
+            const currentState = parseState(latestUser.state_json);
+            if (currentState && !isStateExpired(currentState) && currentState.status !== 'waiting_flashcard_grade') {
+                console.log(`   - (Task) 使用者 ${user.id} 正在進行其他操作，跳過。`);
+                continue;
+            }
+
+            const reply = await startFlashcardReview(storageService, rowNumber, user.id);
+            if (!reply) {
+                console.log(`   - (Task) 使用者 ${user.id} 今天沒有到期的卡片，跳過。`);
+                continue;
+            }
+
+            console.log(`[推送] (Task) 準備推送卡片給使用者 ${user.line_user_id}`);
+            await lineHandler.pushMessage(user.line_user_id, reply);
+            await delay(500);
+
+        } catch (error) {
+            console.error(`(Task) 處理使用者 ${user.id} (${user.line_user_id}) 時發生錯誤:`, error);
+        }
+    }
+}
+
+// --- 執行入口 ---
+console.log('--- Flashcard Job Script Started ---');
+runFlashcardReview()
+  .then(() => {
+    console.log('✅ (Task) 每日卡片複習推送成功。');
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('❌ (Task) 每日卡片複習推送失敗:', error);
+    process.exit(1);
+  });
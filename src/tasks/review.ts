@@ -1,8 +1,16 @@
 // src/tasks/review.ts (Final Version for railway.json)
 
 import { LineHandler } from '../handlers/lineHandler';
-import { GoogleSheetService } from '../services/googleSheetService';
+import { StorageService, User, createStorageService, getUserTimeZone } from '../services/storageService';
 import { GoogleCalendarService } from '../utils/mcpClient';
+import { GoogleAuthService } from '../services/googleAuthService';
+import { OverdueTask, proposeReschedule } from '../services/rescheduler';
+import { findWeakTopics } from '../services/quizSession';
+import { getOccurrenceHorizon } from '../services/recurrence';
+import { buildChoiceButtons, createState, isStateExpired, parseState } from '../services/conversationState';
+import { ObjectiveReview, formatRescheduleProposalForLine, formatWeeklyReviewForLine } from '../utils/responseFormatter';
+import { buildWeeklyReviewFlex, toReply, withQuickReplies } from '../utils/flexRenderer';
+import { BotReply } from '../types';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 
@@ -19,19 +27,45 @@ function initializeServices() {
     console.log('🔧 (Task) 初始化所有服務...');
     // 推送訊息只需要 Access Token，Secret 可以是空字串
     const lineHandler = new LineHandler(process.env.LINE_CHANNEL_ACCESS_TOKEN!, ''); 
-    const calendarService = new GoogleCalendarService();
-    const sheetService = new GoogleSheetService(calendarService.auth);
+    const storageService = createStorageService(GoogleAuthService.createAppAuthClient());
     console.log('✅ (Task) 所有服務初始化完畢。');
-    return { lineHandler, calendarService, sheetService };
+    return { lineHandler, storageService };
+}
+
+
+/**
+ * 為過期的任務找好本週的新時段，並讓使用者進入等待確認的狀態。
+ * 使用者正在進行其他操作時不打擾他，只在結語中說明。
+ * @returns 回顧報告的結語，以及要接在報告後面的建議訊息 (沒有建議時為 null)
+ */
+async function prepareRescheduleProposal(storageService: StorageService, calendarService: GoogleCalendarService, user: User, overdueTasks: OverdueTask[]): Promise<{ closing: string; proposal: BotReply | null }> {
+    const { rowNumber, user: latestUser } = await storageService.findOrCreateUser(user.line_user_id);
+    const currentState = parseState(latestUser.state_json);
+    if (currentState && !isStateExpired(currentState)) {
+        return { closing: `您目前還有進行中的操作，我先不打擾您，下次回顧時再幫您重新安排過期的任務。`, proposal: null };
+    }
+
+    const { items, unscheduled } = await proposeReschedule(calendarService, overdueTasks);
+    if (items.length === 0) {
+        return { closing: `過期的任務在接下來一週內找不到空檔，您可以直接告訴我想改到什麼時候。`, proposal: null };
+    }
+
+    const newState = createState('waiting_reschedule_confirmation', { items });
+    await storageService.setUserState(rowNumber, newState);
+    const proposalText = formatRescheduleProposalForLine(items, unscheduled, calendarService.timeZone);
+    return {
+        closing: `需要我幫您將過期的任務重新安排到本週嗎？👇`,
+        proposal: withQuickReplies(proposalText, buildChoiceButtons(newState, items.map(item => item.summary), '重新安排')),
+    };
 }
 
 
 // --- 核心邏輯 (封裝在函式中，保持乾淨) ---
 async function runReview() {
-    const { lineHandler, calendarService, sheetService } = initializeServices();
+    const { lineHandler, storageService } = initializeServices();
     
     console.log('🚀 (Task) 開始執行學習進度回顧任務...');
-    const allUsers = await sheetService.getAllUsers();
+    const allUsers = await storageService.getAllUsers();
     console.log(`👥 (Task) 找到 ${allUsers.length} 位使用者需要檢查。`);
 
     if (allUsers.length === 0) {
@@ -41,53 +75,59 @@ async function runReview() {
 
     for (const user of allUsers) {
         try {
-            const activeObjectives = await sheetService.getActiveObjectivesByUserId(user.id);
+            if (!user.google_refresh_token) {
+                console.log(`   - (Task) 使用者 ${user.id} 尚未連結 Google 帳號，跳過。`);
+                continue;
+            }
+            // 每位使用者使用自己的 Google 帳號讀取行事曆，日期以使用者的時區計算
+            const timeZone = getUserTimeZone(user);
+            const calendarService = new GoogleCalendarService(GoogleAuthService.createUserAuthClient(user.google_refresh_token), timeZone);
+
+            const activeObjectives = await storageService.getActiveObjectivesByUserId(user.id);
             if (activeObjectives.length === 0) {
                 console.log(`   - (Task) 使用者 ${user.id} 沒有活躍目標，跳過。`);
                 continue;
             }
 
-            let reportText = `早安！☀️ 這是您本週的學習進度回顧：\n`;
-            let hasOverdueTasks = false;
+            const reviews: ObjectiveReview[] = [];
+            const overdueTasks: OverdueTask[] = [];
+            // 測驗分數偏低的筆記，依所屬的學習目標列出
+            const notes = await storageService.getKnowledgeNotesByUserId(user.id);
 
             for (const objective of activeObjectives) {
-                reportText += `\n🎯 **目標：${objective.title}**\n`;
                 const eventIds = objective.gcal_event_ids ? objective.gcal_event_ids.split(',') : [];
-                
+                const review: ObjectiveReview = {
+                    title: objective.title,
+                    dueDate: objective.due_date,
+                    scheduledCount: eventIds.length,
+                    overdueEvents: [],
+                    upcomingEvents: [],
+                    weakTopics: findWeakTopics(notes.filter(note => note.objective_id === objective.objective_id)),
+                };
+                reviews.push(review);
+
                 if (eventIds.length === 0) {
-                    reportText += `   - 您還沒有為這個目標安排任何具體行程喔！\n`;
                     continue;
                 }
                 
-                const { upcomingEvents, overdueEvents } = await calendarService.analyzeEventsStatus(eventIds);
-                
-                if (overdueEvents.length > 0) {
-                    hasOverdueTasks = true;
-                    reportText += `   - 🔴 **注意！有 ${overdueEvents.length} 個任務已過期：**\n`;
-                    overdueEvents.forEach(event => {
-                        reportText += `     - ${event.summary}\n`;
-                    });
-                }
-
-                if (upcomingEvents.length > 0) {
-                    reportText += `   - 🟢 **本週即將進行：**\n`;
-                    upcomingEvents.forEach(event => {
-                        const eventDate = new Date(event.start.dateTime || event.start.date);
-                        reportText += `     - ${eventDate.toLocaleDateString('zh-TW')} - ${event.summary}\n`;
-                    });
-                } else if (overdueEvents.length === 0) {
-                    reportText += `   - 👍 本週沒有即將到來的行程，一切都在您的掌握中！\n`;
-                }
+                const { upcomingEvents, overdueEvents, scheduledCount } = await calendarService.analyzeEventsStatus(
+                    eventIds, getOccurrenceHorizon(objective.due_date, timeZone));
+                review.scheduledCount = scheduledCount;
+                review.overdueEvents = overdueEvents;
+                review.upcomingEvents = upcomingEvents;
+                overdueEvents.forEach(event => overdueTasks.push({ event, objectiveId: objective.objective_id }));
             }
 
-            if (hasOverdueTasks) {
-                reportText += `\n需要我幫您將過期的任務重新安排到本週嗎？ (此功能開發中)`;
-            } else {
-                reportText += `\n做得很好，繼續保持這個節奏！💪`;
+            let closing = `做得很好，繼續保持這個節奏！💪`;
+            let proposal: BotReply | null = null;
+            if (overdueTasks.length > 0) {
+                ({ closing, proposal } = await prepareRescheduleProposal(storageService, calendarService, user, overdueTasks));
             }
+            const report = toReply(formatWeeklyReviewForLine(reviews, closing, timeZone), buildWeeklyReviewFlex(reviews, closing, timeZone));
             
             console.log(`[推送] (Task) 準備推送報告給使用者 ${user.line_user_id}`);
-            await lineHandler.pushMessage(user.line_user_id, reportText);
+            // 重新安排的建議獨立成一則訊息，快速回覆按鈕才會顯示在最後
+            await lineHandler.pushMessage(user.line_user_id, proposal ? [report, proposal].flat() : report);
             await delay(500); 
 
         } catch (error) {
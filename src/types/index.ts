@@ -1,4 +1,6 @@
 //定義資料格式，讓程式知道每種資料長什麼樣子
+import { FlexContainer } from '@line/bot-sdk';
+
 // LINE Bot 相關型別
 export interface LineTextMessage {
   type: 'text';
@@ -11,6 +13,26 @@ export interface LineImageMessage {
   previewImageUrl: string;
 }
 
+// 快速回覆按鈕，按下後會以 postback 事件帶回 data，並在聊天室顯示 displayText
+export interface QuickReplyButton {
+  label: string;        // 最多 20 字
+  data: string;
+  displayText: string;
+}
+
+// 機器人的回覆：純文字，或附帶 Flex Message 版面、快速回覆按鈕的富文本回覆。
+// text 會作為 Flex Message 的 altText，以及關閉 Flex 時送出的純文字內容。
+export interface RichReply {
+  text: string;
+  flex?: FlexContainer;
+  quickReplies?: QuickReplyButton[];
+}
+
+export type ReplyMessage = string | RichReply;
+
+// 一次回覆可以包含多則訊息 (LINE 單次最多 5 則)
+export type BotReply = ReplyMessage | ReplyMessage[];
+
 // 日曆操作意圖
 export interface CalendarIntent {
   action: 'list_events' | 'create_event' | 'search_events' | 'update_event' | 'delete_event';
@@ -23,10 +45,96 @@ export interface CalendarIntent {
     query?: string;
     eventId?: string;
     timeRange?: 'today' | 'tomorrow' | 'week' | 'month';
+    changes?: EventChanges;
   };
   confidence: number;
 }
 
+// update_event 要套用到既有事件上的修改內容，只有提供的欄位會被修改
+export interface EventChanges {
+  summary?: string;
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+  description?: string;
+}
+
+// 行程的地點、說明、參加者與通知，新增時會一併寫入 Google Calendar
+export interface EventDetails {
+  location?: string;
+  description?: string;
+  attendees?: string[];       // 參加者的 email，新增時會寄出邀請
+  reminderMinutes?: number[]; // 行程開始前幾分鐘跳出通知
+}
+
+// AI 規劃出的計畫中的單一項目
+export interface PlanEvent extends EventDetails {
+  summary: string;
+  date?: string; 
+  startTime?: string;
+  duration_hours?: number;
+  objectiveId?: number;  
+  recurrence?: Recurrence;
+}
+
+// 週期性行程的重複規則，建立行程時會轉成 Google Calendar 的 RRULE
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface Recurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number;       // 每隔幾天/週/月一次，預設 1
+  byWeekday?: Weekday[];   // 每週的哪幾天，只用於 weekly
+  until?: string;          // 'YYYY-MM-DD'，最後一次的日期 (含當天)
+  count?: number;          // 總共幾次，與 until 擇一
+}
+
+// 修改或刪除週期性行程時的範圍：只有這一次，或整個系列
+export type RecurrenceScope = 'instance' | 'series';
+
+// 重新安排過期任務時，單一行程的新舊時段
+export interface RescheduleItem {
+  eventId: string;
+  objectiveId: number;
+  summary: string;
+  originalStart: string;   // ISO 8601，原本 (已過期) 的開始時間
+  start: string;           // ISO 8601，建議的新時段
+  end: string;
+}
+
+// 等待使用者確認後才要建立的單一行程
+export interface PendingEvent extends EventDetails {
+  summary: string;
+  start: string;           // ISO 8601
+  end: string;
+  recurrence?: Recurrence;
+}
+
+// 使用者複習一張卡片後的自我評分
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// 複習中的一張卡片：指向某則筆記的第幾張 flashcard
+export interface FlashcardRef {
+  noteId: number;
+  cardIndex: number;
+  question: string;
+  answer: string;
+}
+
+// 測驗中的一道題目：由某則筆記的內容出題，參考答案用來輔助評分
+export interface QuizQuestion {
+  noteId: number;
+  question: string;
+  referenceAnswer: string;
+}
+
+// 最近測驗分數偏低、需要加強的筆記
+export interface WeakTopic {
+  noteId: number;
+  title: string;
+  averageScore: number;
+  attempts: number;   // 計入平均的作答次數
+}
+
 // MCP 相關型別
 export interface MCPToolCall {
   tool: string;
@@ -0,0 +1,57 @@
+// src/utils/dateUtils.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { addDaysToDateString, addMonthsToDateString, getWeekdayOfDateString, toZonedDateString, toZonedISOString, zonedTimeToDate } from './dateUtils';
+
+describe('zonedTimeToDate', () => {
+  test('沒有日光節約時間的時區直接套用固定偏移', () => {
+    assert.equal(zonedTimeToDate('2025-07-30', 19, 0, 'Asia/Taipei').toISOString(), '2025-07-30T11:00:00.000Z');
+  });
+
+  test('日光節約時間開始的前後兩天使用不同的偏移', () => {
+    // 紐約在 2025-03-09 凌晨 2 點撥快一小時
+    assert.equal(zonedTimeToDate('2025-03-08', 9, 0, 'America/New_York').toISOString(), '2025-03-08T14:00:00.000Z');
+    assert.equal(zonedTimeToDate('2025-03-09', 9, 0, 'America/New_York').toISOString(), '2025-03-09T13:00:00.000Z');
+    // 倫敦在 2025-03-30 凌晨 1 點撥快一小時
+    assert.equal(zonedTimeToDate('2025-03-30', 9, 0, 'Europe/London').toISOString(), '2025-03-30T08:00:00.000Z');
+  });
+
+  test('日光節約時間結束當天換算後仍是當地的同一個時刻', () => {
+    // 紐約在 2025-11-02 凌晨 2 點撥慢一小時，1:30 會出現兩次
+    assert.equal(zonedTimeToDate('2025-11-02', 9, 0, 'America/New_York').toISOString(), '2025-11-02T14:00:00.000Z');
+    const ambiguous = zonedTimeToDate('2025-11-02', 1, 30, 'America/New_York');
+    assert.match(toZonedISOString(ambiguous, 'America/New_York'), /^2025-11-02T01:30:00/);
+  });
+});
+
+describe('日期字串', () => {
+  test('toZonedDateString 以指定時區的日期為準', () => {
+    const instant = new Date('2025-07-30T17:00:00Z');
+    assert.equal(toZonedDateString(instant, 'Asia/Taipei'), '2025-07-31');
+    assert.equal(toZonedDateString(instant, 'America/Los_Angeles'), '2025-07-30');
+  });
+
+  test('toZonedISOString 帶有當地的偏移', () => {
+    assert.equal(toZonedISOString(new Date('2025-07-30T11:00:00Z'), 'Asia/Taipei'), '2025-07-30T19:00:00+08:00');
+    assert.equal(toZonedISOString(new Date('2025-01-15T14:00:00Z'), 'America/New_York'), '2025-01-15T09:00:00-05:00');
+  });
+
+  test('addDaysToDateString 可以跨月、跨年與閏日', () => {
+    assert.equal(addDaysToDateString('2025-01-31', 1), '2025-02-01');
+    assert.equal(addDaysToDateString('2025-12-31', 1), '2026-01-01');
+    assert.equal(addDaysToDateString('2024-03-01', -1), '2024-02-29');
+  });
+
+  test('addMonthsToDateString 在目標月份沒有這一天時取月底', () => {
+    assert.equal(addMonthsToDateString('2025-01-15', 1), '2025-02-15');
+    assert.equal(addMonthsToDateString('2025-01-31', 1), '2025-02-28');
+    assert.equal(addMonthsToDateString('2024-01-31', 1), '2024-02-29');
+    assert.equal(addMonthsToDateString('2025-12-10', 1), '2026-01-10');
+  });
+
+  test('getWeekdayOfDateString 以週日為 0', () => {
+    assert.equal(getWeekdayOfDateString('2025-08-03'), 0);
+    assert.equal(getWeekdayOfDateString('2025-08-09'), 6);
+  });
+});
@@ -0,0 +1,143 @@
+// src/utils/dateUtils.ts
+
+// --- 時區相關的日期輔助函式 ---
+// 伺服器 (例如 Railway 的容器) 通常跑在 UTC，
+// 所以「某個時區的幾點幾分」不能直接用 Date 的 setHours 計算，必須透過 Intl 換算。
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 (週日) - 6 (週六)
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * 取得某個時間點在指定時區的年月日時分。
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23'
+  });
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday]
+  };
+}
+
+/**
+ * 計算指定時區在某個時間點相對 UTC 的偏移量 (毫秒)。
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - truncated;
+}
+
+/**
+ * 將「某時區的某天幾點幾分」轉換為實際的 Date。
+ * @param dateString 'YYYY-MM-DD' 格式的日期
+ */
+export function zonedTimeToDate(dateString: string, hour: number, minute: number, timeZone: string): Date {
+  const [year, month, day] = dateString.split('-').map(n => parseInt(n, 10));
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  // 先用猜測值的偏移量換算一次，再用換算結果的偏移量修正 (處理日光節約時間的邊界)
+  const firstPass = guess - getTimeZoneOffsetMs(new Date(guess), timeZone);
+  return new Date(guess - getTimeZoneOffsetMs(new Date(firstPass), timeZone));
+}
+
+/**
+ * 取得某個時間點在指定時區的日期字串 ('YYYY-MM-DD')。
+ */
+export function toZonedDateString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * 將 'YYYY-MM-DD' 日期字串加減天數。
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(n => parseInt(n, 10));
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 將 'YYYY-MM-DD' 日期字串加減月數；目標月份沒有這一天時 (例如 1/31 加一個月)，取該月的最後一天。
+ */
+export function addMonthsToDateString(dateString: string, months: number): string {
+  const [year, month, day] = dateString.split('-').map(n => parseInt(n, 10));
+  const lastDayOfTargetMonth = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDayOfTargetMonth)));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 取得 'YYYY-MM-DD' 日期字串是星期幾 (0 為週日)。
+ */
+export function getWeekdayOfDateString(dateString: string): number {
+  const [year, month, day] = dateString.split('-').map(n => parseInt(n, 10));
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * 沒有個別設定時使用的時區 (DEFAULT_TIMEZONE，預設 'Asia/Taipei')。
+ */
+export function getDefaultTimeZone(): string {
+  return process.env.DEFAULT_TIMEZONE || 'Asia/Taipei';
+}
+
+/**
+ * 是否為 Intl 認得的 IANA 時區名稱，例如 'Asia/Tokyo'。
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 將時間點表示成指定時區的 ISO 8601 字串，例如 '2025-07-30T19:00:00+08:00'，
+ * 讓 AI 可以直接看到使用者當地的日期與時間。
+ */
+export function toZonedISOString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offsetMinutes = Math.round(getTimeZoneOffsetMs(date, timeZone) / 60000);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+  return `${toZonedDateString(date, timeZone)}T${pad(p.hour)}:${pad(p.minute)}:00${offset}`;
+}
+
+/**
+ * 格式化 'YYYY-MM-DD' 日期字串。日期字串本身沒有時區，固定用 UTC 解讀，避免被伺服器的時區影響而差一天。
+ */
+export function formatDateString(dateString: string, options: Intl.DateTimeFormatOptions = {}): string {
+  const [year, month, day] = dateString.split('-').map(n => parseInt(n, 10));
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('zh-TW', { ...options, timeZone: 'UTC' });
+}
@@ -0,0 +1,113 @@
+// src/utils/eventQueue.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BoundedSeenSet, KeyedSerialQueue } from './eventQueue';
+
+// 讓出執行權，讓已經排定的 promise 有機會往下走
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+// 可以從外部決定何時完成的工作
+function deferred() {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('KeyedSerialQueue', () => {
+  test('同一個 key 的工作依照加入順序一個接一個執行', async () => {
+    const queue = new KeyedSerialQueue();
+    const log: string[] = [];
+    const first = deferred();
+
+    queue.enqueue('user-a', async () => {
+      log.push('first:start');
+      await first.promise;
+      log.push('first:end');
+    });
+    const second = queue.enqueue('user-a', async () => {
+      log.push('second');
+    });
+
+    await tick();
+    assert.deepEqual(log, ['first:start']);
+
+    first.resolve();
+    await second;
+    assert.deepEqual(log, ['first:start', 'first:end', 'second']);
+  });
+
+  test('不同 key 的工作不會互相等待', async () => {
+    const queue = new KeyedSerialQueue();
+    const blocked = deferred();
+    let otherRan = false;
+
+    queue.enqueue('user-a', () => blocked.promise);
+    await queue.enqueue('user-b', async () => {
+      otherRan = true;
+    });
+
+    assert.equal(otherRan, true);
+    blocked.resolve();
+    await queue.drain();
+  });
+
+  test('前一個工作失敗時，失敗只回報給它自己，後面的工作照常執行', async () => {
+    const queue = new KeyedSerialQueue();
+    const failing = queue.enqueue('user-a', async () => {
+      throw new Error('boom');
+    });
+    let secondRan = false;
+    const second = queue.enqueue('user-a', async () => {
+      secondRan = true;
+    });
+
+    await assert.rejects(failing, /boom/);
+    await second;
+    assert.equal(secondRan, true);
+  });
+
+  test('drain 會等到所有排隊中的工作完成', async () => {
+    const queue = new KeyedSerialQueue();
+    const done: string[] = [];
+    const slow = deferred();
+
+    queue.enqueue('user-a', async () => {
+      await slow.promise;
+      done.push('a');
+    });
+    queue.enqueue('user-b', async () => {
+      done.push('b');
+    });
+
+    const drained = queue.drain();
+    await tick();
+    assert.deepEqual(done, ['b']);
+
+    slow.resolve();
+    await drained;
+    assert.deepEqual(done, ['b', 'a']);
+  });
+});
+
+describe('BoundedSeenSet', () => {
+  test('重複的 key 只會在第一次回傳 true', () => {
+    const seen = new BoundedSeenSet(10);
+    assert.equal(seen.add('event-1'), true);
+    assert.equal(seen.add('event-1'), false);
+  });
+
+  test('超過容量時最早加入的 key 會被移除', () => {
+    const seen = new BoundedSeenSet(2);
+    seen.add('event-1');
+    seen.add('event-2');
+    seen.add('event-3');
+
+    assert.equal(seen.add('event-3'), false);
+    assert.equal(seen.add('event-1'), true);
+  });
+});
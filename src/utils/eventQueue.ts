@@ -0,0 +1,61 @@
+// src/utils/eventQueue.ts
+
+/**
+ * 有容量上限的「已看過」集合，用來過濾 LINE 重送的 Webhook 事件。
+ * 超過容量時，最早加入的 key 會先被移除。
+ */
+export class BoundedSeenSet {
+  // Set 會保留插入順序，第一個元素就是最舊的
+  private seen = new Set<string>();
+
+  constructor(private readonly capacity: number) {}
+
+  /**
+   * 記錄一個 key。
+   * @returns 第一次看到時回傳 true，已經看過則回傳 false
+   */
+  add(key: string): boolean {
+    if (this.seen.has(key)) {
+      return false;
+    }
+
+    this.seen.add(key);
+    if (this.seen.size > this.capacity) {
+      const oldest = this.seen.values().next().value!;
+      this.seen.delete(oldest);
+    }
+    return true;
+  }
+}
+
+/**
+ * 依 key 排隊的工作佇列：同一個 key 的工作依照加入順序一個接一個執行，
+ * 不同 key 的工作則互不影響、可以同時進行。
+ */
+export class KeyedSerialQueue {
+  // 每個 key 目前排在最後面的工作
+  private tails = new Map<string, Promise<void>>();
+
+  enqueue(key: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    // 前一個工作失敗也不影響後面的工作
+    const current = previous.catch(() => undefined).then(task);
+    const tail = current.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    // 佇列清空後移除這個 key，避免 Map 無限長大
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    return current;
+  }
+
+  /**
+   * 等待目前所有排隊中的工作完成。
+   */
+  async drain(): Promise<void> {
+    await Promise.all(Array.from(this.tails.values()));
+  }
+}
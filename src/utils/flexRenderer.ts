@@ -0,0 +1,246 @@
+// src/utils/flexRenderer.ts
+
+import { FlexBox, FlexBubble, FlexComponent, FlexContainer } from '@line/bot-sdk';
+import { BotReply, PlanEvent, QuickReplyButton, ReplyMessage, RichReply } from '../types';
+import {
+  GoogleCalendarEvent,
+  ObjectiveReview,
+  formatEventDate,
+  formatEventDetails,
+  formatWeakTopic,
+  getEventTimeLabel,
+  getPlanItemDetails,
+  groupEventsByDate,
+} from './responseFormatter';
+import { formatDateString, getDefaultTimeZone } from './dateUtils';
+import { getEventDetails } from '../services/eventDetails';
+
+// --- Flex Message 版面 ---
+// 與 responseFormatter 的純文字格式一一對應，純文字仍會作為 altText 與不支援 Flex 時的備援。
+
+// LINE 的 carousel 最多只能放 12 個 bubble
+const MAX_CAROUSEL_BUBBLES = 12;
+
+const COLORS = {
+  primary: '#1DB446',
+  text: '#333333',
+  subtext: '#888888',
+  warning: '#E53935',
+  headerBackground: '#F5F7FA',
+};
+
+
+// --- 共用元件 ---
+
+function text(content: string, options: Partial<{ size: string; weight: 'regular' | 'bold'; color: string; wrap: boolean; flex: number }> = {}): FlexComponent {
+  return {
+    type: 'text',
+    text: content,
+    size: options.size || 'sm',
+    weight: options.weight,
+    color: options.color || COLORS.text,
+    wrap: options.wrap ?? true,
+    flex: options.flex,
+  };
+}
+
+function header(title: string, subtitle?: string): FlexBox {
+  const contents: FlexComponent[] = [text(title, { size: 'md', weight: 'bold', color: COLORS.primary })];
+  if (subtitle) {
+    contents.push(text(subtitle, { size: 'xs', color: COLORS.subtext }));
+  }
+  return { type: 'box', layout: 'vertical', contents, spacing: 'xs' };
+}
+
+// 左邊是標籤、右邊是內容的一列，例如「時間  09:00 - 10:00」
+function labeledRow(label: string, value: string, valueColor: string = COLORS.text): FlexBox {
+  return {
+    type: 'box',
+    layout: 'horizontal',
+    spacing: 'md',
+    contents: [
+      text(label, { color: COLORS.subtext, flex: 2, wrap: false }),
+      text(value, { color: valueColor, flex: 5 }),
+    ],
+  };
+}
+
+function footerNote(note: string): FlexBox {
+  return { type: 'box', layout: 'vertical', contents: [text(note, { size: 'xs', color: COLORS.subtext })] };
+}
+
+function bubble(headerBox: FlexBox, bodyContents: FlexComponent[], footer?: FlexBox): FlexBubble {
+  return {
+    type: 'bubble',
+    size: 'kilo',
+    header: headerBox,
+    body: { type: 'box', layout: 'vertical', spacing: 'md', contents: bodyContents },
+    footer,
+    styles: { header: { backgroundColor: COLORS.headerBackground } },
+  };
+}
+
+// 只有一個 bubble 時直接回傳，多個則包成 carousel；超過上限就放棄 Flex，改用純文字
+function toContainer(bubbles: FlexBubble[]): FlexContainer | null {
+  if (bubbles.length === 0 || bubbles.length > MAX_CAROUSEL_BUBBLES) {
+    return null;
+  }
+  return bubbles.length === 1 ? bubbles[0] : { type: 'carousel', contents: bubbles };
+}
+
+
+// --- 行程列表 ---
+
+// 一個行程一列；有地點等詳細資訊時，以較小的字顯示在標題下方
+function agendaRow(event: GoogleCalendarEvent, timeZone: string): FlexComponent {
+  const row = labeledRow(getEventTimeLabel(event, timeZone), event.summary);
+  const details = formatEventDetails(getEventDetails(event));
+  if (details.length === 0) {
+    return row;
+  }
+  const detailRow: FlexBox = {
+    type: 'box',
+    layout: 'horizontal',
+    spacing: 'md',
+    contents: [
+      { type: 'box', layout: 'vertical', contents: [], flex: 2 },
+      text(details.join('\n'), { size: 'xs', color: COLORS.subtext, flex: 5 }),
+    ],
+  };
+  return { type: 'box', layout: 'vertical', spacing: 'xs', contents: [row, detailRow] };
+}
+
+function agendaBubble(dateKey: string, dailyEvents: GoogleCalendarEvent[], timeZone: string): FlexBubble {
+  const displayDate = formatDateString(dateKey, { month: 'long', day: 'numeric', weekday: 'short' });
+  const rows = dailyEvents.map(event => agendaRow(event, timeZone));
+  return bubble(header(`📅 ${displayDate}`, `${dailyEvents.length} 個行程`), rows);
+}
+
+/**
+ * 將行程列表轉成 Flex Message：單日為一個 bubble，跨越多日則每天一個 bubble 組成 carousel。
+ * @returns 沒有行程或天數超過 carousel 上限時回傳 null，由呼叫端改用純文字
+ */
+export function buildAgendaFlex(events: GoogleCalendarEvent[], timeZone: string = getDefaultTimeZone()): FlexContainer | null {
+  const eventsByDate = groupEventsByDate(events, timeZone);
+  const sortedDates = Array.from(eventsByDate.keys()).sort();
+  return toContainer(sortedDates.map(dateKey => agendaBubble(dateKey, eventsByDate.get(dateKey)!, timeZone)));
+}
+
+
+// --- 計畫草案 ---
+
+function planStageBubble(item: PlanEvent, index: number, total: number, outro: string, timeZone: string): FlexBubble {
+  const details = getPlanItemDetails(item, timeZone);
+  const rows: FlexComponent[] = [text(item.summary, { size: 'md', weight: 'bold' })];
+  if (details.date) {
+    rows.push(labeledRow('日期', details.date));
+  }
+  if (details.time) {
+    rows.push(labeledRow('時間', details.time));
+  } else if (details.missingSlot) {
+    rows.push(labeledRow('時間', '⚠️ 規劃期間內找不到足夠的空檔', COLORS.warning));
+  }
+  if (details.duration) {
+    rows.push(labeledRow('時長', details.duration));
+  }
+  if (details.recurrence) {
+    rows.push(labeledRow('重複', details.recurrence));
+  }
+  if (details.location) {
+    rows.push(labeledRow('地點', details.location));
+  }
+  if (details.attendees) {
+    rows.push(labeledRow('參加者', details.attendees));
+  }
+  if (details.reminders) {
+    rows.push(labeledRow('通知', details.reminders));
+  }
+  if (details.description) {
+    rows.push(labeledRow('說明', details.description));
+  }
+  // 操作說明只放在最後一張卡片，避免每張都重複
+  const footer = index === total - 1 ? footerNote(outro) : undefined;
+  return bubble(header(`🗓️ 階段 ${index + 1} / ${total}`), rows, footer);
+}
+
+/**
+ * 將計畫草案轉成 Flex Message：第一張卡片是開場白，之後每個階段一張卡片。
+ */
+export function buildPlanFlex(plan: PlanEvent[], intro: string, outro: string, timeZone: string = getDefaultTimeZone()): FlexContainer | null {
+  if (plan.length === 0) {
+    return null;
+  }
+  const introBubble = bubble(header('📋 計畫草案', `共 ${plan.length} 個階段`), [text(intro)]);
+  const stageBubbles = plan.map((item, index) => planStageBubble(item, index, plan.length, outro, timeZone));
+  return toContainer([introBubble, ...stageBubbles]);
+}
+
+
+// --- 每週回顧 ---
+
+function eventList(events: GoogleCalendarEvent[], withDate: boolean, timeZone: string): FlexComponent[] {
+  return events.map(event => text(withDate ? `• ${formatEventDate(event, timeZone)} ${event.summary}` : `• ${event.summary}`, { size: 'xs' }));
+}
+
+function objectiveReviewBubble(review: ObjectiveReview, timeZone: string): FlexBubble {
+  const subtitle = review.dueDate ? `截止日期: ${review.dueDate}` : undefined;
+  const rows: FlexComponent[] = [];
+
+  if (review.scheduledCount === 0) {
+    rows.push(text('您還沒有為這個目標安排任何具體行程喔！', { color: COLORS.subtext }));
+  } else {
+    rows.push(...scheduleRows(review, timeZone));
+  }
+  if (review.weakTopics.length > 0) {
+    rows.push(labeledRow('📉 待加強', `${review.weakTopics.length} 份筆記`, COLORS.warning));
+    rows.push(...review.weakTopics.map(topic => text(`• ${formatWeakTopic(topic)}`, { size: 'xs' })));
+  }
+  return bubble(header(`🎯 ${review.title}`, subtitle), rows);
+}
+
+function scheduleRows(review: ObjectiveReview, timeZone: string): FlexComponent[] {
+  const rows: FlexComponent[] = [labeledRow('已安排', `${review.scheduledCount} 個行程`)];
+  if (review.overdueEvents.length > 0) {
+    rows.push(labeledRow('🔴 已過期', `${review.overdueEvents.length} 個任務`, COLORS.warning));
+    rows.push(...eventList(review.overdueEvents, false, timeZone));
+  }
+  if (review.upcomingEvents.length > 0) {
+    rows.push(labeledRow('🟢 本週', `${review.upcomingEvents.length} 個行程`));
+    rows.push(...eventList(review.upcomingEvents, true, timeZone));
+  } else if (review.overdueEvents.length === 0) {
+    rows.push(text('👍 本週沒有即將到來的行程，一切都在您的掌握中！', { color: COLORS.subtext }));
+  }
+  return rows;
+}
+
+/**
+ * 將每週回顧轉成 Flex Message：每個學習目標一張卡片，結尾的提醒放在最後一張卡片。
+ */
+export function buildWeeklyReviewFlex(reviews: ObjectiveReview[], closing: string, timeZone: string = getDefaultTimeZone()): FlexContainer | null {
+  const bubbles = reviews.map(review => objectiveReviewBubble(review, timeZone));
+  if (bubbles.length > 0) {
+    bubbles[bubbles.length - 1].footer = footerNote(closing);
+  }
+  return toContainer(bubbles);
+}
+
+
+/**
+ * 組合純文字與 Flex 版面；沒有 Flex 版面時直接回傳純文字。
+ */
+export function toReply(text: string, flex: FlexContainer | null): BotReply {
+  return flex ? { text, flex } : text;
+}
+
+/**
+ * 在回覆上附加快速回覆按鈕；多則訊息時附加在最後一則 (LINE 只會顯示最後一則的快速回覆)。
+ */
+export function withQuickReplies(reply: BotReply, buttons: QuickReplyButton[]): BotReply {
+  const attach = (message: ReplyMessage): RichReply =>
+    typeof message === 'string' ? { text: message, quickReplies: buttons } : { ...message, quickReplies: buttons };
+
+  if (!Array.isArray(reply)) {
+    return attach(reply);
+  }
+  return reply.length === 0 ? reply : [...reply.slice(0, -1), attach(reply[reply.length - 1])];
+}
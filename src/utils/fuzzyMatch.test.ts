@@ -0,0 +1,54 @@
+// src/utils/fuzzyMatch.test.ts
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { editDistance, normalizeText, rankByTitle, similarity } from './fuzzyMatch';
+
+describe('normalizeText', () => {
+  test('統一全形與大小寫，並移除空白、標點與引號', () => {
+    assert.equal(normalizeText('『OpenVINO 競賽』'), 'openvino競賽');
+    assert.equal(normalizeText('ＡＩ　繪圖！'), 'ai繪圖');
+  });
+});
+
+describe('editDistance', () => {
+  test('以字元為單位計算', () => {
+    assert.equal(editDistance('kitten', 'sitting'), 3);
+    assert.equal(editDistance('線性代數', '線性代數'), 0);
+    assert.equal(editDistance('線性代數期中考', '線性代數其中考'), 1);
+  });
+});
+
+describe('similarity', () => {
+  test('正規化後完全相同為 1', () => {
+    assert.equal(similarity('『線代期中考』', '線代 期中考'), 1);
+  });
+
+  test('包含大部分標題時至少 0.85', () => {
+    const score = similarity('OpenVINO 競賽', '完成 OpenVINO 競賽的準備');
+    assert.ok(score >= 0.85, `score = ${score}`);
+  });
+
+  test('很短的查詢只占標題一小部分時低於 0.85，但仍是候選', () => {
+    const score = similarity('AI', 'AI 繪圖競賽準備');
+    assert.ok(score < 0.85 && score >= 0.4, `score = ${score}`);
+    assert.ok(similarity('線', '線代') < 0.85);
+  });
+
+  test('少打或打錯一個字仍然相似', () => {
+    assert.ok(similarity('線性代數其中考', '線性代數期中考') > 0.8);
+  });
+
+  test('不相關的標題分數很低', () => {
+    assert.ok(similarity('微積分', '英文作文') < 0.4);
+    assert.equal(similarity('', '英文作文'), 0);
+  });
+});
+
+describe('rankByTitle', () => {
+  test('依分數排序，並過濾掉太低的項目', () => {
+    const titles = ['英文作文', '線性代數期中考', '線性代數作業'];
+    const ranked = rankByTitle('線性代數期中考', titles, title => title, 0.4);
+    assert.deepEqual(ranked.map(match => match.item), ['線性代數期中考', '線性代數作業']);
+  });
+});
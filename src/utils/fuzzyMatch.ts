@@ -0,0 +1,110 @@
+// src/utils/fuzzyMatch.ts
+
+// --- 模糊比對 ---
+// 使用者提到目標時常常只說部分標題，或少打、多打幾個字，
+// 例如「OpenVINO 競賽」要能找到「完成 OpenVINO 競賽的準備」。
+// 比對前先正規化文字，再依序以完全相同、包含關係、編輯距離與字元雙字組的相似度計分 (0-1)。
+
+// 包含關係要涵蓋較長一方至少這個比例的字元，且至少這麼多個字，才算很確定；
+// 否則像「AI」這種很短的查詢會因為出現在許多標題中而被直接選用
+const MIN_CONTAINMENT_COVERAGE = 0.4;
+const MIN_CONTAINMENT_LENGTH = 2;
+
+export interface RankedMatch<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * 正規化文字：統一全形/半形與大小寫，並移除空白、標點與各種引號，例如 "『OpenVINO 競賽』" → "openvino競賽"。
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+/**
+ * 兩個字串的編輯距離 (Levenshtein distance)，以字元 (code point) 為單位。
+ */
+export function editDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[target.length];
+}
+
+// 字元雙字組的 Dice 係數，對字詞順序不同的標題比較寬容
+function bigramSimilarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const chars = Array.from(text);
+    return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+  };
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.length === 0 || second.length === 0) {
+    return 0;
+  }
+
+  const remaining = [...second];
+  let overlap = 0;
+  for (const bigram of first) {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * overlap) / (first.length + second.length);
+}
+
+/**
+ * 計算查詢文字與標題的相似度 (0-1)：
+ * - 正規化後完全相同為 1
+ * - 其中一方包含另一方，且涵蓋足夠的比例時至少 0.85，長度越接近分數越高；
+ *   涵蓋的比例太低時分數會低於 0.85，仍列為候選但需要使用者確認
+ * - 其他情況取編輯距離與雙字組相似度中較高的分數
+ */
+export function similarity(query: string, title: string): number {
+  const a = normalizeText(query);
+  const b = normalizeText(title);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (longer.includes(shorter)) {
+    const shorterLength = Array.from(shorter).length;
+    const coverage = shorterLength / Array.from(longer).length;
+    return coverage >= MIN_CONTAINMENT_COVERAGE && shorterLength >= MIN_CONTAINMENT_LENGTH
+      ? 0.85 + 0.15 * coverage
+      : 0.5 + 0.3 * coverage;
+  }
+
+  const maxLength = Math.max(Array.from(a).length, Array.from(b).length);
+  const editScore = 1 - editDistance(a, b) / maxLength;
+  return Math.max(editScore, bigramSimilarity(a, b));
+}
+
+/**
+ * 依相似度排序候選項目，只保留分數不低於 minScore 的項目。
+ */
+export function rankByTitle<T>(query: string, items: T[], getTitle: (item: T) => string, minScore: number): RankedMatch<T>[] {
+  return items
+    .map(item => ({ item, score: similarity(query, getTitle(item)) }))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,41 @@
+// src/utils/mcpClient.test.ts
+
+import { afterEach, describe, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OAuth2Client } from 'google-auth-library';
+import { GoogleCalendarService } from './mcpClient';
+
+describe('listEvents 的時間範圍', () => {
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  // 回傳 listEvents 實際查詢的時間範圍
+  async function queriedRange(timeZone: string, now: string, timeRange: string): Promise<string[]> {
+    mock.timers.reset();
+    mock.timers.enable({ apis: ['Date'], now: new Date(now) });
+    const calendar = new GoogleCalendarService(new OAuth2Client(), timeZone);
+    const listAllEvents = mock.method(calendar as any, 'listAllEvents', async () => []);
+    await calendar.listEvents(timeRange);
+    return listAllEvents.mock.calls[0].arguments as string[];
+  }
+
+  test('今天與明天以使用者時區的午夜為界', async () => {
+    // 台北已經是 2/1 凌晨
+    assert.deepEqual(await queriedRange('Asia/Taipei', '2025-01-31T20:00:00Z', 'today'), ['2025-01-31T16:00:00.000Z', '2025-02-01T16:00:00.000Z']);
+    assert.deepEqual(await queriedRange('Asia/Taipei', '2025-01-31T20:00:00Z', 'tomorrow'), ['2025-02-01T16:00:00.000Z', '2025-02-02T16:00:00.000Z']);
+  });
+
+  test('一週從現在開始，算到使用者時區 7 天後那一天結束', async () => {
+    assert.deepEqual(await queriedRange('Asia/Taipei', '2025-01-31T20:00:00Z', 'week'), ['2025-01-31T20:00:00.000Z', '2025-02-08T16:00:00.000Z']);
+    // 紐約在 3/9 開始日光節約時間
+    assert.deepEqual(await queriedRange('America/New_York', '2025-03-05T15:00:00Z', 'week'), ['2025-03-05T15:00:00.000Z', '2025-03-13T04:00:00.000Z']);
+  });
+
+  test('一個月從現在開始，算到使用者時區下個月同一天結束', async () => {
+    assert.deepEqual(await queriedRange('Asia/Taipei', '2025-01-31T20:00:00Z', 'month'), ['2025-01-31T20:00:00.000Z', '2025-03-01T16:00:00.000Z']);
+    // 台北的 1/31 沒有對應的 2/31，算到 2/28 結束
+    assert.deepEqual(await queriedRange('Asia/Taipei', '2025-01-30T20:00:00Z', 'month'), ['2025-01-30T20:00:00.000Z', '2025-02-28T16:00:00.000Z']);
+  });
+});
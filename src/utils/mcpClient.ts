@@ -1,31 +1,19 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { GoogleAuthService } from '../services/googleAuthService';
+import { TimeInterval, assignSlots, getCandidateDays, getPlanningWindow, getSchedulingOptions } from '../services/slotScheduler';
+import { addDaysToDateString, addMonthsToDateString, getDefaultTimeZone, toZonedDateString, zonedTimeToDate } from './dateUtils';
 
 export class GoogleCalendarService {
   private calendar: any;
   public auth: OAuth2Client;
 
-  constructor() {
-    // 使用環境變數中的 Google 憑證
-    const credentials = {
-      client_id: process.env.GOOGLE_CLIENT_ID!,
-      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-      redirect_uri: 'urn:ietf:wg:oauth:2.0:oob'
-    };
-
-    this.auth = new google.auth.OAuth2(
-      credentials.client_id,
-      credentials.client_secret,
-      credentials.redirect_uri
-    );
-    
-
-    // 設定 tokens (從環境變數)
-    this.auth.setCredentials({
-      access_token: process.env.GOOGLE_ACCESS_TOKEN!,
-      refresh_token: process.env.GOOGLE_REFRESH_TOKEN!
-    });
-
+  /**
+   * @param auth 使用者專屬的 OAuth2 客戶端；未提供時使用應用程式層級的憑證
+   * @param timeZone 使用者所在的時區，「今天」的範圍、排程與建立的行程都以這個時區計算
+   */
+  constructor(auth?: OAuth2Client, public timeZone: string = getDefaultTimeZone()) {
+    this.auth = auth || GoogleAuthService.createAppAuthClient();
     this.calendar = google.calendar({ version: 'v3', auth: this.auth });
   }
 
@@ -43,28 +31,90 @@ export class GoogleCalendarService {
   async listEvents(timeRange: string = 'today'): Promise<any[]> {
     try {
       const { timeMin, timeMax } = this.getTimeRange(timeRange);
+      return await this.listAllEvents(timeMin, timeMax);
+    } catch (error) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
+      console.error('查詢事件失敗:', error);
+      return [];
+    }
+  }
 
+  /**
+   * 查詢與某段時間重疊的事件 (週期性事件會展開成個別的發生)。
+   * 與 listEvents 不同，查詢失敗時會拋出錯誤，讓呼叫端可以判斷授權是否失效。
+   */
+  async listEventsBetween(timeMin: Date, timeMax: Date): Promise<any[]> {
+    return this.listAllEvents(timeMin.toISOString(), timeMax.toISOString());
+  }
+
+  /**
+   * 依序讀取查詢結果的每一頁，回傳時間範圍內的所有事件。
+   */
+  private async listAllEvents(timeMin: string, timeMax: string): Promise<any[]> {
+    const events: any[] = [];
+    let pageToken: string | undefined;
+    do {
       const response = await this.calendar.events.list({
         calendarId: 'primary',
         timeMin,
         timeMax,
         singleEvents: true,
         orderBy: 'startTime',
-        maxResults: 20
+        maxResults: 250,
+        pageToken
       });
+      events.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+    return events;
+  }
 
-      return response.data.items || [];
-    } catch (error) {
-      console.error('查詢事件失敗:', error);
-      return [];
+  /**
+   * 讀取週期性行程在某個時間之前的每一次發生 (已取消的發生不會列出)。
+   * @param eventId 週期性行程 (整個系列) 的 ID
+   */
+  async listInstances(eventId: string, timeMax: Date): Promise<any[]> {
+    const instances: any[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.calendar.events.instances({
+        calendarId: 'primary',
+        eventId,
+        timeMax: timeMax.toISOString(),
+        maxResults: 250,
+        pageToken
+      });
+      instances.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+    return instances;
+  }
+
+  /**
+   * 把行程中的週期性行程展開成個別的發生，一般行程維持原樣。
+   * @param timeMax 週期性行程展開到這個時間為止
+   */
+  async expandRecurringEvents(events: any[], timeMax: Date): Promise<any[]> {
+    const expanded: any[] = [];
+    for (const event of events) {
+      if (event.recurrence?.length) {
+        expanded.push(...await this.listInstances(event.id, timeMax));
+      } else {
+        expanded.push(event);
+      }
     }
+    return expanded;
   }
 
   async createEvent(eventData: any): Promise<any> {
     try {
       const response = await this.calendar.events.insert({
         calendarId: 'primary',
-        resource: eventData
+        resource: eventData,
+        // 有參加者時寄出邀請
+        ...(eventData.attendees?.length ? { sendUpdates: 'all' } : {}),
       });
 
       return response.data;
@@ -74,11 +124,17 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * 用關鍵字搜尋今天 (使用者時區) 以後的行程，依開始時間排序。
+   * 過去的行程不在搜尋範圍內，否則累積了很多同名的舊行程後，接下來的行程會被擠出結果。
+   */
   async searchEvents(query: string): Promise<any[]> {
     try {
+      const today = toZonedDateString(new Date(), this.timeZone);
       const response = await this.calendar.events.list({
         calendarId: 'primary',
         q: query,
+        timeMin: zonedTimeToDate(today, 0, 0, this.timeZone).toISOString(),
         singleEvents: true,
         orderBy: 'startTime',
         maxResults: 20
@@ -86,11 +142,86 @@ export class GoogleCalendarService {
 
       return response.data.items || [];
     } catch (error) {
+      if (GoogleAuthService.isAuthRevokedError(error)) {
+        throw error;
+      }
       console.error('搜尋事件失敗:', error);
       return [];
     }
   }
 
+  /**
+   * 查詢某段時間內行事曆上已被占用的時段。
+   * @returns 依開始時間排序的 { start, end } 陣列
+   */
+  async queryFreeBusy(timeMin: Date, timeMax: Date): Promise<TimeInterval[]> {
+    try {
+      const response = await this.calendar.freebusy.query({
+        resource: {
+          timeMin: timeMin.toISOString(),
+          timeMax: timeMax.toISOString(),
+          items: [{ id: 'primary' }]
+        }
+      });
+
+      const busy: { start: string; end: string }[] = response.data.calendars?.primary?.busy || [];
+      return busy
+        .map(interval => ({ start: new Date(interval.start), end: new Date(interval.end) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+    } catch (error) {
+      console.error('查詢空閒時段失敗:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 局部更新一個既有事件，只會覆寫 patch 中有提供的欄位。
+   * @param eventId 要更新的 Google Calendar 事件 ID
+   * @param patch 要修改的欄位 (summary、start、end、location、description...)
+   * @returns 更新後的事件
+   */
+  async patchEvent(eventId: string, patch: any): Promise<any> {
+    try {
+      const response = await this.calendar.events.patch({
+        calendarId: 'primary',
+        eventId: eventId,
+        resource: patch
+      });
+      console.log(`[GCAL] 成功更新 Event ID: ${eventId}`);
+      return response.data;
+    } catch (error) {
+      console.error(`[GCAL] 更新 Event ID: ${eventId} 失敗:`, error);
+      // 拋出原本的錯誤，呼叫端才能分辨授權失效或行程已被刪除
+      throw error;
+    }
+  }
+
+  /**
+   * 依事件 ID 讀取行程，已被刪除或取消的行程會略過。
+   * 授權失效時會拋出錯誤，讓呼叫端可以請使用者重新連結。
+   */
+  async getEventsByIds(eventIds: string[]): Promise<any[]> {
+    const events = [];
+    for (const eventId of eventIds) {
+      try {
+        const response = await this.calendar.events.get({ calendarId: 'primary', eventId: eventId });
+        if (response.data.status !== 'cancelled') {
+          events.push(response.data);
+        }
+      } catch (error: any) {
+        if (GoogleAuthService.isAuthRevokedError(error)) {
+          throw error;
+        }
+        if (error.code === 404 || error.code === 410) {
+          console.log(`[GCAL] 事件 ${eventId} 已被刪除，略過。`);
+        } else {
+          console.error(`[GCAL] 獲取事件 ${eventId} 失敗:`, error);
+        }
+      }
+    }
+    return events;
+  }
+
   async deleteEventById(eventId: string): Promise<void> {
     try {
       await this.calendar.events.delete({
@@ -100,35 +231,37 @@ export class GoogleCalendarService {
       console.log(`[GCAL] 成功刪除 Event ID: ${eventId}`);
     } catch (error) {
       console.error(`[GCAL] 刪除 Event ID: ${eventId} 失敗:`, error);
-      // 向上拋出錯誤，讓呼叫者知道操作失敗
-      throw new Error('刪除 Google Calendar 事件時發生錯誤。');
+      // 向上拋出原本的錯誤，讓呼叫者知道操作失敗 (以及是否為授權失效)
+      throw error;
     }
   }
 
+  /**
+   * 計算查詢範圍。「今天」、「明天」是使用者時區的一整天，而不是伺服器時區的一天。
+   */
   private getTimeRange(range: string): { timeMin: string; timeMax: string } {
     const now = new Date();
+    const today = toZonedDateString(now, this.timeZone);
+    const startOfDay = (days: number) => zonedTimeToDate(addDaysToDateString(today, days), 0, 0, this.timeZone);
     let timeMin: Date, timeMax: Date;
 
     switch (range) {
       case 'today':
-        timeMin = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        timeMax = new Date(timeMin);
-        timeMax.setDate(timeMax.getDate() + 1);
+        timeMin = startOfDay(0);
+        timeMax = startOfDay(1);
         break;
       case 'tomorrow':
-        timeMin = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-        timeMax = new Date(timeMin);
-        timeMax.setDate(timeMax.getDate() + 1);
+        timeMin = startOfDay(1);
+        timeMax = startOfDay(2);
         break;
+      // 一週與一個月都從現在開始，算到使用者時區 7 天後 / 一個月後的那一天結束
       case 'week':
-        timeMin = new Date(now);
-        timeMax = new Date(now);
-        timeMax.setDate(timeMax.getDate() + 7);
+        timeMin = now;
+        timeMax = startOfDay(8);
         break;
       case 'month':
-        timeMin = new Date(now);
-        timeMax = new Date(now);
-        timeMax.setMonth(timeMax.getMonth() + 1);
+        timeMin = now;
+        timeMax = zonedTimeToDate(addDaysToDateString(addMonthsToDateString(today, 1), 1), 0, 0, this.timeZone);
         break;
       default:
         timeMin = new Date(now);
@@ -143,55 +276,57 @@ export class GoogleCalendarService {
   }
   
   /**
-   * 根據一個計畫陣列，建立多個 Google Calendar 事件。
-   * 會自動從隔天開始，避開週末，每天安排一個任務。
-   * @param plan 一個包含 { summary: string, duration_hours: number } 的陣列
-   * @returns 成功建立的事件陣列
+   * 為一組計畫項目找出行事曆上實際的空檔。
+   * 會查詢規劃期間的 free/busy，並在可安排時段內找出不衝突的時間。
+   * @param durationsHours 每個項目的時長 (小時)
+   * @param dueDate 學習目標的截止日期 ('YYYY-MM-DD')，有提供時會把項目分散到截止日前
+   * @returns 與 durationsHours 對應的時段，找不到空檔的項目為 null
    */
-  async createMultipleEvents(plan: any[]): Promise<any[]> {
-    const createdEvents = [];
-    let eventStartDate = new Date();
-    // 從明天開始安排
-    eventStartDate.setDate(eventStartDate.getDate() + 1);
-    // 預設從早上 9 點開始
-    eventStartDate.setHours(9, 0, 0, 0);
-
-    for (const item of plan) {
-      // 如果遇到週六(6)或週日(0)，就往後推
-      while (eventStartDate.getDay() === 0 || eventStartDate.getDay() === 6) {
-        eventStartDate.setDate(eventStartDate.getDate() + 1);
-      }
-
-      const startTime = new Date(eventStartDate);
-      const endTime = new Date(eventStartDate);
-      endTime.setHours(endTime.getHours() + (item.duration_hours || 1)); // 如果沒給時長，預設1小時
-      
-      const eventData = {
-        summary: item.summary,
-        description: `由 LINE 智慧規劃助理自動產生。`,
-        start: {
-          dateTime: startTime.toISOString(),
-          timeZone: 'Asia/Taipei'
-        },
-        end: {
-          dateTime: endTime.toISOString(),
-          timeZone: 'Asia/Taipei'
-        }
-      };
+  async findSlotsForPlan(durationsHours: number[], dueDate?: string | null): Promise<(TimeInterval | null)[]> {
+    const options = getSchedulingOptions(this.timeZone);
+    const days = getCandidateDays(options, dueDate);
+    if (days.length === 0 || durationsHours.length === 0) {
+      return durationsHours.map(() => null);
+    }
 
-      try {
-        const createdEvent = await this.createEvent(eventData);
-        createdEvents.push(createdEvent);
-      } catch (error) {
-        // 即使某個事件建立失敗，也要繼續嘗試下一個，不要中斷整個流程
-        console.error(`無法建立事件: "${item.summary}"`, error);
-      }
+    const window = getPlanningWindow(days, options);
+    const busy = await this.queryFreeBusy(window.start, window.end);
+    return assignSlots(durationsHours, busy, days, options, !!dueDate);
+  }
 
-      // 將日期往後推一天，準備安排下一個任務
-      eventStartDate.setDate(eventStartDate.getDate() + 1);
+  /**
+   * 在接下來幾天內 (從明天開始) 為一組項目找出空檔，用於把過期的任務重新排進本週。
+   * @param durationsHours 每個項目的時長 (小時)
+   * @param horizonDays 往後找的天數
+   * @returns 與 durationsHours 對應的時段，找不到空檔的項目為 null
+   */
+  async findSlotsWithinDays(durationsHours: number[], horizonDays: number): Promise<(TimeInterval | null)[]> {
+    const options = { ...getSchedulingOptions(this.timeZone), horizonDays };
+    const days = getCandidateDays(options);
+    if (days.length === 0 || durationsHours.length === 0) {
+      return durationsHours.map(() => null);
     }
-    
-    return createdEvents;
+
+    const window = getPlanningWindow(days, options);
+    const busy = await this.queryFreeBusy(window.start, window.end);
+    return assignSlots(durationsHours, busy, days, options, true);
+  }
+
+  /**
+   * 從指定的時間開始往後找第一個足夠長的空檔，用來建議與既有行程衝突的新行程改到其他時間。
+   * 當天從指定的時間開始找，之後的日期則在可安排的時段內找。
+   * @param from 原本要求的開始時間
+   * @param durationHours 行程的時長 (小時)
+   * @param horizonDays 往後找的天數
+   */
+  async findNextFreeSlot(from: Date, durationHours: number, horizonDays: number): Promise<TimeInterval | null> {
+    const options = { ...getSchedulingOptions(this.timeZone), horizonDays, now: from };
+    // 使用者指定的那一天即使是週末也要找
+    const days = [toZonedDateString(from, this.timeZone), ...getCandidateDays(options)];
+
+    const window = getPlanningWindow(days, options);
+    const busy = await this.queryFreeBusy(window.start, window.end);
+    return assignSlots([durationHours], busy, days, options, false)[0];
   }
 
   async disconnect(): Promise<void> {
@@ -201,14 +336,19 @@ export class GoogleCalendarService {
 
   /**
    * ✨ 新增：分析一組事件 ID 的狀態
+   * 週期性行程會展開成個別的發生來計算：本週的發生算在 upcomingEvents，
+   * 已經過去的發生是例行的讀書時段，不算過期的任務。
    * @param eventIds 一個包含 Google Calendar 事件 ID 的陣列
-   * @returns 一個包含 upcomingEvents 和 overdueEvents 的物件
+   * @param occurrenceHorizon 週期性行程的發生要計算到這個時間為止 (通常是學習目標的截止日)
+   * @returns upcomingEvents、overdueEvents，以及總共安排了幾個行程 (週期性行程以發生次數計算)
    */
-  async analyzeEventsStatus(eventIds: string[]): Promise<{ upcomingEvents: any[], overdueEvents: any[] }> {
+  async analyzeEventsStatus(eventIds: string[], occurrenceHorizon?: Date): Promise<{ upcomingEvents: any[], overdueEvents: any[], scheduledCount: number }> {
       const upcomingEvents = [];
       const overdueEvents = [];
+      let scheduledCount = 0;
       const now = new Date();
       const oneWeekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      const today = toZonedDateString(now, this.timeZone);
 
       for (const eventId of eventIds) {
           try {
@@ -217,11 +357,27 @@ export class GoogleCalendarService {
                   eventId: eventId,
               });
               const event = response.data;
-              const eventStartTime = new Date(event.start.dateTime || event.start.date);
-              
               if (event.status === 'cancelled') continue;
 
-              if (eventStartTime < now) {
+              if (event.recurrence?.length) {
+                  const horizon = occurrenceHorizon && occurrenceHorizon > oneWeekFromNow ? occurrenceHorizon : oneWeekFromNow;
+                  const instances = await this.listInstances(event.id, horizon);
+                  scheduledCount += instances.length;
+                  upcomingEvents.push(...instances.filter(instance => {
+                      const start = new Date(instance.start.dateTime || instance.start.date);
+                      return start >= now && start <= oneWeekFromNow;
+                  }));
+                  continue;
+              }
+              scheduledCount++;
+
+              // 全天事件的日期沒有時區，要換算成使用者時區當天的開始；當天還沒過完就不算過期
+              const eventStartTime = event.start.dateTime
+                  ? new Date(event.start.dateTime)
+                  : zonedTimeToDate(event.start.date, 0, 0, this.timeZone);
+              const isPast = event.start.dateTime ? eventStartTime < now : event.start.date < today;
+
+              if (isPast) {
                   overdueEvents.push(event);
               } else if (eventStartTime <= oneWeekFromNow) {
                   upcomingEvents.push(event);
@@ -235,6 +391,6 @@ export class GoogleCalendarService {
               }
           }
       }
-      return { upcomingEvents, overdueEvents };
+      return { upcomingEvents, overdueEvents, scheduledCount };
   }
 }
\ No newline at end of file
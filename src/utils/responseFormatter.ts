@@ -1,5 +1,11 @@
 // src/utils/responseFormatter.ts
 
+import { EventDetails, PlanEvent, RescheduleItem, WeakTopic } from '../types';
+import { ObjectiveStatus } from '../services/storageService';
+import { describeRecurrence } from '../services/recurrence';
+import { getEventDetails } from '../services/eventDetails';
+import { formatDateString, getDefaultTimeZone, toZonedDateString } from './dateUtils';
+
 // --- 介面定義 (Type Definitions) ---
 
 // 定義 "開始" 或 "結束" 時間物件的長相
@@ -10,41 +16,65 @@ interface EventDateTime {
 }
 
 // 定義一個從 Google Calendar API 來的事件物件的長相
-interface GoogleCalendarEvent {
+export interface GoogleCalendarEvent {
   summary: string;
   start: EventDateTime;
   end: EventDateTime;
 }
 
+// 每週回顧中，單一學習目標的進度資料
+export interface ObjectiveReview {
+  title: string;
+  dueDate: string | null;
+  scheduledCount: number;              // 目標底下安排過的行程數
+  overdueEvents: GoogleCalendarEvent[];
+  upcomingEvents: GoogleCalendarEvent[];
+  weakTopics: WeakTopic[];             // 目標底下測驗分數偏低的筆記
+}
+
+// 目標列表中，單一學習目標的進度資料
+export interface ObjectiveSummary {
+  title: string;
+  status: ObjectiveStatus;
+  dueDate: string | null;
+  totalEvents: number;                 // 仍在行事曆上的行程數
+  pastEvents: number;                  // 其中時間已經過了的行程數
+  nextEvent: GoogleCalendarEvent | null;
+  noteCount: number;                   // 歸檔在目標底下的筆記數
+}
+
+// 行程詳細資訊中各欄位的顯示文字，純文字與 Flex Message 共用
+export interface EventDetailTexts {
+  location?: string;
+  attendees?: string;
+  reminders?: string;     // 例如「30 分鐘前、1 天前」
+  description?: string;   // 只保留開頭的部分
+}
+
+// 計畫項目中可以顯示的欄位，純文字與 Flex Message 共用
+export interface PlanItemDetails extends EventDetailTexts {
+  date?: string;
+  time?: string;
+  duration?: string;
+  recurrence?: string;  // 週期性行程的重複規則，例如「每週二、四」
+  missingSlot: boolean; // 沒有日期也找不到空檔
+}
+
 
 // --- 核心函式 ---
 
 /**
  * 將從 Google Calendar API 獲取的事件陣列，格式化成適合在 LINE 中顯示的文字。
  * 這個版本是完全型別安全的。
+ * @param timeZone 使用者所在的時區，事件依這個時區的日期分組並顯示時間
  */
-export function formatEventsForLine(events: GoogleCalendarEvent[]): string {
+export function formatEventsForLine(events: GoogleCalendarEvent[], timeZone: string = getDefaultTimeZone()): string {
   if (!events || events.length === 0) {
     return '📅 太好了，這段時間內沒有任何安排！';
   }
 
   // 步驟 1: 將事件按日期分組
-  // 現在 Map 的型別非常明確：key 是字串，value 是 GoogleCalendarEvent 陣列
-  const eventsByDate = new Map<string, GoogleCalendarEvent[]>();
-
-  events.forEach(event => {
-    const startDateTime = event.start.dateTime || event.start.date;
-    // 如果連 startDateTime 都沒有，這是一個無效事件，直接跳過
-    if (!startDateTime) return; 
-
-    const eventDate = new Date(startDateTime);
-    const dateKey = eventDate.toISOString().split('T')[0];
-
-    if (!eventsByDate.has(dateKey)) {
-      eventsByDate.set(dateKey, []);
-    }
-    eventsByDate.get(dateKey)!.push(event);
-  });
+  const eventsByDate = groupEventsByDate(events, timeZone);
 
   // 步驟 2: 根據分組數量決定輸出格式
   
@@ -54,12 +84,11 @@ export function formatEventsForLine(events: GoogleCalendarEvent[]): string {
     // eventsByDate.entries().next().value 可能被視為 undefined。
     // 但因為我們在 if (size === 1) 的保護下，可以安全地使用 '!' 來告訴 TypeScript "相信我，這裡一定有值"。
     const [dateKey, dailyEvents] = eventsByDate.entries().next().value!;
-    const displayDate = new Date(dateKey + 'T00:00:00');
     
-    let response = `📅 您在 ${displayDate.toLocaleDateString('zh-TW')} 有 ${dailyEvents.length} 個行程:\n`;
+    let response = `📅 您在 ${formatDateString(dateKey)} 有 ${dailyEvents.length} 個行程:\n`;
     // ✨ 'event' 和 'index' 的型別現在會被自動推斷，不再報錯！
     dailyEvents.forEach((event, index) => {
-      response += `\n${index + 1}. ${event.summary}${formatEventTime(event)}`;
+      response += `\n${index + 1}. ${event.summary}${formatEventTime(event, timeZone)}${formatEventDetailLines(event)}`;
     });
     return response;
   }
@@ -69,30 +98,337 @@ export function formatEventsForLine(events: GoogleCalendarEvent[]): string {
     const sortedDates = Array.from(eventsByDate.keys()).sort();
 
     sortedDates.forEach(dateKey => {
-      const displayDate = new Date(dateKey + 'T00:00:00');
       const dailyEvents = eventsByDate.get(dateKey)!;
-      response += `\n--- ${displayDate.toLocaleDateString('zh-TW', { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' })} ---\n`;
+      response += `\n--- ${formatDateString(dateKey, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' })} ---\n`;
       
       dailyEvents.forEach(event => {
-        response += `  - ${event.summary}${formatEventTime(event)}\n`;
+        response += `  - ${event.summary}${formatEventTime(event, timeZone)}${formatEventDetailLines(event)}\n`;
       });
     });
     return response;
   }
 }
 
+/**
+ * 將事件按日期分組。
+ * 現在 Map 的型別非常明確：key 是 'YYYY-MM-DD' 字串，value 是 GoogleCalendarEvent 陣列
+ * 有時間的事件依使用者時區的日期分組 (UTC 的日期在亞洲時區的早上會差一天)，全天事件直接使用它的日期。
+ */
+export function groupEventsByDate(events: GoogleCalendarEvent[], timeZone: string = getDefaultTimeZone()): Map<string, GoogleCalendarEvent[]> {
+  const eventsByDate = new Map<string, GoogleCalendarEvent[]>();
+
+  events.forEach(event => {
+    // 如果連開始時間都沒有，這是一個無效事件，直接跳過
+    if (!event.start.dateTime && !event.start.date) return; 
+
+    const dateKey = getEventDateKey(event, timeZone);
+
+    if (!eventsByDate.has(dateKey)) {
+      eventsByDate.set(dateKey, []);
+    }
+    eventsByDate.get(dateKey)!.push(event);
+  });
+  return eventsByDate;
+}
+
+/**
+ * 事件在使用者時區的日期 ('YYYY-MM-DD')。
+ */
+export function getEventDateKey(event: GoogleCalendarEvent, timeZone: string = getDefaultTimeZone()): string {
+  return event.start.dateTime ? toZonedDateString(new Date(event.start.dateTime), timeZone) : event.start.date!;
+}
+
+/**
+ * 取得事件的時間文字，例如 "09:00 - 10:30"，全天事件回傳 "全天"。
+ */
+export function getEventTimeLabel(event: GoogleCalendarEvent, timeZone: string = getDefaultTimeZone()): string {
+  if (!event.start.dateTime) {
+    return '全天';
+  }
+  const startTime = formatClockTime(event.start.dateTime, timeZone);
+  const endTime = event.end.dateTime ? formatClockTime(event.end.dateTime, timeZone) : '';
+  return endTime ? `${startTime} - ${endTime}` : startTime;
+}
+
+/**
+ * 將時間點格式化成使用者時區的完整日期與時間，例如 "2025/7/30 19:00"。
+ */
+export function formatDateTime(value: string | Date, timeZone: string = getDefaultTimeZone()): string {
+  return new Date(value).toLocaleString('zh-TW', {
+    timeZone, year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false
+  });
+}
+
+/**
+ * 將一段時間格式化成使用者時區的日期與起訖時間，例如 "2025/7/30 14:00 - 15:00"。
+ */
+export function formatTimeRange(start: string, end: string, timeZone: string = getDefaultTimeZone()): string {
+  const event: GoogleCalendarEvent = { summary: '', start: { dateTime: start }, end: { dateTime: end } };
+  return `${formatEventDate(event, timeZone)} ${getEventTimeLabel(event, timeZone)}`;
+}
+
+// 使用者時區的時:分，例如 "09:00"
+function formatClockTime(value: string | Date, timeZone: string): string {
+  return new Date(value).toLocaleTimeString('zh-TW', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+// 行程列表與確認訊息中，說明只顯示開頭的部分
+const DESCRIPTION_PREVIEW_LENGTH = 60;
+
+/**
+ * 整理行程的地點、參加者、通知與說明要顯示的文字，只包含有提供的欄位。
+ */
+export function getEventDetailTexts(details: EventDetails): EventDetailTexts {
+  const texts: EventDetailTexts = {};
+  if (details.location) {
+    texts.location = details.location;
+  }
+  if (details.attendees?.length) {
+    texts.attendees = details.attendees.join('、');
+  }
+  if (details.reminderMinutes?.length) {
+    texts.reminders = [...details.reminderMinutes].sort((a, b) => a - b).map(formatReminderLead).join('、');
+  }
+  if (details.description) {
+    // Google Calendar 的說明可能含有 HTML 標籤
+    const plain = details.description.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    texts.description = plain.length > DESCRIPTION_PREVIEW_LENGTH ? plain.slice(0, DESCRIPTION_PREVIEW_LENGTH) + '…' : plain;
+  }
+  return texts;
+}
+
+/**
+ * 將行程的詳細資訊格式化成一行一個欄位的文字，例如 ["📍 圖書館 301 室", "🔔 30 分鐘前通知"]。
+ */
+export function formatEventDetails(details: EventDetails): string[] {
+  const texts = getEventDetailTexts(details);
+  const lines: string[] = [];
+  if (texts.location) lines.push(`📍 ${texts.location}`);
+  if (texts.attendees) lines.push(`👥 ${texts.attendees}`);
+  if (texts.reminders) lines.push(`🔔 ${texts.reminders}通知`);
+  if (texts.description) lines.push(`🗒️ ${texts.description}`);
+  return lines;
+}
+
+// 通知的提前時間，例如 "30 分鐘前"、"1 天前"
+function formatReminderLead(minutes: number): string {
+  if (minutes === 0) {
+    return '開始時';
+  }
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} 天前`;
+  }
+  return minutes % 60 === 0 ? `${minutes / 60} 小時前` : `${minutes} 分鐘前`;
+}
+
+// 行程列表中，接在時間後面的詳細資訊
+function formatEventDetailLines(event: GoogleCalendarEvent): string {
+  return formatEventDetails(getEventDetails(event)).map(line => `\n   ${line}`).join('');
+}
+
 /**
  * 輔助函式：格式化單一事件的時間部分。
  * 現在接收的是強型別的 GoogleCalendarEvent。
  */
-function formatEventTime(event: GoogleCalendarEvent): string {
+function formatEventTime(event: GoogleCalendarEvent, timeZone: string): string {
   if (event.start.dateTime) {
-    const startTime = new Date(event.start.dateTime).toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit', hour12: false });
-    const endTime = event.end.dateTime 
-      ? new Date(event.end.dateTime).toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit', hour12: false })
-      : '';
-    return endTime ? `\n   🕐 ${startTime} - ${endTime}` : `\n   🕐 ${startTime}`;
+    return `\n   🕐 ${getEventTimeLabel(event, timeZone)}`;
   } else {
     return ' (全天)';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 整理計畫項目要顯示的日期、時間與時長。
+ */
+export function getPlanItemDetails(item: PlanEvent, timeZone: string = getDefaultTimeZone()): PlanItemDetails {
+  const details: PlanItemDetails = { missingSlot: false };
+  // ✨ 智慧顯示日期和時間 ✨
+  if (item.date) {
+    details.date = formatDateString(item.date);
+  }
+  if (item.startTime) {
+    const displayStart = new Date(item.startTime);
+    const displayEnd = new Date(displayStart.getTime() + (item.duration_hours || 1) * 60 * 60 * 1000);
+    details.time = `${formatDateTime(displayStart, timeZone)} - ${formatClockTime(displayEnd, timeZone)}`;
+  } else if (!item.date) {
+    details.missingSlot = true;
+  }
+  // ✨ 智慧顯示時長 ✨
+  if (item.duration_hours) {
+    details.duration = `約 ${item.duration_hours} 小時`;
+  }
+  if (item.recurrence) {
+    details.recurrence = describeRecurrence(item.recurrence);
+  }
+  return { ...details, ...getEventDetailTexts(item) };
+}
+
+/**
+ * 將計畫草案格式化成純文字，前後分別加上開場白與結尾的操作說明。
+ */
+export function formatPlanForLine(plan: PlanEvent[], intro: string, outro: string, timeZone: string = getDefaultTimeZone()): string {
+  let response = `${intro}\n\n`;
+
+  plan.forEach((item, index) => {
+    const details = getPlanItemDetails(item, timeZone);
+    response += `🗓️ 階段 ${index + 1}: ${item.summary}\n`;
+    if (details.date) {
+      response += `   - 日期: ${details.date}\n`;
+    }
+    if (details.time) {
+      response += `   - 時間: ${details.time}\n`;
+    } else if (details.missingSlot) {
+      response += `   - 時間: ⚠️ 規劃期間內找不到足夠的空檔\n`;
+    }
+    if (details.duration) {
+      response += `   - 時長: ${details.duration}\n`;
+    }
+    if (details.recurrence) {
+      response += `   - 重複: ${details.recurrence}\n`;
+    }
+    if (details.location) {
+      response += `   - 地點: ${details.location}\n`;
+    }
+    if (details.attendees) {
+      response += `   - 參加者: ${details.attendees}\n`;
+    }
+    if (details.reminders) {
+      response += `   - 通知: ${details.reminders}\n`;
+    }
+    if (details.description) {
+      response += `   - 說明: ${details.description}\n`;
+    }
+    response += "\n";
+  });
+  response += outro;
+  return response;
+}
+
+/**
+ * 將每週回顧格式化成純文字。
+ * @param timeZone 使用者所在的時區
+ */
+export function formatWeeklyReviewForLine(reviews: ObjectiveReview[], closing: string, timeZone: string = getDefaultTimeZone()): string {
+  let reportText = `早安！☀️ 這是您本週的學習進度回顧：\n`;
+
+  for (const review of reviews) {
+    reportText += `\n🎯 目標：${review.title}\n`;
+
+    if (review.scheduledCount === 0) {
+      reportText += `   - 您還沒有為這個目標安排任何具體行程喔！\n`;
+    }
+
+    if (review.overdueEvents.length > 0) {
+      reportText += `   - 🔴 注意！有 ${review.overdueEvents.length} 個任務已過期：\n`;
+      review.overdueEvents.forEach(event => {
+        reportText += `     - ${event.summary}\n`;
+      });
+    }
+
+    if (review.upcomingEvents.length > 0) {
+      reportText += `   - 🟢 本週即將進行：\n`;
+      review.upcomingEvents.forEach(event => {
+        reportText += `     - ${formatEventDate(event, timeZone)} - ${event.summary}\n`;
+      });
+    } else if (review.scheduledCount > 0 && review.overdueEvents.length === 0) {
+      reportText += `   - 👍 本週沒有即將到來的行程，一切都在您的掌握中！\n`;
+    }
+
+    if (review.weakTopics.length > 0) {
+      reportText += `   - 📉 測驗分數偏低，建議再複習：\n`;
+      review.weakTopics.forEach(topic => {
+        reportText += `     - ${formatWeakTopic(topic)}\n`;
+      });
+    }
+  }
+
+  reportText += `\n${closing}`;
+  return reportText;
+}
+
+const OBJECTIVE_STATUS_LABELS: Record<ObjectiveStatus, string> = {
+  'In Progress': '🎯 進行中',
+  'Completed': '✅ 已完成',
+  'On Hold': '⏸️ 暫停中',
+};
+
+export function formatObjectiveStatus(status: ObjectiveStatus): string {
+  return OBJECTIVE_STATUS_LABELS[status] || status;
+}
+
+/**
+ * 將使用者的學習目標列表與進度格式化成純文字。
+ */
+export function formatObjectivesForLine(summaries: ObjectiveSummary[], timeZone: string = getDefaultTimeZone()): string {
+  let response = `📂 您目前有 ${summaries.length} 個學習目標：\n`;
+
+  summaries.forEach((summary, index) => {
+    response += `\n${index + 1}. ${summary.title} (${formatObjectiveStatus(summary.status)})\n`;
+    if (summary.dueDate) {
+      response += `   - 截止日期: ${summary.dueDate}\n`;
+    }
+    if (summary.totalEvents > 0) {
+      const percent = Math.round(summary.pastEvents / summary.totalEvents * 100);
+      response += `   - 進度: 已進行 ${summary.pastEvents} / ${summary.totalEvents} 個行程 (${percent}%)\n`;
+    } else {
+      response += `   - 進度: 還沒有安排任何行程\n`;
+    }
+    if (summary.nextEvent) {
+      response += `   - 下一步: ${formatEventDate(summary.nextEvent, timeZone)} ${summary.nextEvent.summary}\n`;
+    }
+    if (summary.noteCount > 0) {
+      response += `   - 筆記: ${summary.noteCount} 份\n`;
+    }
+  });
+
+  response += `\n您可以說：「『目標名稱』已經完成了」、「暫停『目標名稱』」、「把『目標名稱』改名為…」或「刪除『目標名稱』」。`;
+  return response;
+}
+
+/**
+ * 需要加強的主題文字，例如 "作業系統 - 行程管理 (最近 3 次平均 45 分)"。
+ */
+export function formatWeakTopic(topic: WeakTopic): string {
+  return `${topic.title} (最近 ${topic.attempts} 次平均 ${topic.averageScore} 分)`;
+}
+
+/**
+ * 取得事件的日期文字，例如 "2025/8/20"。
+ */
+export function formatEventDate(event: GoogleCalendarEvent, timeZone: string = getDefaultTimeZone()): string {
+  return formatDateString(getEventDateKey(event, timeZone));
+}
+
+// 重新安排建議中的時間文字，例如 "8/5 (週二) 10:00"；只有日期的全天事件不顯示時間
+function formatRescheduleTime(value: string, timeZone: string): string {
+  if (!value.includes('T')) {
+    return `${formatDateString(value, { month: 'numeric', day: 'numeric', weekday: 'short' })} 全天`;
+  }
+  return new Date(value).toLocaleString('zh-TW', {
+    timeZone, month: 'numeric', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit', hour12: false
+  });
+}
+
+/**
+ * 將過期任務的重新安排建議格式化成純文字。
+ * @param unscheduled 一週內找不到空檔的任務標題
+ */
+export function formatRescheduleProposalForLine(items: RescheduleItem[], unscheduled: string[], timeZone: string = getDefaultTimeZone()): string {
+  let response = `🔁 我在接下來一週為 ${items.length} 個過期任務找到了新的時段：\n`;
+
+  items.forEach((item, index) => {
+    response += `\n${index + 1}. ${item.summary}\n`;
+    response += `   - 原本: ${formatRescheduleTime(item.originalStart, timeZone)}\n`;
+    response += `   - 改到: ${formatRescheduleTime(item.start, timeZone)}\n`;
+  });
+
+  if (unscheduled.length > 0) {
+    response += `\n⚠️ 以下任務一週內找不到空檔，暫時沒有安排：\n- ${unscheduled.join('\n- ')}\n`;
+  }
+
+  response += items.length === 1
+    ? `\n要幫您重新安排嗎？(請回覆'是'或'否')`
+    : `\n要全部重新安排嗎？回覆「全部」或編號 (例如 '1, 3') 只安排部分任務，也可以回覆「取消」。`;
+  return response;
+}